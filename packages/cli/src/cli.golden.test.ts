@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { runCli } from "./index";
 import { readFileSync, mkdtempSync, rmSync } from "node:fs";
-import { resolve, join } from "node:path";
+import { resolve, join, dirname, relative } from "node:path";
 import { tmpdir } from "node:os";
 
 const simpleSqlPath = resolve(
@@ -18,13 +18,26 @@ const goldenSchemaPath = resolve(
   "testdata/golden/simple.schema.json",
 );
 
+/**
+ * Output read back with the input path written relative to the golden file,
+ * as `@see` links and the recorded options resolve it from the output file.
+ * @param {string} outPath - File the CLI wrote
+ * @param {string} goldenPath - Golden file it is compared with
+ * @returns {string} Normalized output
+ */
+function readOutput(outPath: string, goldenPath: string): string {
+  const fromOut = relative(dirname(outPath), simpleSqlPath);
+  const fromGolden = relative(dirname(goldenPath), simpleSqlPath);
+  return readFileSync(outPath, "utf8").split(fromOut).join(fromGolden).trim();
+}
+
 describe("CLI golden snapshots", () => {
   it("file input → --out default", async () => {
     const dir = mkdtempSync(join(tmpdir(), "ch2ts-"));
     try {
       const outPath = join(dir, "types.ts");
       await runCli([simpleSqlPath, "--out", outPath, "--camel"]);
-      const got = readFileSync(outPath, "utf8").trim();
+      const got = readOutput(outPath, goldenDefaultPath);
       const golden = readFileSync(goldenDefaultPath, "utf8").trim();
       expect(got).toBe(golden);
     } finally {
@@ -37,7 +50,7 @@ describe("CLI golden snapshots", () => {
     try {
       const outPath = join(dir, "types.ts");
       await runCli([simpleSqlPath, "--out", outPath, "--camel", "--emit-zod"]);
-      const got = readFileSync(outPath, "utf8").trim();
+      const got = readOutput(outPath, goldenZodPath);
       const golden = readFileSync(goldenZodPath, "utf8").trim();
       expect(got).toBe(golden);
     } finally {
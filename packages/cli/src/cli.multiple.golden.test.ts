@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { runCli } from "./index";
 import { readFileSync, mkdtempSync, rmSync } from "node:fs";
-import { resolve, join } from "node:path";
+import { resolve, join, dirname, relative } from "node:path";
 import { tmpdir } from "node:os";
 
 const multiSqlPath = resolve(process.cwd(), "testdata/simple/test.sql");
@@ -10,13 +10,26 @@ const goldenMultiZodPath = resolve(
   "testdata/golden/simple.multiple.zod.ts",
 );
 
+/**
+ * Output read back with the input path written relative to the golden file,
+ * as `@see` links and the recorded options resolve it from the output file.
+ * @param {string} outPath - File the CLI wrote
+ * @param {string} goldenPath - Golden file it is compared with
+ * @returns {string} Normalized output
+ */
+function readOutput(outPath: string, goldenPath: string): string {
+  const fromOut = relative(dirname(outPath), multiSqlPath);
+  const fromGolden = relative(dirname(goldenPath), multiSqlPath);
+  return readFileSync(outPath, "utf8").split(fromOut).join(fromGolden).trim();
+}
+
 describe("CLI multiple statements (tables + MVs)", () => {
   it("file input with table + MV → --out --emit-zod", async () => {
     const dir = mkdtempSync(join(tmpdir(), "ch2ts-"));
     try {
       const outPath = join(dir, "types.ts");
       await runCli([multiSqlPath, "--out", outPath, "--camel", "--emit-zod"]);
-      const got = readFileSync(outPath, "utf8").trim();
+      const got = readOutput(outPath, goldenMultiZodPath);
       const golden = readFileSync(goldenMultiZodPath, "utf8").trim();
       expect(got).toBe(golden);
     } finally {
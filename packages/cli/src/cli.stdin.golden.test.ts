@@ -8,9 +8,10 @@ const simpleSqlPath = resolve(
   process.cwd(),
   "testdata/simple/create_simple.sql",
 );
-const goldenDefaultPath = resolve(
+// stdin has no source path, so its output has no @see links
+const goldenStdinPath = resolve(
   process.cwd(),
-  "testdata/golden/simple.default.ts",
+  "testdata/golden/simple.stdin.ts",
 );
 
 describe("CLI stdin golden", () => {
@@ -22,7 +23,7 @@ describe("CLI stdin golden", () => {
       output += String(s);
     });
     await runCli(["--camel"], stdin);
-    const golden = readFileSync(goldenDefaultPath, "utf8").trim();
+    const golden = readFileSync(goldenStdinPath, "utf8").trim();
     expect(output.trim()).toBe(golden);
     spy.mockRestore();
   });
@@ -1,5 +1,9 @@
-import { describe, expect, it } from "vitest";
-import { buildCli } from "./index";
+import { describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { buildCli, runCli } from "./index";
 
 describe("@ch2ts/cli wiring", () => {
   it("parses basic flags", () => {
@@ -12,4 +16,62 @@ describe("@ch2ts/cli wiring", () => {
     expect(opts.camel).toBe(true);
     expect(program.args[0]).toBe("input.sql");
   });
+
+  it("--strict fails when a statement cannot be parsed", async () => {
+    const sql = "CREATE TABLE t (a Array(String COMMENT 'x');";
+    const errors: string[] = [];
+    const spy = vi.spyOn(console, "error").mockImplementation((s?: unknown) => {
+      errors.push(String(s));
+    });
+    try {
+      await expect(runCli(["--strict"], Readable.from(sql))).rejects.toThrow(
+        /--strict/,
+      );
+      expect(errors).toEqual([
+        "<stdin>:1:32 error: Expected ) but found 'COMMENT' (statement 1, near 'COMMENT')",
+      ]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("replays a migrations directory in numeric order", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ch2ts-migrations-"));
+    writeFileSync(
+      join(dir, "1_create.sql"),
+      "CREATE TABLE t (id UInt64, legacy String) ENGINE = MergeTree ORDER BY id;",
+    );
+    writeFileSync(
+      join(dir, "2_drop.sql"),
+      "ALTER TABLE t DROP COLUMN legacy, DROP COLUMN missing;",
+    );
+    writeFileSync(join(dir, "10_add.sql"), "ALTER TABLE t ADD COLUMN n UInt8;");
+    writeFileSync(join(dir, "notes.txt"), "DROP TABLE t;");
+    const logs: string[] = [];
+    const errors: string[] = [];
+    const logSpy = vi
+      .spyOn(console, "log")
+      .mockImplementation((s?: unknown) => {
+        logs.push(String(s));
+      });
+    const errorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation((s?: unknown) => {
+        errors.push(String(s));
+      });
+    try {
+      await runCli([dir]);
+      const out = logs.join("\n");
+      expect(out).toContain("  id: bigint;");
+      expect(out).toContain("  n: number;");
+      expect(out).not.toContain("legacy");
+      expect(errors).toEqual([
+        `${join(dir, "2_drop.sql")}:1:1 warning: Column 'missing' was not found (statement 1, table t)`,
+      ]);
+    } finally {
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
@@ -1,8 +1,12 @@
 import { Command } from "commander";
 import {
-  parse,
+  parseWithDiagnostics,
   map,
+  mapWithDiagnostics,
   emit,
+  type DatabaseNaming,
+  type Diagnostic,
+  type TableAst,
   type EmissionOptions,
   type MappingOptions,
 } from "@ch2ts/core";
@@ -13,21 +17,38 @@ import {
   strictPreset,
   type PresetOptions,
 } from "@ch2ts/presets";
-import { readFile, writeFile } from "node:fs/promises";
+import { readFile, readdir, stat, writeFile } from "node:fs/promises";
 import chokidar from "chokidar";
+import { dirname, join, relative } from "node:path";
 import { pathToFileURL } from "node:url";
 
+/** SQL read from one input file, or from stdin when `path` is undefined. */
+interface InputSource {
+  readonly path: string | undefined;
+  readonly sql: string;
+}
+
 /** CLI options after parsing arguments. */
 export interface CliOptions {
   readonly out?: string;
   readonly camel: boolean;
+  readonly databaseNaming: DatabaseNaming;
   readonly int64As?: "bigint" | "string";
   readonly decimal?: "string" | "decimal.js";
   readonly datetimeAs?: "string" | "Date";
+  readonly tupleAs: "object" | "array";
+  readonly nestedAs: "flatten" | "array";
+  readonly aggregateState: "opaque" | "merged";
+  readonly geoAs: "tuple" | "geojson";
+  readonly enumAs: "union" | "const" | "number";
+  readonly mapAs: "record" | "map";
   readonly emitZod: boolean;
+  readonly emitRowTypes: boolean;
+  readonly emitMetadata: boolean;
   readonly emitJsonSchema: boolean;
   readonly preset?: "safe" | "strict" | "decimal.js" | "bigint";
   readonly failOnUnknown: boolean;
+  readonly strict: boolean;
   readonly watch: boolean;
 }
 
@@ -38,13 +59,41 @@ export function buildCli(): Command {
     .description(
       "Generate TypeScript types from ClickHouse CREATE TABLE statements",
     )
-    .argument("[input]", "SQL file path (or omit to read from stdin)")
+    .argument(
+      "[input]",
+      "SQL file path or migrations directory (or omit to read from stdin)",
+    )
     .option("-o, --out <file>", "Output TypeScript file")
     .option("--camel", "Convert column names to camelCase", false)
+    .option(
+      "--database-naming <mode>",
+      "Use db qualifiers in type names as ignore|prefix|namespace",
+      "ignore",
+    )
     .option("--int64-as <mode>", "Map Int64/UInt64 as bigint|string", "bigint")
     .option("--decimal <mode>", "Map Decimal as string|decimal.js", "string")
     .option("--datetime-as <mode>", "Map DateTime as string|Date", "string")
+    .option("--tuple-as <mode>", "Map unnamed Tuple as object|array", "object")
+    .option("--nested-as <mode>", "Map Nested as flatten|array", "flatten")
+    .option(
+      "--aggregate-state <mode>",
+      "Map AggregateFunction as opaque|merged",
+      "opaque",
+    )
+    .option("--geo-as <mode>", "Map geo types as tuple|geojson", "tuple")
+    .option("--enum-as <mode>", "Map enums as union|const|number", "union")
+    .option("--map-as <mode>", "Map Map types as record|map", "record")
     .option("--emit-zod", "Emit Zod schemas next to interfaces", false)
+    .option(
+      "--emit-row-types",
+      "Also emit XxxRow (select) and XxxInsert (insert) interfaces",
+      false,
+    )
+    .option(
+      "--emit-metadata",
+      "Also emit XxxMeta constants with table name, engine and keys",
+      false,
+    )
     .option(
       "--emit-json-schema",
       "Also emit JSON Schema (when --out is used)",
@@ -55,6 +104,11 @@ export function buildCli(): Command {
       "Use a predefined mapping preset (safe|strict|decimal.js|bigint)",
     )
     .option("--fail-on-unknown", "Fail when encountering unknown types", false)
+    .option(
+      "--strict",
+      "Exit with an error when any statement fails to parse",
+      false,
+    )
     .option("-w, --watch", "Watch input file and regenerate on changes", false);
   return program;
 }
@@ -100,13 +154,47 @@ export async function runCli(
     datetimeAs: opts.datetimeAs ?? preset?.datetimeAs ?? "string",
     camelCase: opts.camel,
     failOnUnknown: opts.failOnUnknown,
+    databaseNaming: opts.databaseNaming,
+    tupleAs: opts.tupleAs,
+    nestedAs: opts.nestedAs,
+    aggregateStateAs: opts.aggregateState,
+    geoAs: opts.geoAs,
+    enumAs: opts.enumAs,
+    mapAs: opts.mapAs,
+  };
+  const isDirectory =
+    inputPath !== undefined && (await stat(inputPath)).isDirectory();
+  const outputDir = opts.out ? dirname(opts.out) : process.cwd();
+  const emitOpts: EmissionOptions = {
+    emitZod: opts.emitZod,
+    ...(opts.emitRowTypes ? { emitRowTypes: true } : {}),
+    ...(opts.emitMetadata ? { emitMetadata: true } : {}),
+    // @see links resolve from the generated file, or from cwd on stdout
+    ...(inputPath && !isDirectory
+      ? { sourcePath: relative(outputDir, inputPath) }
+      : {}),
   };
-  const emitOpts: EmissionOptions = { emitZod: opts.emitZod };
 
   const generateOnce = async () => {
-    const sql = await readInputSql(inputPath, stdin);
-    const tables = parse(sql);
-    const mapped = map(tables, mapOpts);
+    const sources = isDirectory
+      ? await readMigrations(inputPath!)
+      : [{ path: inputPath, sql: await readInputSql(inputPath, stdin) }];
+    // Each file is applied on top of the tables left by the previous ones
+    let tables: readonly TableAst[] = [];
+    const diagnostics: Diagnostic[] = [];
+    for (const source of sources) {
+      const parsed = parseWithDiagnostics(source.sql, tables);
+      tables = parsed.tables;
+      diagnostics.push(...parsed.diagnostics);
+      reportDiagnostics(parsed.diagnostics, source.path);
+    }
+    const mappedResult = mapWithDiagnostics(tables, mapOpts, emitOpts);
+    diagnostics.push(...mappedResult.diagnostics);
+    reportDiagnostics(mappedResult.diagnostics, inputPath);
+    if (opts.strict && diagnostics.some((d) => d.severity === "error")) {
+      throw new Error("Errors were reported while generating types (--strict)");
+    }
+    const mapped = mappedResult.tables;
     const out = emit(mapped, emitOpts);
     if (typeof opts.out === "string" && opts.out.length > 0) {
       await writeFile(opts.out, out, "utf8");
@@ -117,7 +205,7 @@ export async function runCli(
             emitJsonSchema: (mapped: ReturnType<typeof map>) => string;
           }
         ).emitJsonSchema;
-        const json = emitJson(map(parse(sql), mapOpts));
+        const json = emitJson(mapped);
         const schemaPath = deriveSchemaPath(opts.out);
         await writeFile(schemaPath, json, "utf8");
       }
@@ -133,8 +221,15 @@ export async function runCli(
     }
     await generateOnce();
     const watcher = chokidar.watch(inputPath, { ignoreInitial: true });
-    const debounced = debounce(() => void generateOnce(), 80);
+    const debounced = debounce(
+      () => void generateOnce().catch(reportError),
+      80,
+    );
     watcher.on("change", debounced);
+    if (isDirectory) {
+      watcher.on("add", debounced);
+      watcher.on("unlink", debounced);
+    }
     // Keep running when used as a binary; programmatic users can ignore this behavior
     return new Promise(() => undefined);
   }
@@ -142,6 +237,24 @@ export async function runCli(
   await generateOnce();
 }
 
+/**
+ * Read the `.sql` files of a migrations directory in migration order,
+ * comparing numbers numerically so `10_x.sql` follows `9_x.sql`.
+ */
+async function readMigrations(dir: string): Promise<InputSource[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const names = entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".sql"))
+    .map((entry) => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const sources: InputSource[] = [];
+  for (const name of names) {
+    const path = join(dir, name);
+    sources.push({ path, sql: await readFile(path, "utf8") });
+  }
+  return sources;
+}
+
 async function readInputSql(
   inputPath: string | undefined,
   stdin: NodeJS.ReadableStream | undefined,
@@ -161,6 +274,33 @@ async function readInputSql(
   return Buffer.concat(chunks).toString("utf8");
 }
 
+/** Print diagnostics to stderr as `file:line:column severity: message`. */
+function reportDiagnostics(
+  diagnostics: readonly Diagnostic[],
+  inputPath: string | undefined,
+): void {
+  for (const d of diagnostics) {
+    console.error(formatDiagnostic(d, inputPath ?? "<stdin>"));
+  }
+}
+
+/** Format a single diagnostic for terminal output. */
+export function formatDiagnostic(d: Diagnostic, source: string): string {
+  const position = d.line !== undefined ? `:${d.line}:${d.column ?? 1}` : "";
+  const details: string[] = [];
+  if (d.statementIndex !== undefined) {
+    details.push(`statement ${d.statementIndex + 1}`);
+  }
+  if (d.table !== undefined) details.push(`table ${d.table}`);
+  if (d.token !== undefined) details.push(`near '${d.token}'`);
+  const suffix = details.length > 0 ? ` (${details.join(", ")})` : "";
+  return `${source}${position} ${d.severity}: ${d.message}${suffix}`;
+}
+
+function reportError(error: unknown): void {
+  console.error(error instanceof Error ? error.message : String(error));
+}
+
 function debounce(fn: () => void, ms: number) {
   let t: NodeJS.Timeout | null = null;
   return () => {
@@ -196,5 +336,8 @@ const isEsmMain = (() => {
 })();
 
 if (isCjsMain || isEsmMain) {
-  void runCli(process.argv.slice(2), process.stdin);
+  runCli(process.argv.slice(2), process.stdin).catch((error: unknown) => {
+    reportError(error);
+    process.exitCode = 1;
+  });
 }
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { parse, parseWithDiagnostics } from "./index.js";
+
+const create = `CREATE TABLE db.events (
+  id UInt64,
+  name String,
+  ts DateTime
+) ENGINE = MergeTree ORDER BY id;`;
+
+describe("ALTER TABLE replay", () => {
+  it("adds columns first, after another column or last", () => {
+    const sql = `${create}
+ALTER TABLE db.events
+  ADD COLUMN source LowCardinality(String) FIRST,
+  ADD COLUMN IF NOT EXISTS user_id UInt32 AFTER id,
+  ADD COLUMN score Float64 DEFAULT 0 COMMENT 'rank';`;
+    const table = parse(sql)[0]!;
+    expect(table.columns.map((c) => c.name)).toEqual([
+      "source",
+      "id",
+      "user_id",
+      "name",
+      "ts",
+      "score",
+    ]);
+    expect(table.columns[5]).toMatchObject({
+      rawType: "Float64",
+      kind: "default",
+      default: "0",
+      comment: "rank",
+    });
+  });
+
+  it("drops, renames, comments and modifies columns in order", () => {
+    const sql = `${create}
+ALTER TABLE events ON CLUSTER main DROP COLUMN ts;
+ALTER TABLE db.events RENAME COLUMN name TO title, COMMENT COLUMN title 'Event title';
+ALTER TABLE db.events MODIFY COLUMN id UInt128 CODEC(ZSTD(1)) AFTER title;`;
+    const table = parse(sql)[0]!;
+    expect(table.columns).toMatchObject([
+      { name: "title", rawType: "String", comment: "Event title" },
+      { name: "id", type: { name: "UInt128", args: [] }, rawType: "UInt128" },
+    ]);
+  });
+
+  it("keeps the type when MODIFY COLUMN only changes clauses", () => {
+    const sql = `${create}
+ALTER TABLE db.events MODIFY COLUMN name DEFAULT 'unknown';`;
+    expect(parse(sql)[0]!.columns[1]).toMatchObject({
+      name: "name",
+      rawType: "String",
+      kind: "default",
+      default: "'unknown'",
+    });
+  });
+
+  it("renames and drops tables", () => {
+    const sql = `${create}
+CREATE TABLE db.tmp (x UInt8) ENGINE = Memory;
+RENAME TABLE db.events TO events_v2, db.tmp TO archive.tmp;
+DROP TABLE IF EXISTS archive.tmp;
+DROP VIEW IF EXISTS db.missing;`;
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables.map((t) => `${t.database}.${t.name}`)).toEqual([
+      "db.events_v2",
+    ]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("reports missing tables and columns as warnings and applies the rest", () => {
+    const sql = `${create}
+ALTER TABLE db.events DROP COLUMN missing, DROP COLUMN IF EXISTS gone, DROP COLUMN ts;
+ALTER TABLE db.events ADD COLUMN id UInt8, ADD COLUMN flag Bool AFTER nowhere;
+ALTER TABLE db.other ADD COLUMN x UInt8;`;
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables[0]!.columns.map((c) => c.name)).toEqual([
+      "id",
+      "name",
+      "flag",
+    ]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        message: "Column 'missing' was not found",
+        table: "db.events",
+        statementIndex: 1,
+        line: 6,
+        column: 1,
+      },
+      {
+        severity: "warning",
+        message: "Column 'id' already exists",
+        table: "db.events",
+        statementIndex: 2,
+        line: 7,
+        column: 1,
+      },
+      {
+        severity: "warning",
+        message: "Column 'nowhere' was not found; 'flag' was placed last",
+        table: "db.events",
+        statementIndex: 2,
+        line: 7,
+        column: 1,
+      },
+      {
+        severity: "warning",
+        message: "Table 'db.other' was not found; ALTER TABLE was not applied",
+        table: "db.other",
+        statementIndex: 3,
+        line: 8,
+        column: 1,
+      },
+    ]);
+  });
+
+  it("skips data mutations silently and warns about other commands", () => {
+    const sql = `${create}
+ALTER TABLE db.events DELETE WHERE id = 0, DROP PARTITION 202401;
+ALTER TABLE db.events ADD INDEX name_idx name TYPE bloom_filter GRANULARITY 4;`;
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables[0]!.columns).toHaveLength(3);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "ALTER command 'ADD INDEX name_idx name TYPE bloom_filter GRANULARITY 4' was not applied",
+    ]);
+  });
+
+  it("reports malformed statements as errors", () => {
+    const sql = `${create}
+ALTER TABLE db.events RENAME COLUMN name;`;
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables[0]!.columns).toHaveLength(3);
+    expect(diagnostics).toMatchObject([
+      { severity: "error", statementIndex: 1, line: 6 },
+    ]);
+  });
+
+  it("applies statements to base tables from earlier inputs", () => {
+    const base = parse(create);
+    const { tables } = parseWithDiagnostics(
+      "ALTER TABLE db.events ADD COLUMN country FixedString(2) AFTER name;",
+      base,
+    );
+    expect(tables[0]!.columns.map((c) => c.name)).toEqual([
+      "id",
+      "name",
+      "country",
+      "ts",
+    ]);
+    expect(base[0]!.columns).toHaveLength(3);
+    expect(parse(`${create}\nDROP TABLE db.events;`)).toEqual([]);
+  });
+});
@@ -0,0 +1,335 @@
+import type {
+  AlterCommand,
+  ColumnAst,
+  Diagnostic,
+  SchemaChange,
+  TableAst,
+  TableRef,
+} from "./types.js";
+
+/** Maximum number of commands applied per ALTER TABLE statement. */
+const MAX_COMMANDS = 100;
+
+/** Maximum number of renames applied per RENAME TABLE statement. */
+const MAX_RENAMES = 100;
+
+/** Tables after a schema change, with warnings for the parts not applied. */
+export interface SchemaChangeResult {
+  readonly tables: readonly TableAst[];
+  readonly diagnostics: readonly Diagnostic[];
+}
+
+/** Table after a single ALTER command, with a warning when it was not applied. */
+interface CommandResult {
+  readonly table: TableAst;
+  readonly message?: string;
+}
+
+/**
+ * Apply an ALTER TABLE, RENAME TABLE or DROP TABLE statement to the tables
+ * created so far. Missing tables or columns are reported as warnings unless
+ * the statement says `IF EXISTS`; the rest of the statement still applies.
+ * @param {readonly TableAst[]} tables - Tables before the change
+ * @param {SchemaChange} change - Change to apply
+ * @returns {SchemaChangeResult} Tables after the change and warnings
+ */
+export function applySchemaChange(
+  tables: readonly TableAst[],
+  change: SchemaChange,
+): SchemaChangeResult {
+  switch (change.kind) {
+    case "alterTable":
+      return alterTable(tables, change.table, change.commands);
+    case "renameTable":
+      return renameTables(tables, change.renames);
+    case "dropTable":
+      return dropTable(tables, change.table, change.ifExists);
+  }
+}
+
+/**
+ * Apply the commands of an ALTER TABLE statement in order.
+ * @param {readonly TableAst[]} tables - Tables before the change
+ * @param {TableRef} ref - Altered table
+ * @param {readonly AlterCommand[]} commands - Commands to apply
+ * @returns {SchemaChangeResult} Tables after the change and warnings
+ */
+function alterTable(
+  tables: readonly TableAst[],
+  ref: TableRef,
+  commands: readonly AlterCommand[],
+): SchemaChangeResult {
+  const index = findTableIndex(tables, ref);
+  if (index < 0) {
+    return { tables, diagnostics: [missingTable(ref, "ALTER TABLE")] };
+  }
+
+  let table = tables[index]!;
+  const diagnostics: Diagnostic[] = [];
+  const commandCount = Math.min(commands.length, MAX_COMMANDS);
+  for (let i = 0; i < commandCount; i++) {
+    const result = applyCommand(table, commands[i]!);
+    table = result.table;
+    if (result.message) {
+      diagnostics.push(warning(result.message, describeTable(table)));
+    }
+  }
+
+  return { tables: replaceAt(tables, index, table), diagnostics };
+}
+
+/**
+ * Apply a single ALTER TABLE command to a table.
+ * @param {TableAst} table - Table to alter
+ * @param {AlterCommand} command - Command to apply
+ * @returns {CommandResult} Altered table, or the table unchanged with a reason
+ */
+function applyCommand(table: TableAst, command: AlterCommand): CommandResult {
+  if (command.kind === "unsupported") {
+    return isDataCommand(command.raw)
+      ? { table }
+      : { table, message: `ALTER command '${command.raw}' was not applied` };
+  }
+
+  const columns = table.columns;
+  if (command.kind === "addColumn") {
+    if (findColumn(columns, command.column.name) < 0) {
+      return placeColumn(table, command.column, command);
+    }
+    return command.ifNotExists
+      ? { table }
+      : { table, message: `Column '${command.column.name}' already exists` };
+  }
+
+  const index = findColumn(columns, command.name);
+  if (index < 0) {
+    return command.ifExists
+      ? { table }
+      : { table, message: `Column '${command.name}' was not found` };
+  }
+
+  const column = columns[index]!;
+  switch (command.kind) {
+    case "dropColumn":
+      return { table: { ...table, columns: removeAt(columns, index) } };
+    case "renameColumn":
+      return replaceColumn(table, index, { ...column, name: command.newName });
+    case "commentColumn":
+      return replaceColumn(table, index, {
+        ...column,
+        comment: command.comment,
+      });
+    case "modifyColumn": {
+      const modified = { ...column, ...command.changes };
+      if (!command.first && command.after === undefined) {
+        return replaceColumn(table, index, modified);
+      }
+      const rest = { ...table, columns: removeAt(columns, index) };
+      return placeColumn(rest, modified, command);
+    }
+  }
+}
+
+/**
+ * Insert a column first, after another column, or last.
+ * @param {TableAst} table - Table to insert into
+ * @param {ColumnAst} column - Column to insert
+ * @param {{ first?: boolean; after?: string }} position - Requested placement
+ * @returns {CommandResult} Table with the column, warning when `after` is missing
+ */
+function placeColumn(
+  table: TableAst,
+  column: ColumnAst,
+  position: { readonly first?: boolean; readonly after?: string },
+): CommandResult {
+  const columns = table.columns;
+  if (position.first) {
+    return { table: { ...table, columns: [column, ...columns] } };
+  }
+  if (position.after === undefined) {
+    return { table: { ...table, columns: [...columns, column] } };
+  }
+
+  const after = findColumn(columns, position.after);
+  if (after < 0) {
+    return {
+      table: { ...table, columns: [...columns, column] },
+      message: `Column '${position.after}' was not found; '${column.name}' was placed last`,
+    };
+  }
+  return {
+    table: {
+      ...table,
+      columns: [
+        ...columns.slice(0, after + 1),
+        column,
+        ...columns.slice(after + 1),
+      ],
+    },
+  };
+}
+
+/**
+ * Replace the column at an index.
+ * @param {TableAst} table - Table to update
+ * @param {number} index - Column index
+ * @param {ColumnAst} column - New column
+ * @returns {CommandResult} Updated table
+ */
+function replaceColumn(
+  table: TableAst,
+  index: number,
+  column: ColumnAst,
+): CommandResult {
+  return {
+    table: { ...table, columns: replaceAt(table.columns, index, column) },
+  };
+}
+
+/**
+ * Apply the renames of a RENAME TABLE statement in order.
+ * A new name without database keeps the table's database.
+ * @param {readonly TableAst[]} tables - Tables before the change
+ * @param {readonly { from: TableRef; to: TableRef }[]} renames - Renames to apply
+ * @returns {SchemaChangeResult} Tables after the change and warnings
+ */
+function renameTables(
+  tables: readonly TableAst[],
+  renames: readonly { readonly from: TableRef; readonly to: TableRef }[],
+): SchemaChangeResult {
+  let renamed = tables;
+  const diagnostics: Diagnostic[] = [];
+  const renameCount = Math.min(renames.length, MAX_RENAMES);
+
+  for (let i = 0; i < renameCount; i++) {
+    const { from, to } = renames[i]!;
+    const index = findTableIndex(renamed, from);
+    if (index < 0) {
+      diagnostics.push(missingTable(from, "RENAME TABLE"));
+      continue;
+    }
+    const table = renamed[index]!;
+    renamed = replaceAt(renamed, index, {
+      ...table,
+      name: to.name,
+      database: to.database ?? table.database,
+    });
+  }
+
+  return { tables: renamed, diagnostics };
+}
+
+/**
+ * Remove a dropped table.
+ * @param {readonly TableAst[]} tables - Tables before the change
+ * @param {TableRef} ref - Dropped table
+ * @param {boolean} ifExists - Whether a missing table is expected
+ * @returns {SchemaChangeResult} Tables after the change and warnings
+ */
+function dropTable(
+  tables: readonly TableAst[],
+  ref: TableRef,
+  ifExists: boolean,
+): SchemaChangeResult {
+  const index = findTableIndex(tables, ref);
+  if (index >= 0) {
+    return { tables: removeAt(tables, index), diagnostics: [] };
+  }
+  return {
+    tables,
+    diagnostics: ifExists ? [] : [missingTable(ref, "DROP TABLE")],
+  };
+}
+
+/**
+ * Copy of an array with the item at an index replaced.
+ * @param {readonly T[]} items - Items to copy
+ * @param {number} index - Index to replace
+ * @param {T} item - New item
+ * @returns {T[]} Updated copy
+ */
+function replaceAt<T>(items: readonly T[], index: number, item: T): T[] {
+  return items.map((existing, i) => (i === index ? item : existing));
+}
+
+/**
+ * Copy of an array without the item at an index.
+ * @param {readonly T[]} items - Items to copy
+ * @param {number} index - Index to remove
+ * @returns {T[]} Updated copy
+ */
+function removeAt<T>(items: readonly T[], index: number): T[] {
+  return items.filter((_, i) => i !== index);
+}
+
+/**
+ * Check whether an unsupported ALTER command only changes data, e.g.
+ * `DELETE WHERE ...` or `DROP PARTITION ...`, so skipping it is expected.
+ * @param {string} raw - Command source text
+ * @returns {boolean} True for mutations and partition commands
+ */
+function isDataCommand(raw: string): boolean {
+  return /^(?:DELETE|UPDATE|MATERIALIZE|CLEAR|FREEZE|UNFREEZE|ATTACH|DETACH|REPLACE|MOVE|FETCH|APPLY|DROP\s+(?:PARTITION|PART|DETACHED))\b/i.test(
+    raw,
+  );
+}
+
+/**
+ * Find a table by reference. Tables or references without a database
+ * qualifier match any database.
+ * @param {readonly TableAst[]} tables - Tables to search
+ * @param {TableRef} ref - Reference to resolve
+ * @returns {number} Index of the table, or -1
+ */
+function findTableIndex(tables: readonly TableAst[], ref: TableRef): number {
+  return tables.findIndex(
+    (table) =>
+      table.name === ref.name &&
+      (ref.database === undefined ||
+        table.database === undefined ||
+        table.database === ref.database),
+  );
+}
+
+/**
+ * Find a column by name.
+ * @param {readonly ColumnAst[]} columns - Columns to search
+ * @param {string} name - Column name
+ * @returns {number} Index of the column, or -1
+ */
+function findColumn(columns: readonly ColumnAst[], name: string): number {
+  return columns.findIndex((column) => column.name === name);
+}
+
+/**
+ * Warning for a statement naming a table that does not exist.
+ * @param {TableRef} ref - Missing table
+ * @param {string} statement - Statement kind, e.g. `ALTER TABLE`
+ * @returns {Diagnostic} Warning diagnostic
+ */
+function missingTable(ref: TableRef, statement: string): Diagnostic {
+  const name = describeTable(ref);
+  return warning(
+    `Table '${name}' was not found; ${statement} was not applied`,
+    name,
+  );
+}
+
+/**
+ * Build a warning diagnostic for a table.
+ * @param {string} message - Warning text
+ * @param {string} table - Qualified table name
+ * @returns {Diagnostic} Warning diagnostic
+ */
+function warning(message: string, table: string): Diagnostic {
+  return { severity: "warning", message, table };
+}
+
+/**
+ * Table name as written in the DDL, including the database qualifier.
+ * @param {TableRef} ref - Table or reference
+ * @returns {string} Name such as `analytics.events` or `events`
+ */
+function describeTable(ref: TableRef): string {
+  return ref.database ? `${ref.database}.${ref.name}` : ref.name;
+}
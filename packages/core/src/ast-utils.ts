@@ -34,3 +34,160 @@ export function firstTypeArg(t: TypeAst): TypeAst {
 export function secondTypeArg(t: TypeAst): TypeAst {
   return toTypeOrUnknown(t.args[1]);
 }
+
+/** Interval data types, `IntervalNanosecond` through `IntervalYear`. */
+const INTERVAL_TYPE =
+  /^Interval(?:Nanosecond|Microsecond|Millisecond|Second|Minute|Hour|Day|Week|Month|Quarter|Year)$/;
+
+/** Whether a type is one of the `IntervalSecond`, `IntervalDay`, ... types. */
+export function isIntervalType(name: string): boolean {
+  return INTERVAL_TYPE.test(name);
+}
+
+/**
+ * Whether a resolved TS type spells an enum as the union of its values, as
+ * `enumAs: "number"` maps it, rather than of its quoted keys.
+ */
+export function isTypedByEnumValues(t: TypeAst, resolvedTs: string): boolean {
+  const values = t.args.filter(isEnumMember).map((m) => m.value);
+  if (values.length === 0) return false;
+  const union = values.join(" \\| ");
+  return new RegExp(`(?<![\\w'.-])${union}(?![\\w'.])`).test(resolvedTs);
+}
+
+/** How a Map key is written as a JSON object key. */
+export type MapKeyKind = "enum" | "integer" | "string";
+
+/** Pattern of integer Map keys written as JSON object keys. */
+export const INTEGER_KEY_PATTERN = "^-?\\d+$";
+
+/**
+ * Key type of a Map with LowCardinality unwrapped, and how it is written as
+ * a JSON object key: an enum key, the digits of an integer or any string.
+ */
+export function mapKey(t: TypeAst): { type: TypeAst; kind: MapKeyKind } {
+  const first = firstTypeArg(t);
+  const key = first.name === "LowCardinality" ? firstTypeArg(first) : first;
+  if (key.name === "Enum8" || key.name === "Enum16") {
+    return { type: key, kind: "enum" };
+  }
+  if (/^U?Int(?:8|16|32|64|128|256)$/.test(key.name)) {
+    return { type: key, kind: "integer" };
+  }
+  return { type: key, kind: "string" };
+}
+
+/** A ClickHouse geo type: the type it is an array of, and its GeoJSON type. */
+export interface GeoType {
+  readonly element?: string;
+  readonly geoJson: string;
+}
+
+/** Geo types, in dependency order; Point is `Tuple(Float64, Float64)`. */
+export const GEO_TYPES: ReadonlyMap<string, GeoType> = new Map([
+  ["Point", { geoJson: "Point" }],
+  ["Ring", { element: "Point", geoJson: "LineString" }],
+  ["LineString", { element: "Point", geoJson: "LineString" }],
+  ["MultiLineString", { element: "LineString", geoJson: "MultiLineString" }],
+  ["Polygon", { element: "Ring", geoJson: "Polygon" }],
+  ["MultiPolygon", { element: "Polygon", geoJson: "MultiPolygon" }],
+]);
+
+/**
+ * Name of the alias emitted for a geo type, e.g. `ChPolygon`. The prefix
+ * keeps it apart from interfaces of tables named `point` or `polygon`.
+ * @param {string} name - Geo type name
+ * @returns {string} TypeScript type alias name
+ */
+export function geoAlias(name: string): string {
+  return `Ch${name}`;
+}
+
+/**
+ * Array nesting of a geo type's points: 0 for Point, 3 for MultiPolygon.
+ * @param {string} name - Geo type name
+ * @returns {number} Number of arrays around the points
+ */
+export function geoDepth(name: string): number {
+  let depth = 0;
+  for (
+    let element = GEO_TYPES.get(name)?.element;
+    element !== undefined && depth < GEO_TYPES.size;
+    element = GEO_TYPES.get(element)?.element
+  ) {
+    depth++;
+  }
+  return depth;
+}
+
+/** Typed paths of a JSON type, nested by path segment. */
+export type JsonPathTree = ReadonlyMap<string, TypeAst | JsonPathTree>;
+
+/** Whether a JSON path tree node has child paths rather than a type. */
+export function isJsonPathTree(
+  node: TypeAst | JsonPathTree,
+): node is JsonPathTree {
+  return node instanceof Map;
+}
+
+/**
+ * Nest the typed paths of a JSON type by segment, so `user.id UInt64` and
+ * `user.name String` become one `user` object.
+ */
+export function jsonPathTree(t: TypeAst): JsonPathTree {
+  const root = new Map<string, TypeAst | JsonPathTree>();
+  t.args.forEach((arg, i) => {
+    const segments = t.elementNames?.[i]?.split(".");
+    if (!segments || !isTypeAst(arg)) return;
+    let node = root;
+    for (const segment of segments.slice(0, -1)) {
+      const child = node.get(segment);
+      const next = child instanceof Map ? child : new Map();
+      node.set(segment, next);
+      node = next;
+    }
+    node.set(segments[segments.length - 1]!, arg);
+  });
+  return root;
+}
+
+/**
+ * Render a TypeAst back to ClickHouse type syntax, e.g. `Array(String)`.
+ * Used for synthesized types that have no source text of their own.
+ */
+export function formatTypeAst(t: TypeAst): string {
+  const settings = Object.entries(t.settings ?? {}).map(
+    ([key, value]) => `${key}=${formatTypeArg(value)}`,
+  );
+  const skip = (t.skip ?? []).map((hint) =>
+    "path" in hint
+      ? `SKIP ${hint.path}`
+      : `SKIP REGEXP ${formatTypeArg(hint.regexp)}`,
+  );
+  const args = t.args.map((arg, i) => {
+    const name = t.elementNames?.[i];
+    const text = formatTypeArg(arg);
+    return name === undefined ? text : `${name} ${text}`;
+  });
+  args.unshift(...settings);
+  args.push(...skip);
+  if (args.length === 0 && !t.aggregate) return t.name;
+  if (t.aggregate) {
+    const { name, params } = t.aggregate;
+    const func =
+      params.length > 0
+        ? `${name}(${params.map(formatTypeArg).join(",")})`
+        : name;
+    args.unshift(func);
+  }
+  return `${t.name}(${args.join(",")})`;
+}
+
+function formatTypeArg(arg: TypeArg): string {
+  if (typeof arg === "number") return String(arg);
+  if (typeof arg === "string") return `'${arg.replace(/'/g, "\\'")}'`;
+  if (isEnumMember(arg)) {
+    return `'${arg.key.replace(/'/g, "\\'")}' = ${arg.value}`;
+  }
+  return formatTypeAst(arg);
+}
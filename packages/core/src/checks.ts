@@ -0,0 +1,275 @@
+import { isTypeAst } from "./ast-utils.js";
+import type { ColumnChecks, ConstraintAst, TypeAst } from "./types.js";
+
+/** Maximum number of constraints inspected per table. */
+const MAX_CONSTRAINTS = 1000;
+
+/** Maximum number of AND-ed comparisons inspected per constraint. */
+const MAX_CONJUNCTS = 50;
+
+/** Column name, bare or quoted. */
+const IDENTIFIER = '(`[^`]+`|"[^"]+"|[A-Za-z_][A-Za-z0-9_]*)';
+
+/** Column or `length(column)`. */
+const SUBJECT = `((?:length|lengthUTF8|char_length)\\s*\\(\\s*${IDENTIFIER}\\s*\\)|${IDENTIFIER})`;
+
+/** Numeric literal. */
+const NUMBER = "(-?\\d+(?:\\.\\d+)?)";
+
+/** Comparison operator. */
+const OPERATOR = "(>=|<=|==|=|>|<)";
+
+/** `subject op number`. */
+const SUBJECT_FIRST = new RegExp(
+  `^${SUBJECT}\\s*${OPERATOR}\\s*${NUMBER}$`,
+  "i",
+);
+
+/** `number op subject`. */
+const NUMBER_FIRST = new RegExp(
+  `^${NUMBER}\\s*${OPERATOR}\\s*${SUBJECT}$`,
+  "i",
+);
+
+/** `subject BETWEEN number AND number`. */
+const BETWEEN = new RegExp(
+  `${SUBJECT}\\s+BETWEEN\\s+${NUMBER}\\s+AND\\s+${NUMBER}`,
+  "gi",
+);
+
+/** Operator with its operands swapped, so `0 <= x` reads `x >= 0`. */
+const FLIPPED: Readonly<Record<string, string>> = {
+  ">=": "<=",
+  "<=": ">=",
+  ">": "<",
+  "<": ">",
+  "=": "=",
+  "==": "=",
+};
+
+/** A single `column op value` or `length(column) op value` comparison. */
+interface Comparison {
+  readonly column: string;
+  readonly length: boolean;
+  readonly operator: string;
+  readonly value: number;
+}
+
+type MutableChecks = { -readonly [K in keyof ColumnChecks]: ColumnChecks[K] };
+
+/** Value bounds with the operator they stand for. */
+const VALUE_BOUNDS = [
+  ["minimum", ">="],
+  ["exclusiveMinimum", ">"],
+  ["maximum", "<="],
+  ["exclusiveMaximum", "<"],
+] as const;
+
+/**
+ * Derive per-column value bounds from a table's CHECK constraints.
+ * Recognizes AND-ed comparisons of a column, or of `length(column)`, with a
+ * number, plus `BETWEEN`. Other parts of a constraint are ignored; constraints
+ * using OR or NOT are skipped entirely, as are ASSUME constraints, which
+ * ClickHouse does not enforce.
+ * @param {readonly ConstraintAst[] | undefined} constraints - Table constraints
+ * @returns {Map<string, ColumnChecks>} Bounds keyed by DDL column name
+ */
+export function columnChecks(
+  constraints: readonly ConstraintAst[] | undefined,
+): Map<string, ColumnChecks> {
+  const checks = new Map<string, MutableChecks>();
+  const count = Math.min(constraints?.length ?? 0, MAX_CONSTRAINTS);
+
+  for (let i = 0; i < count; i++) {
+    const constraint = constraints![i]!;
+    if (constraint.kind !== "check") continue;
+    for (const comparison of parseComparisons(constraint.expression)) {
+      const bounds = checks.get(comparison.column) ?? {};
+      applyComparison(bounds, comparison);
+      checks.set(comparison.column, bounds);
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Split a constraint expression into the comparisons it is made of.
+ * @param {string} expression - CHECK expression captured raw
+ * @returns {Comparison[]} Recognized comparisons, possibly none
+ */
+function parseComparisons(expression: string): Comparison[] {
+  if (/\b(?:OR|NOT)\b/i.test(expression)) return [];
+
+  const conjuncts = expression
+    .replace(BETWEEN, "$1 >= $4 AND $1 <= $5")
+    .split(/\s+AND\s+/i)
+    .slice(0, MAX_CONJUNCTS);
+
+  const comparisons: Comparison[] = [];
+  for (const conjunct of conjuncts) {
+    const comparison = parseComparison(stripParens(conjunct.trim()));
+    if (comparison) comparisons.push(comparison);
+  }
+  return comparisons;
+}
+
+/**
+ * Parse `subject op number` or `number op subject`.
+ * @param {string} text - Single comparison
+ * @returns {Comparison | undefined} Comparison, or undefined if not recognized
+ */
+function parseComparison(text: string): Comparison | undefined {
+  const subjectFirst = SUBJECT_FIRST.exec(text);
+  if (subjectFirst) {
+    const [, subject, lengthOf, column, operator, value] = subjectFirst;
+    return toComparison(subject!, lengthOf ?? column!, operator!, value!);
+  }
+
+  const numberFirst = NUMBER_FIRST.exec(text);
+  if (numberFirst) {
+    const [, value, operator, subject, lengthOf, column] = numberFirst;
+    const flipped = FLIPPED[operator!]!;
+    return toComparison(subject!, lengthOf ?? column!, flipped, value!);
+  }
+  return undefined;
+}
+
+/**
+ * Build a comparison from regex captures.
+ * @param {string} subject - Column or `length(column)` as written
+ * @param {string} column - Column name, possibly quoted
+ * @param {string} operator - Comparison operator with the subject on the left
+ * @param {string} value - Numeric literal
+ * @returns {Comparison} Comparison with the column name unquoted
+ */
+function toComparison(
+  subject: string,
+  column: string,
+  operator: string,
+  value: string,
+): Comparison {
+  return {
+    column: /^[`"]/.test(column) ? column.slice(1, -1) : column,
+    length: subject !== column,
+    operator: operator === "==" ? "=" : operator,
+    value: Number(value),
+  };
+}
+
+/**
+ * Remove parentheses wrapping a whole comparison, e.g. `(x > 0)`.
+ * @param {string} text - Comparison text
+ * @returns {string} Text without the outer parentheses
+ */
+function stripParens(text: string): string {
+  const isWrapped =
+    text.startsWith("(") &&
+    text.endsWith(")") &&
+    !/[()]/.test(text.slice(1, -1));
+  return isWrapped ? text.slice(1, -1).trim() : text;
+}
+
+/**
+ * Narrow a column's bounds with one comparison.
+ * Length bounds are whole numbers, so strict comparisons become inclusive.
+ * @param {MutableChecks} bounds - Bounds to update
+ * @param {Comparison} comparison - Comparison to apply
+ */
+function applyComparison(bounds: MutableChecks, comparison: Comparison): void {
+  const { operator, value } = comparison;
+  const isEqual = operator === "=";
+
+  if (comparison.length) {
+    const atLeast = operator === ">" ? Math.floor(value) + 1 : Math.ceil(value);
+    const atMost = operator === "<" ? Math.ceil(value) - 1 : Math.floor(value);
+    if (isEqual || operator.startsWith(">")) {
+      tighten(bounds, "minLength", atLeast);
+    }
+    if (isEqual || operator.startsWith("<")) {
+      tighten(bounds, "maxLength", atMost);
+    }
+    return;
+  }
+
+  if (isEqual || operator === ">=") tighten(bounds, "minimum", value);
+  if (isEqual || operator === "<=") tighten(bounds, "maximum", value);
+  if (operator === ">") tighten(bounds, "exclusiveMinimum", value);
+  if (operator === "<") tighten(bounds, "exclusiveMaximum", value);
+}
+
+/**
+ * Set a bound, keeping the stricter of the existing and the new value.
+ * @param {MutableChecks} bounds - Bounds to update
+ * @param {keyof ColumnChecks} key - Bound to set
+ * @param {number} value - New value
+ */
+function tighten(
+  bounds: MutableChecks,
+  key: keyof ColumnChecks,
+  value: number,
+): void {
+  const current = bounds[key];
+  const isLower =
+    key === "minimum" || key === "exclusiveMinimum" || key === "minLength";
+  const stricter = isLower ? Math.max : Math.min;
+  bounds[key] = current === undefined ? value : stricter(current, value);
+}
+
+/**
+ * Keep the bounds that a column's validators can enforce exactly, so the
+ * Zod and JSON Schema emitters agree. Bounds that are not whole numbers are
+ * dropped on integer columns, and whole numbers beyond
+ * `Number.MAX_SAFE_INTEGER` everywhere, as they do not survive as a number.
+ * @param {string} column - Column name, for the messages
+ * @param {TypeAst} type - Column type
+ * @param {ColumnChecks} checks - Bounds from the table's constraints
+ * @returns {{ checks: ColumnChecks | undefined; dropped: string[] }} Bounds
+ *   kept, if any, and a message for each bound dropped
+ */
+export function fitChecks(
+  column: string,
+  type: TypeAst,
+  checks: ColumnChecks,
+): { checks: ColumnChecks | undefined; dropped: string[] } {
+  const inner = unwrapType(type);
+  const isInteger = /^U?Int\d+$/.test(inner.name);
+  const kept: MutableChecks = { ...checks };
+  const dropped: string[] = [];
+
+  for (const [key, operator] of VALUE_BOUNDS) {
+    const value = checks[key];
+    if (value === undefined) continue;
+    const reason =
+      isInteger && !Number.isInteger(value)
+        ? `is not a whole number, but the column is ${inner.name}`
+        : Number.isInteger(value) && !Number.isSafeInteger(value)
+          ? "cannot be represented exactly as a number"
+          : undefined;
+    if (reason === undefined) continue;
+    delete kept[key];
+    dropped.push(
+      `CHECK bound '${column} ${operator} ${value}' ${reason}; bound dropped`,
+    );
+  }
+
+  const isEmpty = Object.keys(kept).length === 0;
+  return { checks: isEmpty ? undefined : kept, dropped };
+}
+
+/**
+ * Strip Nullable and LowCardinality wrappers from a column type.
+ * @param {TypeAst} type - Column type
+ * @returns {TypeAst} Innermost type
+ */
+function unwrapType(type: TypeAst): TypeAst {
+  let current = type;
+  for (let depth = 0; depth < 2; depth++) {
+    const [arg] = current.args;
+    const isWrapper =
+      current.name === "Nullable" || current.name === "LowCardinality";
+    if (!isWrapper || !isTypeAst(arg)) break;
+    current = arg;
+  }
+  return current;
+}
@@ -37,4 +37,163 @@ describe("emitter (ts-morph)", () => {
     const out = emit(mapped, { emitZod: true } satisfies EmissionOptions);
     expect(out).toMatchSnapshot();
   });
+
+  it("emits Row and Insert variants driven by column kinds", () => {
+    const ddl = `CREATE TABLE swaps (
+      id UInt64,
+      ts DateTime DEFAULT now(),
+      total Float64 MATERIALIZED price * qty,
+      day Date ALIAS toDate(ts),
+      raw String EPHEMERAL
+    );`;
+    const mapped = map(parse(ddl), baseMap);
+    const out = emit(mapped, {
+      emitZod: true,
+      emitRowTypes: true,
+    } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("emits database namespaces", () => {
+    const ddl = `
+      CREATE TABLE analytics.events (id UInt64);
+      CREATE TABLE raw.events (id UInt64, payload String);
+      CREATE TABLE plain (id UInt64);
+    `;
+    const mapped = map(parse(ddl), { ...baseMap, databaseNaming: "namespace" });
+    const out = emit(mapped, { emitZod: true } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("quotes property keys that are not identifiers", () => {
+    const ddl = 'CREATE TABLE t (`1st` String, `a b` UInt8, "order" UInt8);';
+    const mapped = map(parse(ddl), { ...baseMap, camelCase: false });
+    const out = emit(mapped, { emitZod: true } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("emits named tuples and TS tuples", () => {
+    const ddl = `CREATE TABLE t (
+      point Tuple(price Float64, qty UInt32),
+      pair Tuple(String, UInt8)
+    );`;
+    const mapped = map(parse(ddl), { ...baseMap, tupleAs: "array" });
+    const out = emit(mapped, { emitZod: true } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("emits flattened and array Nested columns", () => {
+    const ddl = `CREATE TABLE t (n Nested(a String, b UInt32));`;
+    const flat = map(parse(ddl), baseMap);
+    const nested = map(parse(ddl), { ...baseMap, nestedAs: "array" });
+    const opts = { emitZod: true } satisfies EmissionOptions;
+    expect(emit(flat, opts)).toMatchSnapshot();
+    expect(emit(nested, opts)).toMatchSnapshot();
+  });
+
+  it("emits JSON paths, Variant unions and the Dynamic type", () => {
+    const ddl = `CREATE TABLE t (
+      payload JSON(user.id UInt64, user.name String, SKIP user.password),
+      value Variant(String, Array(UInt8)),
+      extra Dynamic
+    );`;
+    const mapped = map(parse(ddl), baseMap);
+    const out = emit(mapped, { emitZod: true } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("emits geo type aliases as tuples or GeoJSON geometries", () => {
+    const ddl = `CREATE TABLE t (loc Point, area Nullable(Polygon));`;
+    const opts = { emitZod: true } satisfies EmissionOptions;
+    expect(emit(map(parse(ddl), baseMap), opts)).toMatchSnapshot();
+    expect(
+      emit(map(parse(ddl), { ...baseMap, geoAs: "geojson" }), opts),
+    ).toMatchSnapshot();
+  });
+
+  it("keeps geo aliases apart from tables named after geo types", () => {
+    const ddl = `CREATE TABLE point (loc Point);`;
+    const out = emit(map(parse(ddl), baseMap), { emitZod: true });
+    expect(out).toContain("export interface Point {");
+    expect(out).toContain("export type ChPoint = [number, number];");
+    expect(out).toContain("loc: ChPoint;");
+  });
+
+  it("emits enums as const objects or value unions", () => {
+    const ddl = `CREATE TABLE events (
+      status Enum8('active' = 1, 'in-progress' = -1),
+      flags Array(Nullable(Enum('a', 'b')))
+    );`;
+    const opts = { emitZod: true } satisfies EmissionOptions;
+    expect(
+      emit(map(parse(ddl), { ...baseMap, enumAs: "const" }), opts),
+    ).toMatchSnapshot();
+    expect(
+      emit(map(parse(ddl), { ...baseMap, enumAs: "number" }), opts),
+    ).toMatchSnapshot();
+  });
+
+  it("emits typed Map keys as record key schemas or JS Maps", () => {
+    const ddl = `CREATE TABLE counts (
+      by_status Map(Enum8('a' = 1, 'b' = 2), UInt64),
+      by_id Map(UInt64, String)
+    );`;
+    const opts = { emitZod: true } satisfies EmissionOptions;
+    expect(emit(map(parse(ddl), baseMap), opts)).toMatchSnapshot();
+    expect(
+      emit(map(parse(ddl), { ...baseMap, mapAs: "map" }), opts),
+    ).toMatchSnapshot();
+  });
+
+  it("brands opaque aggregate states in Zod as in the interface", () => {
+    const ddl = `CREATE TABLE t (
+      users AggregateFunction(uniq, String),
+      total AggregateFunction(sum, UInt64)
+    ) ENGINE = AggregatingMergeTree ORDER BY tuple()`;
+    const out = emit(map(parse(ddl), baseMap), { emitZod: true });
+    expect(out).toContain("users: AggregateState<'uniq'>;");
+    expect(out).toContain(
+      "users: z.custom<AggregateState<'uniq'>>((value) => typeof value === 'string'),",
+    );
+    const merged = emit(
+      map(parse(ddl), { ...baseMap, aggregateStateAs: "merged" }),
+      { emitZod: true },
+    );
+    expect(merged).toContain("total: z.bigint() });");
+  });
+
+  it("documents the engine and emits table metadata", () => {
+    const ddl = `CREATE TABLE db.swaps (id UInt64, sign Int8, ts DateTime TTL ts + INTERVAL 1 DAY)
+      ENGINE = CollapsingMergeTree(sign) ORDER BY id TTL ts + INTERVAL 30 DAY
+      SETTINGS index_granularity = 8192;`;
+    const mapped = map(parse(ddl), baseMap);
+    const out = emit(mapped, {
+      emitZod: false,
+      emitMetadata: true,
+    } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("emits the table comment as TSDoc, Zod description and source link", () => {
+    const ddl = `CREATE TABLE swaps (id UInt64) ENGINE = MergeTree
+      PARTITION BY id ORDER BY id COMMENT 'Raw swaps from the indexer';`;
+    const mapped = map(parse(ddl), baseMap);
+    const out = emit(mapped, {
+      emitZod: true,
+      sourcePath: "sql/swaps.sql",
+    } satisfies EmissionOptions);
+    expect(out).toMatchSnapshot();
+  });
+
+  it("turns CHECK constraints into Zod checks", () => {
+    const ddl = `CREATE TABLE t (
+      amount Decimal(18, 2), qty UInt32, id Int64, ratio Nullable(Float64),
+      code LowCardinality(String), tags Array(String),
+      CONSTRAINT c1 CHECK amount >= 0 AND qty BETWEEN 1 AND 100,
+      CONSTRAINT c2 CHECK id > 0 AND ratio <= 1.5,
+      CONSTRAINT c3 CHECK length(code) = 3 AND length(tags) > 0
+    ) ENGINE = Memory`;
+    const mapped = map(parse(ddl), baseMap);
+    expect(emit(mapped, { emitZod: true })).toMatchSnapshot();
+  });
 });
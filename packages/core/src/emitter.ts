@@ -1,25 +1,45 @@
 import {
+  ModuleDeclarationKind,
   Project,
   QuoteKind,
   StructureKind,
   VariableDeclarationKind,
   IndentationText,
+  type ModuleDeclaration,
   type PropertySignatureStructure,
   type SourceFile,
 } from "ts-morph";
 import type {
+  ColumnChecks,
   EmissionOptions,
+  EngineAst,
   EnumMember,
+  LineageEdge,
   MappedTable,
   TypeAst,
   TypeArg,
 } from "./types.js";
+import { toPropertyKey } from "./types.js";
 import {
   assert,
   firstTypeArg,
+  formatTypeAst,
+  geoAlias,
+  GEO_TYPES,
+  geoDepth,
+  INTEGER_KEY_PATTERN,
+  isEnumMember,
+  isIntervalType,
+  isJsonPathTree,
+  isTypedByEnumValues,
+  isTypeAst,
+  jsonPathTree,
+  mapKey,
   secondTypeArg,
   toTypeOrUnknown,
+  type JsonPathTree,
 } from "./ast-utils.js";
+import { aggregateFunctionState } from "./functions.js";
 
 /** Maximum number of tables to emit for safety. */
 const MAX_TABLES = 1000;
@@ -42,6 +62,16 @@ const MAX_ENUM_KEYS = 1000;
 /** Maximum tuple elements for Zod tuple generation. */
 const MAX_TUPLE_ELEMENTS = 100;
 
+/** Geo type aliases in a mapped TypeScript type. */
+const GEO_TYPE_ALIAS =
+  /\b(?:Ch|GeoJson)(?:Point|Ring|LineString|MultiLineString|Polygon|MultiPolygon)\b/g;
+
+/** Zod schema of a point, `Tuple(Float64, Float64)`. */
+const POINT_SCHEMA = "z.tuple([z.number(), z.number()])";
+
+/** Mapped column as consumed by the emitter. */
+type MappedColumn = MappedTable["columns"][number];
+
 /**
  * Context for TypeScript emission with bounded operations.
  */
@@ -50,6 +80,8 @@ interface EmissionContext {
   readonly sourceFile: SourceFile;
   readonly options: EmissionOptions;
   readonly dependencies: EmissionDependencies;
+  /** Namespace declarations created so far, keyed by name. */
+  readonly namespaces: Map<string, ModuleDeclaration>;
 }
 
 /**
@@ -58,6 +90,10 @@ interface EmissionContext {
 interface EmissionDependencies {
   readonly needsIPv4: boolean;
   readonly needsIPv6: boolean;
+  readonly needsAggregateState: boolean;
+  readonly needsDynamic: boolean;
+  /** Geo type aliases used by columns, e.g. `Polygon` or `GeoJsonPolygon`. */
+  readonly geoTypes: ReadonlySet<string>;
   readonly needsDecimal: boolean;
   readonly needsZod: boolean;
 }
@@ -104,6 +140,20 @@ function validateEmissionInput(
     "Options must be object",
   );
   assert(typeof options.emitZod === "boolean", "emitZod must be boolean");
+  assert(
+    options.emitRowTypes === undefined ||
+      typeof options.emitRowTypes === "boolean",
+    "emitRowTypes must be boolean",
+  );
+  assert(
+    options.emitMetadata === undefined ||
+      typeof options.emitMetadata === "boolean",
+    "emitMetadata must be boolean",
+  );
+  assert(
+    options.sourcePath === undefined || typeof options.sourcePath === "string",
+    "sourcePath must be string",
+  );
 
   // Validate each table structure
   for (const table of tables) {
@@ -176,6 +226,7 @@ function createEmissionContext(
     sourceFile,
     options,
     dependencies,
+    namespaces: new Map(),
   };
 }
 
@@ -193,6 +244,44 @@ function createTsMorphProject(): Project {
   });
 }
 
+/**
+ * Names of the helper types, and their Zod schemas, that the emitter
+ * declares at the top of the file for these tables, e.g. `IPv4` or
+ * `ChRingSchema`.
+ * @param {readonly MappedTable[]} tables - Tables to be emitted
+ * @param {EmissionOptions} options - Emission options
+ * @returns {Set<string>} Declared helper names
+ */
+export function helperDeclarationNames(
+  tables: readonly MappedTable[],
+  options: EmissionOptions,
+): Set<string> {
+  const dependencies = analyzeDependencies(tables, options);
+  const types = [
+    ...(dependencies.needsIPv4 ? ["IPv4"] : []),
+    ...(dependencies.needsIPv6 ? ["IPv6"] : []),
+    ...(dependencies.needsAggregateState ? ["AggregateState"] : []),
+    ...(dependencies.needsDecimal ? ["Decimal"] : []),
+  ];
+
+  const geoJson = new Set([...GEO_TYPES.values()].map((t) => t.geoJson));
+  const geoNames = [
+    "GeoJsonPosition",
+    ...[...GEO_TYPES.keys()].map(geoAlias),
+    ...[...geoJson].map((name) => `GeoJson${name}`),
+  ];
+  const withSchemas = [
+    ...(dependencies.needsDynamic ? ["ClickHouseDynamic"] : []),
+    ...geoNames.filter((name) =>
+      [...dependencies.geoTypes].some((alias) => geoTypeUses(alias, name)),
+    ),
+  ];
+  const schemas = dependencies.needsZod
+    ? withSchemas.map((name) => `${name}Schema`)
+    : [];
+  return new Set([...types, ...withSchemas, ...schemas]);
+}
+
 /**
  * Analyze tables to determine required dependencies.
  * @param {readonly MappedTable[]} tables - Tables to analyze
@@ -206,17 +295,30 @@ function analyzeDependencies(
   const tableCount = Math.min(tables.length, MAX_TABLES);
   let needsIPv4 = false;
   let needsIPv6 = false;
+  let needsAggregateState = false;
+  let needsDynamic = false;
+  const geoTypes = new Set<string>();
   let needsDecimal = false;
 
   for (let i = 0; i < tableCount; i++) {
     const table = tables[i];
     if (table) {
-      const columnCount = Math.min(table.columns.length, MAX_COLUMNS);
+      const columns = [...table.columns, ...(table.parameters ?? [])];
+      const columnCount = Math.min(columns.length, MAX_COLUMNS);
       for (let j = 0; j < columnCount; j++) {
-        const column = table.columns[j];
+        const column = columns[j];
         if (column) {
           if (column.tsType === "IPv4") needsIPv4 = true;
           if (column.tsType === "IPv6") needsIPv6 = true;
+          if (column.tsType.includes("AggregateState<")) {
+            needsAggregateState = true;
+          }
+          if (column.tsType.includes("ClickHouseDynamic")) {
+            needsDynamic = true;
+          }
+          for (const match of column.tsType.matchAll(GEO_TYPE_ALIAS)) {
+            geoTypes.add(match[0]);
+          }
           if (column.tsType === "Decimal") needsDecimal = true;
         }
       }
@@ -226,6 +328,9 @@ function analyzeDependencies(
   return {
     needsIPv4,
     needsIPv6,
+    needsAggregateState,
+    needsDynamic,
+    geoTypes,
     needsDecimal,
     needsZod: options.emitZod,
   };
@@ -302,6 +407,131 @@ function addTypeAliases(context: EmissionContext): void {
       type: `string & { readonly __brand: 'IPv6' }`,
     });
   }
+
+  if (dependencies.needsAggregateState) {
+    sourceFile.addTypeAlias({
+      isExported: true,
+      name: "AggregateState",
+      typeParameters: [{ name: "F", constraint: "string" }],
+      type: `string & { readonly __brand: 'AggregateState'; readonly __function: F }`,
+    });
+  }
+
+  if (dependencies.needsDynamic) {
+    addDynamicType(context);
+  }
+
+  if (dependencies.geoTypes.size > 0) {
+    addGeoTypes(context);
+  }
+}
+
+/**
+ * Add the geo type aliases columns use, with the aliases they are built
+ * from, and their Zod schemas when Zod is emitted.
+ * @param {EmissionContext} context - Emission context
+ */
+function addGeoTypes(context: EmissionContext): void {
+  const { dependencies } = context;
+  const used = (name: string): boolean =>
+    [...dependencies.geoTypes].some((alias) => geoTypeUses(alias, name));
+
+  if (used("GeoJsonPosition")) {
+    addGeoType(context, "GeoJsonPosition", "[number, number]", POINT_SCHEMA);
+  }
+  for (const [name, { element }] of GEO_TYPES) {
+    if (used(geoAlias(name))) {
+      const elementAlias = element && geoAlias(element);
+      addGeoType(
+        context,
+        geoAlias(name),
+        elementAlias ? `${elementAlias}[]` : "[number, number]",
+        elementAlias ? `z.array(${elementAlias}Schema)` : POINT_SCHEMA,
+      );
+    }
+  }
+  const geoJsonTypes = new Set([...GEO_TYPES.values()].map((t) => t.geoJson));
+  for (const geoJson of geoJsonTypes) {
+    if (used(`GeoJson${geoJson}`)) {
+      const depth = geoDepth(geoJson);
+      addGeoType(
+        context,
+        `GeoJson${geoJson}`,
+        `{ type: "${geoJson}"; coordinates: GeoJsonPosition${"[]".repeat(depth)} }`,
+        `z.object({ type: z.literal("${geoJson}"), coordinates: ${"z.array(".repeat(depth)}GeoJsonPositionSchema${")".repeat(depth)} })`,
+      );
+    }
+  }
+}
+
+/**
+ * Check whether a geo type alias is or is built from another alias.
+ * @param {string} alias - Alias a column uses
+ * @param {string} name - Alias that may be needed for it
+ * @returns {boolean} True when `name` must be emitted for `alias`
+ */
+function geoTypeUses(alias: string, name: string): boolean {
+  if (alias === name) return true;
+  if (alias.startsWith("GeoJson")) return name === "GeoJsonPosition";
+  const geoType = [...GEO_TYPES].find(([type]) => geoAlias(type) === alias);
+  const element = geoType?.[1].element;
+  return element !== undefined && geoTypeUses(geoAlias(element), name);
+}
+
+/**
+ * Add one geo type alias and, when Zod is emitted, its schema.
+ * @param {EmissionContext} context - Emission context
+ * @param {string} name - Alias name
+ * @param {string} type - TypeScript type
+ * @param {string} schema - Zod schema expression
+ */
+function addGeoType(
+  context: EmissionContext,
+  name: string,
+  type: string,
+  schema: string,
+): void {
+  const { sourceFile, dependencies } = context;
+  sourceFile.addTypeAlias({ isExported: true, name, type });
+  if (dependencies.needsZod) {
+    sourceFile.addVariableStatement({
+      isExported: true,
+      declarationKind: VariableDeclarationKind.Const,
+      declarations: [{ name: `${name}Schema`, initializer: schema }],
+    });
+  }
+}
+
+/**
+ * Add the ClickHouseDynamic type, and its Zod schema when Zod is emitted.
+ * @param {EmissionContext} context - Emission context
+ */
+function addDynamicType(context: EmissionContext): void {
+  const { sourceFile, dependencies } = context;
+
+  sourceFile.addTypeAlias({
+    isExported: true,
+    name: "ClickHouseDynamic",
+    docs: [
+      "Value of a Dynamic column: any JSON value, as ClickHouse serializes\nthe type stored in the row.",
+    ],
+    type: "string | number | boolean | null | ClickHouseDynamic[] | { [key: string]: ClickHouseDynamic }",
+  });
+
+  if (dependencies.needsZod) {
+    sourceFile.addVariableStatement({
+      isExported: true,
+      declarationKind: VariableDeclarationKind.Const,
+      declarations: [
+        {
+          name: "ClickHouseDynamicSchema",
+          type: "z.ZodType<ClickHouseDynamic>",
+          initializer:
+            "z.lazy(() => z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(ClickHouseDynamicSchema), z.record(z.string(), ClickHouseDynamicSchema)]))",
+        },
+      ],
+    });
+  }
 }
 
 /**
@@ -318,15 +548,87 @@ function addTableInterfaces(
   for (let i = 0; i < tableCount; i++) {
     const table = tables[i];
     if (table) {
+      addEnumConsts(context, table);
       addSingleTableInterface(context, table);
 
       if (context.dependencies.needsZod) {
         addSingleTableZodSchema(context, table);
       }
+
+      if (table.parameters) {
+        addViewParameters(context, table);
+      }
+
+      if (context.options.emitRowTypes) {
+        addRowTypeVariants(context, table);
+      }
+
+      addMergedRowType(context, table);
+
+      if (context.options.emitMetadata) {
+        addTableMetadata(context, table);
+      }
     }
   }
 }
 
+/**
+ * Resolve where a table's declarations go: its namespace or the file itself.
+ * Namespaces are created on first use and reused for later tables.
+ * @param {EmissionContext} context - Emission context
+ * @param {MappedTable} table - Table being emitted
+ * @returns {SourceFile | ModuleDeclaration} Declaration container
+ */
+function declarationTarget(
+  context: EmissionContext,
+  table: MappedTable,
+): SourceFile | ModuleDeclaration {
+  if (!table.namespace) return context.sourceFile;
+
+  const existing = context.namespaces.get(table.namespace);
+  if (existing) return existing;
+
+  const created = context.sourceFile.addModule({
+    isExported: true,
+    name: table.namespace,
+    declarationKind: ModuleDeclarationKind.Namespace,
+  });
+  context.namespaces.set(table.namespace, created);
+  return created;
+}
+
+/**
+ * Add the `as const` object and type of each enum named by
+ * `enumAs: "const"` mapping, e.g. `EventsStatus`, ahead of the table's
+ * interface. Zod schemas validate them with `z.nativeEnum`.
+ * @param {EmissionContext} context - Emission context
+ * @param {MappedTable} table - Table whose column enums to emit
+ */
+function addEnumConsts(context: EmissionContext, table: MappedTable): void {
+  const enums = table.columns.flatMap((column) => column.enums ?? []);
+  if (enums.length === 0) return;
+
+  const target = declarationTarget(context, table);
+  for (const { name, type } of enums) {
+    const entries = extractEnumKeysForZod(type.args).map(
+      (key) => `${toPropertyKey(key)}: ${JSON.stringify(key)}`,
+    );
+    target.addVariableStatement({
+      isExported: true,
+      declarationKind: VariableDeclarationKind.Const,
+      docs: [`Original: ${formatTypeAst(type)}`],
+      declarations: [
+        { name, initializer: `{ ${entries.join(", ")} } as const` },
+      ],
+    });
+    target.addTypeAlias({
+      isExported: true,
+      name,
+      type: `(typeof ${name})[keyof typeof ${name}]`,
+    });
+  }
+}
+
 /**
  * Add TypeScript interface for a single table.
  * @param {EmissionContext} context - Emission context
@@ -336,35 +638,202 @@ function addSingleTableInterface(
   context: EmissionContext,
   table: MappedTable,
 ): void {
-  const properties = createInterfaceProperties(table);
+  const properties = createInterfaceProperties(
+    table.columns,
+    undefined,
+    table.isView,
+  );
 
-  context.sourceFile.addInterface({
+  const docs = createTableDocumentation(table, context.options.sourcePath);
+
+  declarationTarget(context, table).addInterface({
     isExported: true,
     name: table.interfaceName,
+    docs: docs ? [docs] : undefined,
     properties,
   });
 }
 
+/**
+ * Create TSDoc for a table interface: the table comment, one line per DDL
+ * clause and a `@see` pointing at the CREATE statement.
+ * @param {MappedTable} table - Table to document
+ * @param {string} [sourcePath] - DDL file path for the `@see` tag
+ * @returns {string | undefined} Documentation text, or undefined when empty
+ */
+function createTableDocumentation(
+  table: MappedTable,
+  sourcePath?: string,
+): string | undefined {
+  const meta = table.meta ?? {};
+  const lines: string[] = [];
+
+  if (meta.engine) lines.push(`Engine: ${formatEngine(meta.engine)}`);
+  if (meta.partitionBy) lines.push(`Partition by: ${meta.partitionBy}`);
+  if (meta.orderBy) lines.push(`Order by: ${meta.orderBy}`);
+  if (meta.primaryKey) lines.push(`Primary key: ${meta.primaryKey}`);
+  if (meta.sampleBy) lines.push(`Sample by: ${meta.sampleBy}`);
+  if (meta.ttl) lines.push(`TTL: ${meta.ttl}`);
+  if (meta.settings) {
+    const settings = Object.entries(meta.settings).map(
+      ([name, value]) => `${name} = ${value}`,
+    );
+    lines.push(`Settings: ${settings.join(", ")}`);
+  }
+  for (const edge of meta.lineage ?? []) {
+    lines.push(`Lineage: ${formatLineage(edge)}`);
+  }
+  if (sourcePath && meta.line !== undefined) {
+    lines.push(`@see ${sourcePath}:${meta.line}`);
+  }
+
+  if (meta.comment) {
+    const comment = meta.comment.replace(/\*\//g, "*\\/");
+    return lines.length > 0 ? `${comment}\n\n${lines.join("\n")}` : comment;
+  }
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+/**
+ * Format a lineage edge as `source → view → target`, leaving out the
+ * parts that are unknown or the view itself.
+ * @param {LineageEdge} edge - Edge to format
+ * @returns {string} Arrow-separated table names
+ */
+function formatLineage(edge: LineageEdge): string {
+  const target = edge.target !== edge.view ? edge.target : undefined;
+  return [edge.source, edge.view, target]
+    .filter((name) => name !== undefined)
+    .join(" → ");
+}
+
+/**
+ * Format an engine as it appears in DDL, e.g. `CollapsingMergeTree(sign)`.
+ * @param {EngineAst} engine - Engine to format
+ * @returns {string} Engine name with its argument list
+ */
+function formatEngine(engine: EngineAst): string {
+  if (engine.args.length === 0) return engine.name;
+  return `${engine.name}(${engine.args.map((arg) => arg.raw).join(", ")})`;
+}
+
+/**
+ * Add an `XxxMeta` constant describing the table's origin and engine.
+ * Engine arguments are emitted as identifier names or literal values, so
+ * helpers can look up e.g. the version column of a ReplacingMergeTree.
+ * @param {EmissionContext} context - Emission context
+ * @param {MappedTable} table - Table to describe
+ */
+function addTableMetadata(context: EmissionContext, table: MappedTable): void {
+  const meta = table.meta ?? {};
+  const entries: string[] = [];
+
+  if (meta.table) entries.push(`table: ${JSON.stringify(meta.table)}`);
+  if (meta.database) entries.push(`database: ${JSON.stringify(meta.database)}`);
+  if (meta.engine) {
+    const args = meta.engine.args.map((arg) =>
+      JSON.stringify(arg.identifier ?? arg.value ?? arg.raw),
+    );
+    entries.push(
+      `engine: { name: ${JSON.stringify(meta.engine.name)}, args: [${args.join(", ")}] }`,
+    );
+  }
+  const clauses = {
+    partitionBy: meta.partitionBy,
+    orderBy: meta.orderBy,
+    primaryKey: meta.primaryKey,
+    sampleBy: meta.sampleBy,
+    ttl: meta.ttl,
+  };
+  for (const [key, value] of Object.entries(clauses)) {
+    if (value) entries.push(`${key}: ${JSON.stringify(value)}`);
+  }
+  if (meta.settings) {
+    const settings = Object.entries(meta.settings).map(
+      ([name, value]) => `${toPropertyKey(name)}: ${JSON.stringify(value)}`,
+    );
+    entries.push(`settings: { ${settings.join(", ")} }`);
+  }
+  if (meta.lineage) {
+    const edges = meta.lineage.map((edge) => {
+      const fields = Object.entries(edge).map(
+        ([key, value]) => `${key}: ${JSON.stringify(value)}`,
+      );
+      return `{ ${fields.join(", ")} }`;
+    });
+    entries.push(`lineage: [${edges.join(", ")}]`);
+  }
+
+  declarationTarget(context, table).addVariableStatement({
+    isExported: true,
+    declarationKind: VariableDeclarationKind.Const,
+    declarations: [
+      {
+        name: `${table.interfaceName}Meta`,
+        initializer: `{ ${entries.join(", ")} } as const`,
+      },
+    ],
+  });
+}
+
+/**
+ * Add an `XxxParams` interface (and Zod schema) for the query parameters of
+ * a parameterized view, keyed by parameter name.
+ * @param {EmissionContext} context - Emission context
+ * @param {MappedTable} table - View to emit parameters for
+ */
+function addViewParameters(context: EmissionContext, table: MappedTable): void {
+  const parameters = table.parameters ?? [];
+  const target = declarationTarget(context, table);
+  const name = `${table.interfaceName}Params`;
+
+  target.addInterface({
+    isExported: true,
+    name,
+    properties: createInterfaceProperties(parameters),
+  });
+
+  if (context.dependencies.needsZod) {
+    target.addVariableStatement({
+      isExported: true,
+      declarationKind: VariableDeclarationKind.Const,
+      declarations: [
+        {
+          name: `${name}Schema`,
+          initializer: formatZodInitializer(
+            createZodPropertyEntries(parameters),
+          ),
+        },
+      ],
+    });
+  }
+}
+
 /**
  * Create property signatures for interface.
- * @param {MappedTable} table - Table to create properties for
+ * @param {readonly MappedColumn[]} columns - Columns to create properties for
+ * @param {(column: MappedColumn) => boolean} [isOptional] - Marks optional properties
+ * @param {boolean} [isReadonly] - Marks every property readonly, for views
  * @returns {PropertySignatureStructure[]} Array of property signatures
  */
 function createInterfaceProperties(
-  table: MappedTable,
+  columns: readonly MappedColumn[],
+  isOptional: (column: MappedColumn) => boolean = () => false,
+  isReadonly = false,
 ): PropertySignatureStructure[] {
   const properties: PropertySignatureStructure[] = [];
-  const columnCount = Math.min(table.columns.length, MAX_COLUMNS);
+  const columnCount = Math.min(columns.length, MAX_COLUMNS);
 
   for (let i = 0; i < columnCount; i++) {
-    const column = table.columns[i];
+    const column = columns[i];
     if (column) {
       properties.push({
         kind: StructureKind.PropertySignature,
-        name: column.name,
+        name: toPropertyKey(column.name),
         type: column.tsType,
         docs: [createPropertyDocumentation(column)],
-        hasQuestionToken: false,
+        hasQuestionToken: isOptional(column),
+        isReadonly,
       });
     }
   }
@@ -378,7 +847,8 @@ function createInterfaceProperties(
  * @returns {string} Documentation string
  */
 function createPropertyDocumentation(column: any): string {
-  const baseDoc = `Original: ${column.chType}`;
+  const typeDoc = `Original: ${column.chType}`;
+  const baseDoc = column.ttl ? `${typeDoc} (TTL ${column.ttl})` : typeDoc;
   return column.comment ? `${baseDoc} — ${column.comment}` : baseDoc;
 }
 
@@ -391,10 +861,13 @@ function addSingleTableZodSchema(
   context: EmissionContext,
   table: MappedTable,
 ): void {
-  const zodEntries = createZodPropertyEntries(table);
-  const initializer = formatZodInitializer(zodEntries);
+  const zodEntries = createZodPropertyEntries(table.columns);
+  const comment = table.meta?.comment;
+  const initializer = comment
+    ? `${formatZodInitializer(zodEntries)}.describe(${JSON.stringify(comment)})`
+    : formatZodInitializer(zodEntries);
 
-  context.sourceFile.addVariableStatement({
+  declarationTarget(context, table).addVariableStatement({
     isExported: true,
     declarationKind: VariableDeclarationKind.Const,
     declarations: [
@@ -408,24 +881,248 @@ function addSingleTableZodSchema(
 
 /**
  * Create Zod property entries for table columns.
- * @param {MappedTable} table - Table to create entries for
+ * @param {readonly MappedColumn[]} columns - Columns to create entries for
+ * @param {(column: MappedColumn) => boolean} [isOptional] - Marks optional entries
  * @returns {string[]} Array of Zod property entry strings
  */
-function createZodPropertyEntries(table: MappedTable): string[] {
+function createZodPropertyEntries(
+  columns: readonly MappedColumn[],
+  isOptional: (column: MappedColumn) => boolean = () => false,
+): string[] {
   const entries: string[] = [];
-  const columnCount = Math.min(table.columns.length, MAX_COLUMNS);
+  const columnCount = Math.min(columns.length, MAX_COLUMNS);
 
   for (let i = 0; i < columnCount; i++) {
-    const column = table.columns[i];
+    const column = columns[i];
     if (column) {
-      const zodType = zodForTypeAst(column.typeAst, column.tsType, 0);
-      entries.push(`${column.name}: ${zodType}`);
+      const baseType = withNativeEnums(
+        zodForTypeAst(column.typeAst, column.tsType, 0),
+        column.enums,
+      );
+      const zodType = column.checks
+        ? applyZodChecks(baseType, column.typeAst, column.checks)
+        : baseType;
+      const suffix = isOptional(column) ? ".optional()" : "";
+      entries.push(`${toPropertyKey(column.name)}: ${zodType}${suffix}`);
     }
   }
 
   return entries;
 }
 
+/**
+ * Validate a column's named enums against their `const` objects: each
+ * enum's `z.enum([...])`, in type order, becomes `z.nativeEnum(Name)`.
+ * @param {string} schema - Zod schema of the column type
+ * @param {MappedColumn["enums"]} enums - Named enums of the column
+ * @returns {string} Zod schema referring to the enum objects
+ */
+function withNativeEnums(schema: string, enums: MappedColumn["enums"]): string {
+  let result = schema;
+  for (const { name, type } of enums ?? []) {
+    result = result.replace(mapEnumZodSchema(type), `z.nativeEnum(${name})`);
+  }
+  return result;
+}
+
+/**
+ * Append the bounds from a column's CHECK constraints to its Zod schema.
+ * Nullable columns are checked inside `.nullable()`.
+ * @param {string} schema - Zod schema of the column type
+ * @param {TypeAst} type - Column type
+ * @param {ColumnChecks} checks - Bounds to apply
+ * @returns {string} Zod schema with the checks appended
+ */
+function applyZodChecks(
+  schema: string,
+  type: TypeAst,
+  checks: ColumnChecks,
+): string {
+  const nullable = ".nullable()";
+  if (type.name === "Nullable" && schema.endsWith(nullable)) {
+    const inner = schema.slice(0, -nullable.length);
+    return `${applyZodChecks(inner, firstTypeArg(type), checks)}${nullable}`;
+  }
+  if (type.name === "LowCardinality") {
+    return applyZodChecks(schema, firstTypeArg(type), checks);
+  }
+  return schema + zodCheckCalls(schema, type, checks).join("");
+}
+
+/**
+ * Zod calls enforcing value bounds: `gte`/`gt`/`lte`/`lt` on numbers and
+ * bigints, refinements on numbers kept as strings, and length limits on
+ * strings and arrays.
+ * @param {string} schema - Zod schema of the unwrapped column type
+ * @param {TypeAst} type - Unwrapped column type
+ * @param {ColumnChecks} checks - Bounds to apply
+ * @returns {string[]} Method calls to append, possibly none
+ */
+function zodCheckCalls(
+  schema: string,
+  type: TypeAst,
+  checks: ColumnChecks,
+): string[] {
+  const bounds = (
+    [
+      ["gte", ">=", checks.minimum],
+      ["gt", ">", checks.exclusiveMinimum],
+      ["lte", "<=", checks.maximum],
+      ["lt", "<", checks.exclusiveMaximum],
+    ] as const
+  ).filter(([, , value]) => value !== undefined);
+
+  if (schema === "z.number()") {
+    return bounds.map(([method, , value]) => `.${method}(${value})`);
+  }
+  if (schema === "z.bigint()") {
+    return bounds.map(([method, , value]) => `.${method}(${value}n)`);
+  }
+
+  const calls: string[] = [];
+  if (schema === "z.string()" && /^(?:U?Int|Float|Decimal)/.test(type.name)) {
+    for (const [, operator, value] of bounds) {
+      calls.push(`.refine((value) => Number(value) ${operator} ${value})`);
+    }
+  }
+  if (schema === "z.string()" || schema.startsWith("z.array(")) {
+    const { minLength, maxLength } = checks;
+    if (minLength !== undefined && minLength === maxLength) {
+      calls.push(`.length(${minLength})`);
+    } else {
+      if (minLength !== undefined) calls.push(`.min(${minLength})`);
+      if (maxLength !== undefined) calls.push(`.max(${maxLength})`);
+    }
+  }
+  return calls;
+}
+
+/**
+ * Add `XxxRow` and `XxxInsert` interfaces (and Zod schemas) for a table.
+ * Rows omit EPHEMERAL columns, which are never returned by SELECT.
+ * Inserts omit MATERIALIZED and ALIAS columns, which cannot be written,
+ * and make DEFAULT and EPHEMERAL columns optional. Views only get a
+ * read-only `XxxRow`.
+ * @param {EmissionContext} context - Emission context
+ * @param {MappedTable} table - Table to emit variants for
+ */
+function addRowTypeVariants(
+  context: EmissionContext,
+  table: MappedTable,
+): void {
+  const variants = [
+    {
+      name: `${table.interfaceName}Row`,
+      columns: table.columns.filter(isSelectableColumn),
+      isOptional: () => false,
+    },
+    {
+      name: `${table.interfaceName}Insert`,
+      columns: table.columns.filter(isInsertableColumn),
+      isOptional: isOptionalOnInsert,
+    },
+  ].slice(0, table.isView ? 1 : 2);
+
+  const target = declarationTarget(context, table);
+
+  for (const variant of variants) {
+    target.addInterface({
+      isExported: true,
+      name: variant.name,
+      properties: createInterfaceProperties(
+        variant.columns,
+        variant.isOptional,
+        table.isView,
+      ),
+    });
+
+    if (context.dependencies.needsZod) {
+      const entries = createZodPropertyEntries(
+        variant.columns,
+        variant.isOptional,
+      );
+      target.addVariableStatement({
+        isExported: true,
+        declarationKind: VariableDeclarationKind.Const,
+        declarations: [
+          {
+            name: `${variant.name}Schema`,
+            initializer: formatZodInitializer(entries),
+          },
+        ],
+      });
+    }
+  }
+}
+
+/**
+ * Add an `XxxMerged` interface (and Zod schema) for a table with
+ * `AggregateFunction` columns: the row as a query returns it when it reads
+ * every state with `-Merge`, e.g. `sumMerge(total)`. Other columns keep
+ * their types.
+ * @param {EmissionContext} context - Emission context
+ * @param {MappedTable} table - Table to emit the merged row for
+ */
+function addMergedRowType(context: EmissionContext, table: MappedTable): void {
+  if (!table.columns.some((column) => column.merged)) return;
+
+  const name = `${table.interfaceName}Merged`;
+  const columns = table.columns
+    .filter(isSelectableColumn)
+    .map((column) =>
+      column.merged
+        ? { ...column, ...column.merged, checks: undefined }
+        : column,
+    );
+  const target = declarationTarget(context, table);
+
+  target.addInterface({
+    isExported: true,
+    name,
+    properties: createInterfaceProperties(columns, undefined, table.isView),
+  });
+
+  if (context.dependencies.needsZod) {
+    target.addVariableStatement({
+      isExported: true,
+      declarationKind: VariableDeclarationKind.Const,
+      declarations: [
+        {
+          name: `${name}Schema`,
+          initializer: formatZodInitializer(createZodPropertyEntries(columns)),
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Check whether a column is returned by SELECT.
+ * @param {MappedColumn} column - Column to check
+ * @returns {boolean} False for EPHEMERAL columns
+ */
+function isSelectableColumn(column: MappedColumn): boolean {
+  return column.kind !== "ephemeral";
+}
+
+/**
+ * Check whether a column can be written by INSERT.
+ * @param {MappedColumn} column - Column to check
+ * @returns {boolean} False for MATERIALIZED and ALIAS columns
+ */
+function isInsertableColumn(column: MappedColumn): boolean {
+  return column.kind !== "materialized" && column.kind !== "alias";
+}
+
+/**
+ * Check whether an insertable column may be omitted from INSERT.
+ * @param {MappedColumn} column - Column to check
+ * @returns {boolean} True for DEFAULT and EPHEMERAL columns
+ */
+function isOptionalOnInsert(column: MappedColumn): boolean {
+  return column.kind === "default" || column.kind === "ephemeral";
+}
+
 /**
  * Format Zod initializer as oneliner or multiline.
  * @param {string[]} entries - Zod property entries
@@ -511,20 +1208,46 @@ function mapTypeToZodSchema(
     case "Nullable":
       return mapNullableZodSchema(type, resolvedTsType, depth);
     case "LowCardinality":
+    case "SimpleAggregateFunction":
       return mapLowCardinalityZodSchema(type, resolvedTsType, depth);
+    case "AggregateFunction":
+      return mapAggregateFunctionZodSchema(type, resolvedTsType, depth);
     case "Array":
       return mapArrayZodSchema(type, resolvedTsType, depth);
     case "Tuple":
       return mapTupleZodSchema(type, resolvedTsType, depth);
+    case "Nested":
+      return `z.array(${mapTupleZodSchema(type, resolvedTsType, depth)})`;
     case "Map":
       return mapMapZodSchema(type, resolvedTsType, depth);
+    case "JSON":
+    case "Object":
+      return mapJsonZodSchema(type, resolvedTsType, depth);
+    case "Variant":
+      return mapVariantZodSchema(type, resolvedTsType, depth);
+    case "Dynamic":
+      return "ClickHouseDynamicSchema";
+    case "Point":
+    case "Ring":
+    case "LineString":
+    case "MultiLineString":
+    case "Polygon":
+    case "MultiPolygon":
+      return resolvedTsType.includes("GeoJson")
+        ? `GeoJson${GEO_TYPES.get(typeName)?.geoJson ?? typeName}Schema`
+        : `${geoAlias(typeName)}Schema`;
     case "Enum8":
     case "Enum16":
-      return mapEnumZodSchema(type);
+      return mapEnumZodSchema(type, resolvedTsType);
     case "Decimal":
+    case "Decimal32":
+    case "Decimal64":
+    case "Decimal128":
+    case "Decimal256":
       return createStringZodSchema();
     case "Float32":
     case "Float64":
+    case "BFloat16":
     case "Int8":
     case "Int16":
     case "Int32":
@@ -534,19 +1257,32 @@ function mapTypeToZodSchema(
       return createNumberZodSchema();
     case "Int64":
     case "UInt64":
+    case "Int128":
+    case "UInt128":
+    case "Int256":
+    case "UInt256":
       return mapBigIntZodSchema(resolvedTsType);
+    case "Bool":
+      return "z.boolean()";
     case "String":
     case "UUID":
     case "FixedString":
     case "IPv4":
     case "IPv6":
+    case "Time":
+    case "Time64":
       return createStringZodSchema();
     case "Date":
+    case "Date32":
     case "DateTime":
     case "DateTime64":
       return mapDateTimeZodSchema(resolvedTsType);
+    case "Nothing":
+      return "z.never()";
     default:
-      return createAnyZodSchema();
+      return isIntervalType(typeName)
+        ? mapBigIntZodSchema(resolvedTsType)
+        : createAnyZodSchema();
   }
 }
 
@@ -583,6 +1319,28 @@ function mapLowCardinalityZodSchema(
   return zodForTypeAst(inner, resolvedTsType, depth + 1);
 }
 
+/**
+ * Map AggregateFunction to a string schema for opaque states, typed as the
+ * same branded `AggregateState<'fn'>` as the interface, or to the schema of
+ * the merged type when columns are emitted merged.
+ * @param {TypeAst} type - AggregateFunction type
+ * @param {string} resolvedTsType - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {string} Zod schema expression
+ */
+function mapAggregateFunctionZodSchema(
+  type: TypeAst,
+  resolvedTsType: string,
+  depth: number,
+): string {
+  const merged = aggregateFunctionState(type)?.merged;
+  if (!merged || resolvedTsType.includes("AggregateState<")) {
+    const state = `AggregateState<'${type.aggregate?.name ?? "unknown"}'>`;
+    return `z.custom<${state}>((value) => typeof value === 'string')`;
+  }
+  return zodForTypeAst(merged, resolvedTsType, depth + 1);
+}
+
 /**
  * Map Array(T) to Zod array schema.
  * @param {TypeAst} type - Array type
@@ -601,36 +1359,56 @@ function mapArrayZodSchema(
 }
 
 /**
- * Map Tuple(T1,T2,...) to Zod object schema with indexed properties.
+ * Map Tuple(T1,T2,...) to a Zod schema.
+ * Named tuples become objects keyed by element name. Unnamed tuples become
+ * `z.tuple` unless the resolved type uses indexed `_0` properties.
  * @param {TypeAst} type - Tuple type
  * @param {string} resolvedTsType - Resolved TypeScript type
  * @param {number} depth - Current recursion depth
- * @returns {string} Zod object schema with tuple properties
+ * @returns {string} Zod object or tuple schema expression
  */
 function mapTupleZodSchema(
   type: TypeAst,
   resolvedTsType: string,
   depth: number,
 ): string {
-  const entries: string[] = [];
+  const schemas: string[] = [];
   const elementCount = Math.min(type.args.length, MAX_TUPLE_ELEMENTS);
 
   for (let i = 0; i < elementCount; i++) {
     const arg = type.args[i];
     const argType = toTypeOrUnknown(arg);
-    const argSchema = zodForTypeAst(argType, resolvedTsType, depth + 1);
-    entries.push(`_${i}: ${argSchema}`);
+    schemas.push(zodForTypeAst(argType, resolvedTsType, depth + 1));
   }
 
+  const names = tupleElementKeys(type, resolvedTsType);
+  if (!names) return `z.tuple([${schemas.join(", ")}])`;
+  const entries = schemas.map((schema, i) => `${names[i]}: ${schema}`);
   return `z.object({ ${entries.join(", ")} })`;
 }
 
 /**
- * Map Map(K,V) to Zod record schema.
+ * Property keys for a tuple emitted as an object.
+ * @param {TypeAst} type - Tuple type
+ * @param {string} resolvedTsType - Resolved TypeScript type
+ * @returns {string[] | undefined} Keys, or undefined for a TS tuple
+ */
+function tupleElementKeys(
+  type: TypeAst,
+  resolvedTsType: string,
+): string[] | undefined {
+  if (type.elementNames) return type.elementNames.map(toPropertyKey);
+  if (!/\b_0: /.test(resolvedTsType)) return undefined;
+  return type.args.map((_arg, i) => `_${i}`);
+}
+
+/**
+ * Map Map(K,V) to Zod record schema whose key schema checks the JSON
+ * object keys, or to a Zod map schema when typed as `Map<K, V>`.
  * @param {TypeAst} type - Map type
  * @param {string} resolvedTsType - Resolved TypeScript type
  * @param {number} depth - Current recursion depth
- * @returns {string} Zod record schema expression
+ * @returns {string} Zod record or map schema expression
  */
 function mapMapZodSchema(
   type: TypeAst,
@@ -639,15 +1417,118 @@ function mapMapZodSchema(
 ): string {
   const valueType = secondTypeArg(type);
   const valueSchema = zodForTypeAst(valueType, resolvedTsType, depth + 1);
-  return `z.record(z.string(), ${valueSchema})`;
+  if (/\bMap</.test(resolvedTsType)) {
+    const keyType = firstTypeArg(type);
+    const keySchema = zodForTypeAst(keyType, resolvedTsType, depth + 1);
+    return `z.map(${keySchema}, ${valueSchema})`;
+  }
+  return `z.record(${mapRecordKeyZodSchema(type, resolvedTsType)}, ${valueSchema})`;
 }
 
 /**
- * Map Enum8/Enum16 to Zod enum schema.
+ * Map the key of a Map(K,V) to the Zod schema of its JSON object keys:
+ * the enum keys (or values, when typed by them), integer digits or any
+ * string.
+ * @param {TypeAst} type - Map type
+ * @param {string} resolvedTsType - Resolved TypeScript type
+ * @returns {string} Zod key schema expression
+ */
+function mapRecordKeyZodSchema(type: TypeAst, resolvedTsType: string): string {
+  const key = mapKey(type);
+  if (key.kind === "integer") {
+    return `z.string().regex(/${INTEGER_KEY_PATTERN}/)`;
+  }
+  if (key.kind === "string") return createStringZodSchema();
+  if (!isTypedByEnumValues(key.type, resolvedTsType)) {
+    return mapEnumZodSchema(key.type);
+  }
+  const values = key.type.args
+    .slice(0, MAX_ENUM_KEYS)
+    .filter(isEnumMember)
+    .map((member) => `'${member.value}'`);
+  return `z.enum([${values.join(", ")}])`;
+}
+
+/**
+ * Map JSON to a passthrough Zod object of its typed paths, or to a record
+ * when it has none.
+ * @param {TypeAst} type - JSON or Object type
+ * @param {string} resolvedTsType - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {string} Zod object or record schema expression
+ */
+function mapJsonZodSchema(
+  type: TypeAst,
+  resolvedTsType: string,
+  depth: number,
+): string {
+  const tree = type.name === "JSON" ? jsonPathTree(type) : new Map();
+  if (tree.size === 0) return "z.record(z.string(), z.unknown())";
+  return mapJsonPathsZodSchema(tree, resolvedTsType, depth);
+}
+
+/**
+ * Map one level of JSON typed paths to a passthrough Zod object.
+ * @param {JsonPathTree} tree - Typed paths below this level
+ * @param {string} resolvedTsType - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {string} Zod object schema expression
+ */
+function mapJsonPathsZodSchema(
+  tree: JsonPathTree,
+  resolvedTsType: string,
+  depth: number,
+): string {
+  const entries = [...tree].map(([segment, node]) => {
+    const schema = isJsonPathTree(node)
+      ? mapJsonPathsZodSchema(node, resolvedTsType, depth + 1)
+      : zodForTypeAst(node, resolvedTsType, depth + 1);
+    return `${toPropertyKey(segment)}: ${schema}`;
+  });
+  return `z.object({ ${entries.join(", ")} }).passthrough()`;
+}
+
+/**
+ * Map Variant(T1, T2, ...) to a nullable Zod union of its types.
+ * @param {TypeAst} type - Variant type
+ * @param {string} resolvedTsType - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {string} Zod union schema expression
+ */
+function mapVariantZodSchema(
+  type: TypeAst,
+  resolvedTsType: string,
+  depth: number,
+): string {
+  const schemas = [
+    ...new Set(
+      type.args
+        .filter(isTypeAst)
+        .map((arg) => zodForTypeAst(arg, resolvedTsType, depth + 1)),
+    ),
+  ];
+  if (schemas.length === 1) return `${schemas[0]}.nullable()`;
+  return `z.union([${schemas.join(", ")}]).nullable()`;
+}
+
+/**
+ * Map Enum8/Enum16 to Zod enum schema, or to a union of number literals
+ * when the column is typed by enum values (`enumAs: "number"`).
  * @param {TypeAst} type - Enum type
- * @returns {string} Zod enum or string schema expression
+ * @param {string} [resolvedTsType] - Resolved TypeScript type
+ * @returns {string} Zod enum, literal or string schema expression
  */
-function mapEnumZodSchema(type: TypeAst): string {
+function mapEnumZodSchema(type: TypeAst, resolvedTsType = ""): string {
+  if (isTypedByEnumValues(type, resolvedTsType)) {
+    const literals = type.args
+      .slice(0, MAX_ENUM_KEYS)
+      .filter(isEnumMember)
+      .map((member) => `z.literal(${member.value})`);
+    return literals.length === 1
+      ? literals[0]!
+      : `z.union([${literals.join(", ")}])`;
+  }
+
   const keys = extractEnumKeysForZod(type.args);
 
   if (keys.length === 0) {
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { inferExpressionType, parseExpression } from "./expressions.js";
+import { aggregateFunctionState } from "./functions.js";
+import { formatTypeAst } from "./ast-utils.js";
+import { parseType } from "./parser.js";
+
+const columns: Record<string, string> = {
+  qty: "UInt32",
+  delta: "Int64",
+  price: "Decimal(18, 4)",
+  ratio: "Float32",
+  ts: "DateTime",
+  ts_ms: "DateTime64(3)",
+  tags: "Array(String)",
+  note: "Nullable(String)",
+  city: "LowCardinality(String)",
+  scores: "Array(UInt8)",
+};
+
+/**
+ * Infer the type of an expression over the test columns.
+ * @param {string} text - Expression text
+ * @returns {string | undefined} Formatted type, or undefined when unknown
+ */
+function typeOf(text: string): string | undefined {
+  const expression = parseExpression(text);
+  const type =
+    expression &&
+    inferExpressionType(expression, (name) =>
+      columns[name] ? parseType(columns[name]).type : undefined,
+    );
+  return type && formatTypeAst(type);
+}
+
+describe("Expression parsing", () => {
+  it("maps operators to functions by precedence", () => {
+    expect(parseExpression("a + b * -2 > 1 AND NOT c")).toEqual({
+      kind: "call",
+      name: "and",
+      args: [
+        {
+          kind: "call",
+          name: "greater",
+          args: [
+            {
+              kind: "call",
+              name: "plus",
+              args: [
+                { kind: "column", name: "a" },
+                {
+                  kind: "call",
+                  name: "multiply",
+                  args: [
+                    { kind: "column", name: "b" },
+                    {
+                      kind: "literal",
+                      type: { name: "Int8", args: [] },
+                      value: -2,
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              kind: "literal",
+              type: { name: "UInt8", args: [] },
+              value: 1,
+            },
+          ],
+        },
+        { kind: "call", name: "not", args: [{ kind: "column", name: "c" }] },
+      ],
+    });
+  });
+
+  it("reads qualified columns, lambdas and parametric calls", () => {
+    expect(parseExpression("`s`.amount")).toEqual({
+      kind: "column",
+      name: "amount",
+      table: "s",
+    });
+    expect(parseExpression("arrayMap((x, i) -> x, tags, ids)")).toMatchObject({
+      name: "arrayMap",
+      args: [{ kind: "lambda", params: ["x", "i"] }, {}, {}],
+    });
+    expect(parseExpression("quantiles(0.5, 0.9)(price)")).toMatchObject({
+      name: "quantiles",
+      args: [{ kind: "column", name: "price" }],
+    });
+  });
+
+  it("returns undefined for syntax it does not recognize", () => {
+    expect(parseExpression("a +")).toBeUndefined();
+    expect(parseExpression("f(a")).toBeUndefined();
+    expect(parseExpression("a b")).toBeUndefined();
+  });
+});
+
+describe("Expression type inference", () => {
+  it.each([
+    ["count()", "UInt64"],
+    ["count(DISTINCT qty)", "UInt64"],
+    ["uniq(qty, delta)", "UInt64"],
+    ["sum(qty)", "UInt64"],
+    ["sum(delta)", "Int64"],
+    ["sum(ratio)", "Float64"],
+    ["sum(price)", "Decimal(38,4)"],
+    ["avg(qty)", "Float64"],
+    ["quantile(0.9)(price)", "Float64"],
+    ["max(price)", "Decimal(18,4)"],
+    ["argMax(city, ts)", "LowCardinality(String)"],
+    ["groupArray(qty)", "Array(UInt32)"],
+    ["sumIf(qty, delta > 0)", "UInt64"],
+  ])("types aggregate %s as %s", (text, type) => {
+    expect(typeOf(text)).toBe(type);
+  });
+
+  it.each([
+    ["qty + 1", "UInt64"],
+    ["qty - delta", "Int64"],
+    ["qty / 2", "Float64"],
+    ["qty * ratio", "Float64"],
+    ["-qty", "Int64"],
+    ["qty > 1", "UInt8"],
+    ["toStartOfFiveMinute(ts)", "DateTime"],
+    ["toStartOfMinute(ts_ms)", "DateTime64(3)"],
+    ["ts + INTERVAL 1 HOUR", "DateTime"],
+    ["toDate(ts)", "Date"],
+    ["toYYYYMM(ts)", "UInt32"],
+    ["EXTRACT(YEAR FROM ts)", "UInt16"],
+    ["tuple(qty, city)", "Tuple(UInt32,LowCardinality(String))"],
+    ["(qty, delta).2", "Int64"],
+    ["[1, 1000]", "Array(UInt16)"],
+    ["tags[1]", "String"],
+    ["arrayMap(t -> length(t), tags)", "Array(UInt64)"],
+    ["arrayFilter(t -> t != '', tags)", "Array(String)"],
+    ["length(note)", "Nullable(UInt64)"],
+    ["coalesce(note, '')", "String"],
+    ["if(qty > 0, qty, 0)", "UInt32"],
+    ["CASE WHEN qty > 0 THEN 'in' ELSE 'out' END", "String"],
+    ["CASE qty WHEN 1 THEN delta END", "Nullable(Int64)"],
+    ["CAST(qty AS Nullable(String))", "Nullable(String)"],
+    ["CAST(qty, 'UInt8')", "UInt8"],
+    ["qty::Int16", "Int16"],
+    ["toFloat64OrZero(city)", "Float64"],
+    ["toFloat64OrZero(note)", "Nullable(Float64)"],
+    ["toUInt32OrNull(city)", "Nullable(UInt32)"],
+    ["{limit:UInt16}", "UInt16"],
+  ])("types %s as %s", (text, type) => {
+    expect(typeOf(text)).toBe(type);
+  });
+
+  it("leaves unknown functions and columns untyped", () => {
+    expect(typeOf("myUdf(qty)")).toBeUndefined();
+    expect(typeOf("missing + 1")).toBeUndefined();
+    expect(typeOf("sumMerge(qty)")).toBeUndefined();
+  });
+});
+
+describe("Aggregate function combinators", () => {
+  it.each([
+    ["sumState(qty)", "AggregateFunction(sum,UInt32)"],
+    ["uniqState(city)", "AggregateFunction(uniq,String)"],
+    ["countState()", "AggregateFunction(count)"],
+    [
+      "argMinStateIf(price, ts, qty > 0)",
+      "AggregateFunction(argMin,Decimal(18,4),DateTime)",
+    ],
+    ["sumIfState(qty, qty > 0)", "AggregateFunction(sumIf,UInt32,UInt8)"],
+    [
+      "quantilesState(0.5, 0.9)(ratio)",
+      "AggregateFunction(quantiles(0.5,0.9),Float32)",
+    ],
+    ["sumSimpleState(qty)", "SimpleAggregateFunction(sum,UInt64)"],
+    ["sumMerge(sumState(qty))", "UInt64"],
+    ["argMinMerge(argMinState(price, ts))", "Decimal(18,4)"],
+    ["finalizeAggregation(uniqState(qty))", "UInt64"],
+    ["sumMergeState(sumState(qty))", "AggregateFunction(sum,UInt32)"],
+    ["sumArray(scores)", "UInt64"],
+    ["sumForEach(scores)", "Array(UInt64)"],
+    ["maxOrNull(qty)", "Nullable(UInt32)"],
+    ["avgOrDefaultIf(qty, qty > 0)", "Float64"],
+    ["sumResample(0, 10, 1)(qty, qty)", "Array(UInt64)"],
+  ])("types %s as %s", (text, type) => {
+    expect(typeOf(text)).toBe(type);
+  });
+
+  it("merges only states of the same function", () => {
+    expect(typeOf("avgMerge(sumState(qty))")).toBeUndefined();
+    expect(typeOf("sumState(myUdf(qty))")).toBeUndefined();
+  });
+
+  it("describes a state by function, combinators and arguments", () => {
+    const expression = parseExpression(
+      "quantilesIfState(0.5, 0.9)(ratio, qty > 0)",
+    )!;
+    const state = inferExpressionType(expression, (name) =>
+      columns[name] ? parseType(columns[name]).type : undefined,
+    )!;
+    expect(aggregateFunctionState(state)).toEqual({
+      func: "quantiles",
+      combinators: ["If"],
+      params: [0.5, 0.9],
+      args: [
+        { name: "Float32", args: [] },
+        { name: "UInt8", args: [] },
+      ],
+      merged: { name: "Array", args: [{ name: "Float64", args: [] }] },
+    });
+    expect(aggregateFunctionState(parseType("UInt8").type)).toBeUndefined();
+  });
+});
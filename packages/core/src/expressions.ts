@@ -0,0 +1,838 @@
+import type { TypeAst } from "./types.js";
+import { assert } from "./ast-utils.js";
+import { functionResultType, numberLiteralType } from "./functions.js";
+import { parseType } from "./parser.js";
+
+/** Maximum number of tokens in a SELECT expression. */
+const MAX_EXPRESSION_TOKENS = 5000;
+
+/** Maximum nesting of sub-expressions. */
+const MAX_EXPRESSION_DEPTH = 100;
+
+/** Maximum number of arguments, array elements or CASE branches. */
+const MAX_ARGUMENTS = 1000;
+
+/**
+ * Parsed SELECT expression. Operators are represented by the functions
+ * ClickHouse rewrites them to, e.g. `a + b` as `plus(a, b)`.
+ */
+export type ExpressionAst =
+  | { readonly kind: "column"; readonly name: string; readonly table?: string }
+  | {
+      readonly kind: "literal";
+      readonly type: TypeAst;
+      readonly value: string | number | null;
+    }
+  | {
+      readonly kind: "call";
+      readonly name: string;
+      readonly args: readonly ExpressionAst[];
+      /** Parameters of a parametric aggregate, e.g. `0.9` in `quantile(0.9)(x)`. */
+      readonly params?: readonly ExpressionAst[];
+    }
+  | { readonly kind: "cast"; readonly type: TypeAst }
+  | {
+      readonly kind: "lambda";
+      readonly params: readonly string[];
+      readonly body: ExpressionAst;
+    }
+  | { readonly kind: "subquery" };
+
+/** Type of a column reference, when it can be traced. */
+export type ColumnLookup = (
+  name: string,
+  table: string | undefined,
+) => TypeAst | undefined;
+
+/** Lexical token of an expression. */
+interface Token {
+  readonly kind: "number" | "string" | "word" | "quoted" | "symbol" | "param";
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Whitespace and comments, then one token per group: number, string,
+ * bare word, quoted identifier, `{name:Type}` parameter, operator.
+ */
+const TOKEN =
+  /\s+|--[^\n]*|\/\*[\s\S]*?\*\/|(0x[0-9a-f]+|\d+\.?\d*(?:e[+-]?\d+)?)|('(?:[^'\\]|\\.|'')*')|([a-z_][a-z0-9_$]*)|(`(?:[^`\\]|\\.)*`|"(?:[^"\\]|\\.)*")|(\{[^{}]*\})|(::|->|<=|>=|!=|<>|==|\|\||[-+*/%=<>()[\],.?:])/iy;
+
+/** Token kinds by TOKEN capture group. */
+const TOKEN_KINDS: readonly Token["kind"][] = [
+  "number",
+  "string",
+  "word",
+  "quoted",
+  "param",
+  "symbol",
+];
+
+/** Comparison operators and the functions they stand for. */
+const COMPARISONS: Readonly<Record<string, string>> = {
+  "=": "equals",
+  "==": "equals",
+  "!=": "notEquals",
+  "<>": "notEquals",
+  "<": "less",
+  ">": "greater",
+  "<=": "lessOrEquals",
+  ">=": "greaterOrEquals",
+};
+
+/** `EXTRACT(part FROM x)` parts and the functions they stand for. */
+const EXTRACT_PARTS: Readonly<Record<string, string>> = {
+  YEAR: "toYear",
+  QUARTER: "toQuarter",
+  MONTH: "toMonth",
+  WEEK: "toISOWeek",
+  DAY: "toDayOfMonth",
+  HOUR: "toHour",
+  MINUTE: "toMinute",
+  SECOND: "toSecond",
+};
+
+/**
+ * Parse the source text of a SELECT item or WITH expression.
+ * @param {string} text - Expression without its alias
+ * @returns {ExpressionAst | undefined} Expression, or undefined when the
+ *   syntax is not recognized
+ */
+export function parseExpression(text: string): ExpressionAst | undefined {
+  try {
+    const parser = new ExpressionParser(text, tokenize(text));
+    const expression = parser.expression(0);
+    return parser.isAtEnd() ? expression : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Infer the ClickHouse type of an expression from its column types and the
+ * result types of the functions it calls.
+ * @param {ExpressionAst} expression - Expression to type
+ * @param {ColumnLookup} lookup - Type of a column reference
+ * @returns {TypeAst | undefined} Type, or undefined when any part is unknown
+ */
+export function inferExpressionType(
+  expression: ExpressionAst,
+  lookup: ColumnLookup,
+): TypeAst | undefined {
+  return inferType(expression, lookup, new Map(), 0);
+}
+
+/**
+ * Infer the type of an expression with lambda parameters in scope.
+ * @param {ExpressionAst} expression - Expression to type
+ * @param {ColumnLookup} lookup - Type of a column reference
+ * @param {ReadonlyMap<string, TypeAst>} bindings - Lambda parameter types
+ * @param {number} depth - Current nesting depth
+ * @returns {TypeAst | undefined} Type, or undefined when unknown
+ */
+function inferType(
+  expression: ExpressionAst,
+  lookup: ColumnLookup,
+  bindings: ReadonlyMap<string, TypeAst>,
+  depth: number,
+): TypeAst | undefined {
+  if (depth > MAX_EXPRESSION_DEPTH) return undefined;
+
+  switch (expression.kind) {
+    case "column": {
+      const bound =
+        expression.table === undefined
+          ? bindings.get(expression.name)
+          : undefined;
+      return bound ?? lookup(expression.name, expression.table);
+    }
+    case "literal":
+    case "cast":
+      return expression.type;
+    case "call":
+      return inferCall(expression, lookup, bindings, depth);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Infer the result type of a call. Lambda arguments are typed with their
+ * parameters bound to the element types of the array arguments.
+ * @param {Extract<ExpressionAst, { kind: "call" }>} expression - Call to type
+ * @param {ColumnLookup} lookup - Type of a column reference
+ * @param {ReadonlyMap<string, TypeAst>} bindings - Lambda parameter types
+ * @param {number} depth - Current nesting depth
+ * @returns {TypeAst | undefined} Result type, or undefined when unknown
+ */
+function inferCall(
+  expression: Extract<ExpressionAst, { kind: "call" }>,
+  lookup: ColumnLookup,
+  bindings: ReadonlyMap<string, TypeAst>,
+  depth: number,
+): TypeAst | undefined {
+  const unknown: TypeAst = { name: "Unknown", args: [] };
+  const args = expression.args.map((arg) =>
+    arg.kind === "lambda"
+      ? unknown
+      : (inferType(arg, lookup, bindings, depth + 1) ?? unknown),
+  );
+  const arrays = args.filter((_, i) => expression.args[i]!.kind !== "lambda");
+
+  const types = expression.args.map((arg, i) => {
+    if (arg.kind !== "lambda") return args[i]!;
+    const scope = new Map(bindings);
+    arg.params.forEach((param, p) => {
+      const array = arrays[p];
+      scope.set(
+        param,
+        array?.name === "Array" ? (array.args[0] as TypeAst) : unknown,
+      );
+    });
+    return inferType(arg.body, lookup, scope, depth + 1) ?? unknown;
+  });
+
+  return functionResultType(expression.name, {
+    args: types,
+    values: expression.args.map((arg) =>
+      arg.kind === "literal" ? arg.value : undefined,
+    ),
+    hasLambda: expression.args.some((arg) => arg.kind === "lambda"),
+    params: expression.params?.map((param) =>
+      param.kind === "literal" ? param.value : undefined,
+    ),
+  });
+}
+
+/**
+ * Split an expression into tokens.
+ * @param {string} text - Expression text
+ * @returns {Token[]} Tokens without whitespace and comments
+ * @throws {Error} On characters that start no token, or too many tokens
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < text.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(text);
+    assert(match !== null, `Unexpected character at ${start}`);
+    const group = match.findIndex((value, i) => i > 0 && value !== undefined);
+    if (group > 0) {
+      tokens.push({
+        kind: TOKEN_KINDS[group - 1]!,
+        text: match[0],
+        start,
+        end: TOKEN.lastIndex,
+      });
+    }
+    assert(tokens.length <= MAX_EXPRESSION_TOKENS, "Expression too long");
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for ClickHouse expressions, from lowest
+ * precedence (lambda, `?:`) to highest (postfix `[i]`, `.1`, `::T`).
+ */
+class ExpressionParser {
+  private position = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly tokens: readonly Token[],
+  ) {}
+
+  /**
+   * Check if all tokens were consumed.
+   * @returns {boolean} True at the end of input
+   */
+  isAtEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  /**
+   * Parse a full expression, including lambdas and `cond ? a : b`.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   */
+  expression(depth: number): ExpressionAst {
+    assert(depth <= MAX_EXPRESSION_DEPTH, "Expression nesting too deep");
+    const lambda = this.tryLambda(depth);
+    if (lambda) return lambda;
+
+    const condition = this.binary(depth, 0);
+    if (!this.trySymbol("?")) return condition;
+    const then = this.expression(depth + 1);
+    this.expectSymbol(":");
+    const otherwise = this.expression(depth + 1);
+    return call("if", [condition, then, otherwise]);
+  }
+
+  /**
+   * Parse `x -> body` or `(x, y) -> body` when the input starts with one.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst | undefined} Lambda, or undefined
+   */
+  private tryLambda(depth: number): ExpressionAst | undefined {
+    const params: string[] = [];
+    let offset = 0;
+    if (this.peek()?.kind === "word") {
+      params.push(this.peek()!.text);
+      offset = 1;
+    } else if (this.isSymbol(this.peek(), "(")) {
+      offset = 1;
+      while (this.peek(offset)?.kind === "word") {
+        params.push(this.peek(offset)!.text);
+        offset++;
+        if (!this.isSymbol(this.peek(offset), ",")) break;
+        offset++;
+      }
+      if (!this.isSymbol(this.peek(offset), ")")) return undefined;
+      offset++;
+    }
+    if (params.length === 0 || !this.isSymbol(this.peek(offset), "->")) {
+      return undefined;
+    }
+
+    this.position += offset + 1;
+    return { kind: "lambda", params, body: this.expression(depth + 1) };
+  }
+
+  /**
+   * Parse binary operators by precedence level: OR, AND, NOT,
+   * comparisons, `||`, additive, multiplicative.
+   * @param {number} depth - Current nesting depth
+   * @param {number} level - Precedence level, 0 for OR
+   * @returns {ExpressionAst} Expression
+   */
+  private binary(depth: number, level: number): ExpressionAst {
+    assert(depth <= MAX_EXPRESSION_DEPTH, "Expression nesting too deep");
+    switch (level) {
+      case 0:
+        return this.chain(depth, level, (t) =>
+          this.isWord(t, "OR") ? "or" : undefined,
+        );
+      case 1:
+        return this.chain(depth, level, (t) =>
+          this.isWord(t, "AND") ? "and" : undefined,
+        );
+      case 2:
+        if (this.tryWord("NOT")) {
+          return call("not", [this.binary(depth + 1, 2)]);
+        }
+        return this.comparison(depth);
+      case 3:
+        return this.chain(depth, level, (t) =>
+          this.isSymbol(t, "||") ? "concat" : undefined,
+        );
+      case 4:
+        return this.chain(depth, level, (t) => {
+          if (this.isSymbol(t, "+")) return "plus";
+          return this.isSymbol(t, "-") ? "minus" : undefined;
+        });
+      case 5:
+        return this.chain(depth, level, (t) => {
+          if (this.isSymbol(t, "*")) return "multiply";
+          if (this.isSymbol(t, "/")) return "divide";
+          if (this.isSymbol(t, "%") || this.isWord(t, "MOD")) return "modulo";
+          return this.isWord(t, "DIV") ? "intDiv" : undefined;
+        });
+      default:
+        return this.unary(depth);
+    }
+  }
+
+  /**
+   * Parse a left-associative chain of operators of one precedence level.
+   * @param {number} depth - Current nesting depth
+   * @param {number} level - Precedence level
+   * @param {(token: Token | undefined) => string | undefined} operator - Function
+   *   an operator token stands for, or undefined when the token is not one
+   * @returns {ExpressionAst} Expression
+   */
+  private chain(
+    depth: number,
+    level: number,
+    operator: (token: Token | undefined) => string | undefined,
+  ): ExpressionAst {
+    let left = this.binary(depth + 1, level + 1);
+    for (let i = 0; i < MAX_ARGUMENTS; i++) {
+      const name = operator(this.peek());
+      if (!name) break;
+      this.position++;
+      left = call(name, [left, this.binary(depth + 1, level + 1)]);
+    }
+    return left;
+  }
+
+  /**
+   * Parse a comparison: `=`, `<`, ..., `[NOT] LIKE`, `[NOT] IN`,
+   * `[NOT] BETWEEN a AND b` and `IS [NOT] NULL`.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   */
+  private comparison(depth: number): ExpressionAst {
+    const left = this.binary(depth + 1, 3);
+    const token = this.peek();
+    const operand = (): ExpressionAst => this.binary(depth + 1, 3);
+
+    if (token?.kind === "symbol" && COMPARISONS[token.text]) {
+      this.position++;
+      return call(COMPARISONS[token.text]!, [left, operand()]);
+    }
+    if (this.tryWord("IS")) {
+      const negated = this.tryWord("NOT");
+      this.expectWord("NULL");
+      return call(negated ? "isNotNull" : "isNull", [left]);
+    }
+
+    const start = this.position;
+    this.tryWord("GLOBAL");
+    const negated = this.tryWord("NOT");
+    if (this.tryWord("IN")) {
+      return call(negated ? "notIn" : "in", [left, operand()]);
+    }
+    if (this.tryWord("LIKE") || this.tryWord("ILIKE")) {
+      const name = this.tokens[this.position - 1]!.text.toLowerCase();
+      return call(negated ? `not${name}` : name, [left, operand()]);
+    }
+    if (this.tryWord("BETWEEN")) {
+      const low = operand();
+      this.expectWord("AND");
+      const high = operand();
+      return negated
+        ? call("or", [call("less", [left, low]), call("greater", [left, high])])
+        : call("and", [
+            call("greaterOrEquals", [left, low]),
+            call("lessOrEquals", [left, high]),
+          ]);
+    }
+    this.position = start;
+    return left;
+  }
+
+  /**
+   * Parse unary minus and plus. A minus before a number is part of the literal.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   */
+  private unary(depth: number): ExpressionAst {
+    if (this.trySymbol("+")) return this.unary(depth + 1);
+    if (!this.trySymbol("-")) return this.postfix(depth);
+
+    const next = this.peek();
+    if (next?.kind === "number") {
+      this.position++;
+      return numberLiteral(`-${next.text}`);
+    }
+    return call("negate", [this.unary(depth + 1)]);
+  }
+
+  /**
+   * Parse a primary expression followed by `[index]`, `.N` or `::Type`.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   */
+  private postfix(depth: number): ExpressionAst {
+    let expression = this.primary(depth + 1);
+
+    for (let i = 0; i < MAX_ARGUMENTS; i++) {
+      if (this.trySymbol("[")) {
+        const index = this.expression(depth + 1);
+        this.expectSymbol("]");
+        expression = call("arrayElement", [expression, index]);
+      } else if (
+        this.isSymbol(this.peek(), ".") &&
+        this.peek(1)?.kind === "number"
+      ) {
+        this.position++;
+        expression = call("tupleElement", [
+          expression,
+          this.primary(depth + 1),
+        ]);
+      } else if (this.trySymbol("::")) {
+        expression = { kind: "cast", type: this.typeName() };
+      } else {
+        break;
+      }
+    }
+    return expression;
+  }
+
+  /**
+   * Parse a literal, parameter, column, call, parenthesized expression,
+   * tuple, array, CASE, CAST, INTERVAL or EXTRACT.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   * @throws {Error} On tokens that cannot start an expression
+   */
+  private primary(depth: number): ExpressionAst {
+    assert(depth <= MAX_EXPRESSION_DEPTH, "Expression nesting too deep");
+    const token = this.next();
+
+    switch (token.kind) {
+      case "number":
+        return numberLiteral(token.text);
+      case "string":
+        return {
+          kind: "literal",
+          type: { name: "String", args: [] },
+          value: unquoteString(token.text),
+        };
+      case "param": {
+        const colon = token.text.indexOf(":");
+        assert(colon > 0, "Query parameter without type");
+        return {
+          kind: "cast",
+          type: parseType(token.text.slice(colon + 1, -1)).type,
+        };
+      }
+      case "quoted":
+        return this.reference(token.text.slice(1, -1));
+      case "symbol":
+        return this.grouping(token, depth);
+      default:
+        return this.word(token, depth);
+    }
+  }
+
+  /**
+   * Parse what follows `(` or `[`: a subquery, a parenthesized expression,
+   * a tuple or an array.
+   * @param {Token} open - Opening symbol
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   * @throws {Error} On other symbols
+   */
+  private grouping(open: Token, depth: number): ExpressionAst {
+    if (open.text === "[") {
+      const elements = this.isSymbol(this.peek(), "]") ? [] : this.list(depth);
+      this.expectSymbol("]");
+      return call("array", elements);
+    }
+    assert(open.text === "(", `Unexpected '${open.text}'`);
+
+    if (
+      this.isWord(this.peek(), "SELECT") ||
+      this.isWord(this.peek(), "WITH")
+    ) {
+      this.skipToClose();
+      return { kind: "subquery" };
+    }
+    const elements = this.list(depth);
+    this.expectSymbol(")");
+    return elements.length === 1 ? elements[0]! : call("tuple", elements);
+  }
+
+  /**
+   * Parse an expression starting with a word: keyword literal, CASE, CAST,
+   * INTERVAL, EXTRACT, `DATE '...'`, call or column reference.
+   * @param {Token} token - Word token, already consumed
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   */
+  private word(token: Token, depth: number): ExpressionAst {
+    const word = token.text.toUpperCase();
+    const isCall = this.isSymbol(this.peek(), "(");
+
+    if (word === "NULL") {
+      const type: TypeAst = { name: "Nothing", args: [] };
+      return {
+        kind: "literal",
+        type: { name: "Nullable", args: [type] },
+        value: null,
+      };
+    }
+    if (word === "TRUE" || word === "FALSE") {
+      return { kind: "literal", type: { name: "Bool", args: [] }, value: word };
+    }
+    if (word === "CASE") return this.caseExpression(depth);
+    if (word === "INTERVAL") {
+      const amount = this.unary(depth + 1);
+      const unit = this.next().text.toLowerCase().replace(/s$/, "");
+      return call(`toInterval${unit}`, [amount]);
+    }
+    if (
+      (word === "DATE" || word === "TIMESTAMP") &&
+      this.peek()?.kind === "string"
+    ) {
+      const literal = this.primary(depth + 1);
+      return call(word === "DATE" ? "toDate" : "toDateTime", [literal]);
+    }
+    if (!isCall) return this.reference(token.text);
+
+    this.position++;
+    if (word === "CAST") return this.castExpression(depth);
+    if (word === "EXTRACT") {
+      const part = EXTRACT_PARTS[this.next().text.toUpperCase()];
+      this.expectWord("FROM");
+      const value = this.expression(depth + 1);
+      this.expectSymbol(")");
+      assert(part !== undefined, "Unknown EXTRACT part");
+      return call(part, [value]);
+    }
+
+    const first = this.arguments(depth);
+    // Parametric aggregate: the first list holds parameters, e.g. quantile(0.9)(x)
+    const params = this.trySymbol("(") ? first : undefined;
+    const args = params ? this.arguments(depth) : first;
+    if (this.tryWord("OVER")) this.skipWindow();
+    return params
+      ? { kind: "call", name: token.text, args, params }
+      : call(token.text, args);
+  }
+
+  /**
+   * Parse call arguments after `(`, including the closing `)`.
+   * `DISTINCT` and `*` in `count(DISTINCT x)` and `count(*)` are dropped.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst[]} Arguments
+   */
+  private arguments(depth: number): ExpressionAst[] {
+    this.tryWord("DISTINCT");
+    const isEmpty =
+      this.isSymbol(this.peek(), ")") ||
+      (this.isSymbol(this.peek(), "*") && this.isSymbol(this.peek(1), ")"));
+    if (isEmpty) {
+      this.trySymbol("*");
+      this.expectSymbol(")");
+      return [];
+    }
+    const args = this.list(depth);
+    this.expectSymbol(")");
+    return args;
+  }
+
+  /**
+   * Parse a comma-separated list of expressions.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst[]} Expressions
+   */
+  private list(depth: number): ExpressionAst[] {
+    const items: ExpressionAst[] = [];
+    for (let i = 0; i < MAX_ARGUMENTS; i++) {
+      items.push(this.expression(depth + 1));
+      if (!this.trySymbol(",")) break;
+    }
+    return items;
+  }
+
+  /**
+   * Parse `CASE [x] WHEN a THEN b ... [ELSE c] END` after CASE as
+   * `multiIf` or `caseWithExpression`. A missing ELSE yields NULL.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Expression
+   */
+  private caseExpression(depth: number): ExpressionAst {
+    const operand = this.isWord(this.peek(), "WHEN")
+      ? undefined
+      : this.expression(depth + 1);
+    const args: ExpressionAst[] = operand ? [operand] : [];
+
+    for (let i = 0; i < MAX_ARGUMENTS && this.tryWord("WHEN"); i++) {
+      args.push(this.expression(depth + 1));
+      this.expectWord("THEN");
+      args.push(this.expression(depth + 1));
+    }
+    const otherwise = this.tryWord("ELSE")
+      ? this.expression(depth + 1)
+      : this.word({ kind: "word", text: "NULL", start: 0, end: 0 }, depth);
+    this.expectWord("END");
+    return call(operand ? "caseWithExpression" : "multiIf", [
+      ...args,
+      otherwise,
+    ]);
+  }
+
+  /**
+   * Parse `CAST(x AS Type)` or `CAST(x, 'Type')` after `CAST(`.
+   * @param {number} depth - Current nesting depth
+   * @returns {ExpressionAst} Cast expression
+   */
+  private castExpression(depth: number): ExpressionAst {
+    this.expression(depth + 1);
+    let type: TypeAst;
+    if (this.trySymbol(",")) {
+      const name = this.next();
+      assert(name.kind === "string", "CAST type must be a string");
+      type = parseType(unquoteString(name.text)).type;
+    } else {
+      this.expectWord("AS");
+      type = this.typeName();
+    }
+    this.expectSymbol(")");
+    return { kind: "cast", type };
+  }
+
+  /**
+   * Parse a type written in an expression, e.g. after `::` or `AS`.
+   * @returns {TypeAst} Type
+   */
+  private typeName(): TypeAst {
+    const first = this.next();
+    assert(first.kind === "word", "Expected type name");
+    let end = first.end;
+    if (this.trySymbol("(")) {
+      this.skipToClose();
+      end = this.tokens[this.position - 1]!.end;
+    }
+    return parseType(this.text.slice(first.start, end)).type;
+  }
+
+  /**
+   * Parse a column reference, possibly qualified as `table.column`.
+   * @param {string} first - First name, already consumed and unquoted
+   * @returns {ExpressionAst} Column reference
+   */
+  private reference(first: string): ExpressionAst {
+    const next = this.peek(1);
+    const isQualified =
+      this.isSymbol(this.peek(), ".") &&
+      (next?.kind === "word" || next?.kind === "quoted");
+    if (!isQualified) return { kind: "column", name: first };
+
+    this.position += 2;
+    const name = next!.kind === "quoted" ? next!.text.slice(1, -1) : next!.text;
+    return { kind: "column", name, table: first };
+  }
+
+  /**
+   * Skip a window specification after OVER: `(...)` or a window name.
+   */
+  private skipWindow(): void {
+    if (this.trySymbol("(")) this.skipToClose();
+    else this.next();
+  }
+
+  /**
+   * Skip tokens up to and including the parenthesis closing an open one.
+   * @throws {Error} When the input ends first
+   */
+  private skipToClose(): void {
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (this.isSymbol(token, "(")) depth++;
+      if (this.isSymbol(token, ")")) depth--;
+    }
+  }
+
+  /**
+   * Look at a token without consuming it.
+   * @param {number} [offset=0] - Distance from the current token
+   * @returns {Token | undefined} Token, or undefined past the end
+   */
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  /**
+   * Consume the current token.
+   * @returns {Token} Token
+   * @throws {Error} At the end of input
+   */
+  private next(): Token {
+    const token = this.tokens[this.position];
+    assert(token !== undefined, "Unexpected end of expression");
+    this.position++;
+    return token;
+  }
+
+  /**
+   * Check whether a token is a given symbol.
+   * @param {Token | undefined} token - Token to check
+   * @param {string} symbol - Symbol text
+   * @returns {boolean} True on a match
+   */
+  private isSymbol(token: Token | undefined, symbol: string): boolean {
+    return token?.kind === "symbol" && token.text === symbol;
+  }
+
+  /**
+   * Check whether a token is a given keyword, in any case.
+   * @param {Token | undefined} token - Token to check
+   * @param {string} word - Uppercase keyword
+   * @returns {boolean} True on a match
+   */
+  private isWord(token: Token | undefined, word: string): boolean {
+    return token?.kind === "word" && token.text.toUpperCase() === word;
+  }
+
+  /**
+   * Consume a symbol if it is next.
+   * @param {string} symbol - Symbol text
+   * @returns {boolean} True when consumed
+   */
+  private trySymbol(symbol: string): boolean {
+    if (!this.isSymbol(this.peek(), symbol)) return false;
+    this.position++;
+    return true;
+  }
+
+  /**
+   * Consume a keyword if it is next.
+   * @param {string} word - Uppercase keyword
+   * @returns {boolean} True when consumed
+   */
+  private tryWord(word: string): boolean {
+    if (!this.isWord(this.peek(), word)) return false;
+    this.position++;
+    return true;
+  }
+
+  /**
+   * Consume a required symbol.
+   * @param {string} symbol - Symbol text
+   * @throws {Error} When the next token is something else
+   */
+  private expectSymbol(symbol: string): void {
+    assert(this.trySymbol(symbol), `Expected '${symbol}'`);
+  }
+
+  /**
+   * Consume a required keyword.
+   * @param {string} word - Uppercase keyword
+   * @throws {Error} When the next token is something else
+   */
+  private expectWord(word: string): void {
+    assert(this.tryWord(word), `Expected ${word}`);
+  }
+}
+
+/**
+ * Build a call expression.
+ * @param {string} name - Function name
+ * @param {ExpressionAst[]} args - Arguments
+ * @returns {ExpressionAst} Call
+ */
+function call(name: string, args: ExpressionAst[]): ExpressionAst {
+  return { kind: "call", name, args };
+}
+
+/**
+ * Build a numeric literal typed by its value.
+ * @param {string} text - Literal text, possibly negative
+ * @returns {ExpressionAst} Literal
+ */
+function numberLiteral(text: string): ExpressionAst {
+  return {
+    kind: "literal",
+    type: numberLiteralType(text),
+    value: Number(text),
+  };
+}
+
+/**
+ * Remove the quotes of a string literal and resolve its escapes.
+ * @param {string} text - Quoted literal
+ * @returns {string} String value
+ */
+function unquoteString(text: string): string {
+  return text
+    .slice(1, -1)
+    .replace(/''|\\(.)/g, (escape, char?: string) => char ?? "'");
+}
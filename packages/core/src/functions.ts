@@ -0,0 +1,1259 @@
+import type { AggregateStateAst, TypeArg, TypeAst } from "./types.js";
+import {
+  firstTypeArg,
+  formatTypeAst,
+  isTypeAst,
+  secondTypeArg,
+} from "./ast-utils.js";
+import { parseType } from "./parser.js";
+
+/** Maximum number of combinator suffixes stripped from an aggregate name. */
+const MAX_COMBINATORS = 8;
+
+/** Maximum nesting inspected when checking a type for Unknown parts. */
+const MAX_TYPE_DEPTH = 20;
+
+/** Argument types and literal values of a function call. */
+export interface CallTypes {
+  /** Argument types; Unknown when not inferred. Lambdas give their body type. */
+  readonly args: readonly TypeAst[];
+  /** Values of literal arguments, e.g. the scale of `toDecimal64(x, 4)`. */
+  readonly values: readonly (string | number | null | undefined)[];
+  /** Whether one of the arguments is a lambda, e.g. `arrayMap(x -> x + 1, a)`. */
+  readonly hasLambda: boolean;
+  /** Literal parameters of a parametric aggregate, e.g. `0.9` in `quantile(0.9)(x)`. */
+  readonly params?: readonly (string | number | null | undefined)[];
+}
+
+/** Result type of a function for given argument types, when known. */
+type ResultRule = (call: CallTypes) => TypeAst | undefined;
+
+/** Integer, float or decimal type broken down into its properties. */
+interface NumberKind {
+  readonly kind: "int" | "float" | "decimal";
+  readonly signed: boolean;
+  readonly bits: number;
+  readonly precision: number;
+  readonly scale: number;
+}
+
+/**
+ * Type with arguments.
+ * @param {string} name - Type name
+ * @param {...TypeArg} args - Type arguments
+ * @returns {TypeAst} Type AST
+ */
+function type(name: string, ...args: TypeArg[]): TypeAst {
+  return { name, args };
+}
+
+/**
+ * Rule returning the same type whatever the arguments.
+ * @param {TypeAst} result - Result type
+ * @returns {ResultRule} Rule
+ */
+function fixed(result: TypeAst): ResultRule {
+  return () => result;
+}
+
+/** Rule returning the type of the first argument. */
+const firstArg: ResultRule = ({ args }) => args[0];
+
+/** Functions whose result type does not depend on their arguments. */
+const FIXED_RESULTS: Readonly<Record<string, readonly string[]>> = {
+  UInt8: [
+    "equals",
+    "notequals",
+    "less",
+    "greater",
+    "lessorequals",
+    "greaterorequals",
+    "like",
+    "notlike",
+    "ilike",
+    "notilike",
+    "in",
+    "notin",
+    "globalin",
+    "globalnotin",
+    "and",
+    "or",
+    "not",
+    "xor",
+    "isnull",
+    "isnotnull",
+    "has",
+    "hasany",
+    "hasall",
+    "empty",
+    "notempty",
+    "match",
+    "startswith",
+    "endswith",
+    "mapcontains",
+    "arrayexists",
+    "arrayall",
+    "isnan",
+    "isfinite",
+    "isinfinite",
+    "jsonextractbool",
+    "toquarter",
+    "tomonth",
+    "todayofmonth",
+    "todayofweek",
+    "tohour",
+    "tominute",
+    "tosecond",
+  ],
+  UInt16: ["toyear", "todayofyear"],
+  UInt32: [
+    "toyyyymm",
+    "toyyyymmdd",
+    "tounixtimestamp",
+    "torelativedaynum",
+    "torelativehournum",
+    "torelativeminutenum",
+    "torelativesecondnum",
+    "murmurhash3_32",
+    "xxhash32",
+    "inthash32",
+    "crc32",
+    "rand",
+    "rand32",
+    "ipv4stringtonum",
+  ],
+  UInt64: [
+    "length",
+    "lengthutf8",
+    "char_length",
+    "position",
+    "positioncaseinsensitive",
+    "locate",
+    "indexof",
+    "countequal",
+    "arraycount",
+    "cityhash64",
+    "siphash64",
+    "farmhash64",
+    "xxhash64",
+    "xxh3",
+    "murmurhash2_64",
+    "murmurhash3_64",
+    "inthash64",
+    "halfmd5",
+    "rand64",
+    "toyyyymmddhhmmss",
+    "rownumberinallblocks",
+    "row_number",
+    "rank",
+    "dense_rank",
+    "jsonextractuint",
+    "jsonlength",
+  ],
+  Int8: ["sign"],
+  Int64: ["datediff", "date_diff", "jsonextractint"],
+  Float64: [
+    "sqrt",
+    "cbrt",
+    "exp",
+    "exp2",
+    "exp10",
+    "log",
+    "ln",
+    "log2",
+    "log10",
+    "pow",
+    "power",
+    "sin",
+    "cos",
+    "tan",
+    "asin",
+    "acos",
+    "atan",
+    "atan2",
+    "pi",
+    "e",
+    "randcanonical",
+    "arrayavg",
+    "greatcircledistance",
+    "geodistance",
+    "jsonextractfloat",
+  ],
+  String: [
+    "lower",
+    "upper",
+    "lowerutf8",
+    "upperutf8",
+    "lcase",
+    "ucase",
+    "concat",
+    "concatwithseparator",
+    "substring",
+    "substr",
+    "substringutf8",
+    "left",
+    "right",
+    "trim",
+    "trimleft",
+    "trimright",
+    "trimboth",
+    "ltrim",
+    "rtrim",
+    "replace",
+    "replaceall",
+    "replaceone",
+    "replaceregexpall",
+    "replaceregexpone",
+    "reverse",
+    "leftpad",
+    "rightpad",
+    "repeat",
+    "format",
+    "hex",
+    "unhex",
+    "base64encode",
+    "base64decode",
+    "extract",
+    "domain",
+    "protocol",
+    "path",
+    "arraystringconcat",
+    "formatdatetime",
+    "formatreadablesize",
+    "totypename",
+    "hostname",
+    "currentdatabase",
+    "version",
+    "ipv4numtostring",
+    "ipv6numtostring",
+    "jsonextractstring",
+    "jsonextractraw",
+  ],
+  Date: [
+    "tostartofyear",
+    "tostartofquarter",
+    "tostartofmonth",
+    "tostartofweek",
+    "tostartofisoyear",
+    "tomonday",
+    "tolastdayofmonth",
+    "today",
+    "yesterday",
+  ],
+  DateTime: ["now", "timeslot"],
+  UUID: ["generateuuidv4"],
+};
+
+/** Functions truncating a time to a sub-day unit; DateTime64 inputs keep their precision. */
+const TIME_TRUNCATIONS = [
+  "tostartofday",
+  "tostartofhour",
+  "tostartofminute",
+  "tostartofsecond",
+  "tostartoffiveminute",
+  "tostartoffiveminutes",
+  "tostartoftenminutes",
+  "tostartoffifteenminutes",
+  "tostartofinterval",
+  "date_trunc",
+];
+
+/** Interval units of `toIntervalX` functions and `INTERVAL n X` literals. */
+const INTERVAL_UNITS = [
+  "Nanosecond",
+  "Microsecond",
+  "Millisecond",
+  "Second",
+  "Minute",
+  "Hour",
+  "Day",
+  "Week",
+  "Month",
+  "Quarter",
+  "Year",
+];
+
+/** Scalar functions with rules depending on their arguments. */
+const SCALAR_RULES: Readonly<Record<string, ResultRule>> = {
+  plus: arithmetic("plus"),
+  minus: arithmetic("minus"),
+  multiply: arithmetic("multiply"),
+  divide: ({ args: [a, b] }) => {
+    const x = a && numberKind(a);
+    const y = b && numberKind(b);
+    if (!x || !y) return undefined;
+    return x.kind === "decimal"
+      ? type("Decimal", Math.max(x.precision, y.precision), x.scale)
+      : type("Float64");
+  },
+  intdiv: integerDivision,
+  intdivorzero: integerDivision,
+  modulo: ({ args: [a, b] }) => {
+    const x = a && numberKind(a);
+    const y = b && numberKind(b);
+    if (!x || !y) return undefined;
+    if (x.kind !== "int" || y.kind !== "int") return commonSupertype([a, b]);
+    return intType(x.signed, y.bits);
+  },
+  negate: ({ args: [a] }) => {
+    const x = a && numberKind(a);
+    if (!x || x.kind !== "int" || x.signed) return x ? a : undefined;
+    return intType(true, Math.min(x.bits * 2, Math.max(x.bits, 64)));
+  },
+  abs: ({ args: [a] }) => {
+    const x = a && numberKind(a);
+    if (!x || x.kind !== "int") return x ? a : undefined;
+    return intType(false, x.bits);
+  },
+  round: firstArg,
+  roundbankers: firstArg,
+  floor: firstArg,
+  ceil: firstArg,
+  trunc: firstArg,
+  greatest: ({ args }) => commonSupertype(args),
+  least: ({ args }) => commonSupertype(args),
+  bitand: ({ args }) => commonSupertype(args),
+  bitor: ({ args }) => commonSupertype(args),
+  bitxor: ({ args }) => commonSupertype(args),
+  bitnot: firstArg,
+  bitshiftleft: firstArg,
+  bitshiftright: firstArg,
+  now64: ({ values }) => type("DateTime64", numberValue(values[0]) ?? 3),
+  totimezone: ({ values }) =>
+    typeof values[1] === "string"
+      ? type("DateTime", values[1])
+      : type("DateTime"),
+  if: ({ args }) => commonSupertype(args.slice(1, 3)),
+  multiif: ({ args }) =>
+    commonSupertype(
+      args.filter((_, i) => i % 2 === 1 || i === args.length - 1),
+    ),
+  casewithexpression: ({ args }) =>
+    commonSupertype(
+      args.filter((_, i) => (i > 0 && i % 2 === 0) || i === args.length - 1),
+    ),
+  coalesce: ({ args }) => {
+    const result = commonSupertype(args.map(unwrapNullable));
+    return result && args.every(isNullable) ? nullable(result) : result;
+  },
+  ifnull: ({ args: [a, b] }) =>
+    a && b ? commonSupertype([unwrapNullable(a), b]) : undefined,
+  nullif: ({ args: [a] }) => a && nullable(a),
+  assumenotnull: ({ args: [a] }) => a && unwrapNullable(a),
+  tonullable: ({ args: [a] }) => a && nullable(a),
+  materialize: firstArg,
+  identity: firstArg,
+  finalizeaggregation: ({ args: [a] }) =>
+    a && aggregateFunctionState(a)?.merged,
+  tuple: ({ args }) => type("Tuple", ...args),
+  array: ({ args }) =>
+    args.length > 0
+      ? mapDefined(commonSupertype(args), (element) => type("Array", element))
+      : type("Array", type("Nothing")),
+  map: ({ args }) => {
+    const keys = commonSupertype(args.filter((_, i) => i % 2 === 0));
+    const values = commonSupertype(args.filter((_, i) => i % 2 === 1));
+    return keys && values ? type("Map", keys, values) : undefined;
+  },
+  arrayelement: ({ args: [a] }) => {
+    if (a?.name === "Map") return secondTypeArg(a);
+    return a && elementType(a);
+  },
+  tupleelement: ({ args: [a], values }) => {
+    if (a?.name !== "Tuple") return undefined;
+    const key = values[1];
+    const index =
+      typeof key === "string"
+        ? (a.elementNames ?? []).indexOf(key)
+        : Number(key) - 1;
+    const element = a.args[index];
+    return element !== undefined &&
+      typeof element === "object" &&
+      "args" in element
+      ? element
+      : undefined;
+  },
+  arrayjoin: ({ args: [a] }) => a && elementType(a),
+  arraymap: ({ args: [body], hasLambda }) =>
+    hasLambda && body ? type("Array", body) : undefined,
+  arrayfilter: ({ args }) => args[1],
+  arraysort: arraySameType,
+  arrayreversesort: arraySameType,
+  arrayreverse: arraySameType,
+  arraydistinct: arraySameType,
+  arraycompact: arraySameType,
+  arrayslice: arraySameType,
+  arrayshuffle: arraySameType,
+  arrayconcat: ({ args }) => commonSupertype(args),
+  arraypushback: arraySameType,
+  arraypushfront: arraySameType,
+  arrayfirst: ({ args }) => mapDefined(args[args.length - 1], elementType),
+  arraylast: ({ args }) => mapDefined(args[args.length - 1], elementType),
+  arraymin: arrayReduction,
+  arraymax: arrayReduction,
+  arraysum: (call) => mapDefined(arrayReduction(call), sumType),
+  range: ({ args }) =>
+    mapDefined(args[args.length - 1], (end) => type("Array", end)),
+  mapkeys: ({ args: [a] }) =>
+    a?.name === "Map" ? type("Array", firstTypeArg(a)) : undefined,
+  mapvalues: ({ args: [a] }) =>
+    a?.name === "Map" ? type("Array", secondTypeArg(a)) : undefined,
+  splitbychar: fixed(type("Array", type("String"))),
+  splitbystring: fixed(type("Array", type("String"))),
+  splitbyregexp: fixed(type("Array", type("String"))),
+  extractall: fixed(type("Array", type("String"))),
+  alphatokens: fixed(type("Array", type("String"))),
+  emptyarraystring: fixed(type("Array", type("String"))),
+  md5: fixed(type("FixedString", 16)),
+  siphash128: fixed(type("FixedString", 16)),
+  sha1: fixed(type("FixedString", 20)),
+  sha256: fixed(type("FixedString", 32)),
+  jsonextract: ({ values }) => {
+    const typeName = values[values.length - 1];
+    return typeof typeName === "string"
+      ? parseTypeOrUndefined(typeName)
+      : undefined;
+  },
+};
+
+/** Scalar functions that handle Nullable arguments themselves. */
+const NULL_AWARE = new Set([
+  "isnull",
+  "isnotnull",
+  "if",
+  "multiif",
+  "casewithexpression",
+  "coalesce",
+  "ifnull",
+  "nullif",
+  "assumenotnull",
+  "tonullable",
+  "materialize",
+  "identity",
+  "tuple",
+  "array",
+  "map",
+  "totypename",
+  "finalizeaggregation",
+]);
+
+/** Scalar functions by lowercased name. */
+const SCALAR: Readonly<Record<string, ResultRule>> = {
+  ...fixedRules(FIXED_RESULTS),
+  ...Object.fromEntries(
+    TIME_TRUNCATIONS.map((name): [string, ResultRule] => [name, truncateTime]),
+  ),
+  ...Object.fromEntries(
+    INTERVAL_UNITS.map((unit): [string, ResultRule] => [
+      `tointerval${unit.toLowerCase()}`,
+      fixed(type(`Interval${unit}`)),
+    ]),
+  ),
+  ...Object.fromEntries(
+    INTERVAL_UNITS.flatMap((unit): [string, ResultRule][] => [
+      [`add${unit.toLowerCase()}s`, firstArg],
+      [`subtract${unit.toLowerCase()}s`, firstArg],
+    ]),
+  ),
+  ...SCALAR_RULES,
+};
+
+/** Aggregate functions by lowercased name. */
+const AGGREGATE: Readonly<Record<string, ResultRule>> = {
+  ...fixedRules({
+    UInt64: [
+      "count",
+      "uniq",
+      "uniqexact",
+      "uniqcombined",
+      "uniqcombined64",
+      "uniqhll12",
+      "uniqtheta",
+      "groupbitmap",
+    ],
+    Float64: [
+      "avg",
+      "avgweighted",
+      "sumkahan",
+      "median",
+      "quantile",
+      "quantileexact",
+      "quantiletdigest",
+      "quantiletiming",
+      "stddevpop",
+      "stddevsamp",
+      "varpop",
+      "varsamp",
+      "corr",
+      "covarpop",
+      "covarsamp",
+      "entropy",
+      "skewpop",
+      "skewsamp",
+      "kurtpop",
+      "kurtsamp",
+    ],
+  }),
+  quantiles: fixed(type("Array", type("Float64"))),
+  quantilesexact: fixed(type("Array", type("Float64"))),
+  quantilestdigest: fixed(type("Array", type("Float64"))),
+  sum: ({ args: [a] }) => a && sumType(a),
+  sumwithoverflow: firstArg,
+  min: firstArg,
+  max: firstArg,
+  any: firstArg,
+  anylast: firstArg,
+  anyheavy: firstArg,
+  first_value: firstArg,
+  last_value: firstArg,
+  argmin: firstArg,
+  argmax: firstArg,
+  groupbitand: firstArg,
+  groupbitor: firstArg,
+  groupbitxor: firstArg,
+  grouparray: ({ args: [a] }) => a && type("Array", a),
+  groupuniqarray: ({ args: [a] }) => a && type("Array", a),
+  grouparraysample: ({ args: [a] }) => a && type("Array", a),
+  topk: ({ args: [a] }) => a && type("Array", a),
+};
+
+/** Aggregate functions that return a value even when all inputs are NULL. */
+const NEVER_NULL_AGGREGATES = new Set([
+  "count",
+  "uniq",
+  "uniqexact",
+  "uniqcombined",
+  "uniqcombined64",
+  "uniqhll12",
+  "uniqtheta",
+  "groupbitmap",
+  "grouparray",
+  "groupuniqarray",
+  "grouparraysample",
+  "topk",
+]);
+
+/** Aggregate function combinators, longest first so `MergeState` wins over `State`. */
+const COMBINATORS = [
+  "MergeState",
+  "SimpleState",
+  "OrDefault",
+  "OrNull",
+  "ForEach",
+  "Distinct",
+  "Resample",
+  "Array",
+  "State",
+  "Merge",
+  "If",
+] as const;
+
+/** `toType`, `toTypeOrZero`, `toTypeOrNull` and `toTypeOrDefault` conversions. */
+const CONVERSION =
+  /^to(u?int(?:8|16|32|64|128|256)|float(?:32|64)|string|date|date32|datetime|datetime64|decimal(?:32|64|128|256)|uuid|ipv4|ipv6|bool|fixedstring)(orzero|ornull|ordefault)?$/;
+
+/** `parseDateTime[64]BestEffort[US][OrNull|OrZero]`. */
+const BEST_EFFORT = /^parsedatetime(32|64)?besteffort(?:us)?(ornull|orzero)?$/;
+
+/** Decimal precision of `DecimalN` types. */
+const DECIMAL_PRECISION: Readonly<Record<string, number>> = {
+  "32": 9,
+  "64": 18,
+  "128": 38,
+  "256": 76,
+};
+
+/**
+ * Result type of a function call. Scalar functions follow ClickHouse's
+ * rules for integer promotion and Nullable propagation; aggregate functions
+ * are looked up with their combinator suffixes (`sumIf`, `maxState`)
+ * removed, and `-State` yields the `AggregateFunction` state type.
+ * @param {string} name - Function name, in any case
+ * @param {CallTypes} call - Argument types and literal values
+ * @returns {TypeAst | undefined} Result type, or undefined when unknown
+ */
+export function functionResultType(
+  name: string,
+  call: CallTypes,
+): TypeAst | undefined {
+  const lower = name.toLowerCase();
+  const values = { ...call, args: call.args.map(unwrapSimpleAggregate) };
+  const scalar = SCALAR[lower] ?? conversionRule(lower);
+  const result = scalar
+    ? applyScalar(lower, scalar, values)
+    : aggregateResultType(name, values, 0);
+  return result && !containsUnknown(result, 0) ? result : undefined;
+}
+
+/**
+ * Describe the state an `AggregateFunction` type stores and the type its
+ * `-Merge` returns, e.g. `Float64` for `AggregateFunction(avgIf, UInt32, UInt8)`.
+ * @param {TypeAst} t - Type to describe
+ * @returns {AggregateStateAst | undefined} State, or undefined for other types
+ */
+export function aggregateFunctionState(
+  t: TypeAst,
+): AggregateStateAst | undefined {
+  if (t.name !== "AggregateFunction" || !t.aggregate) return undefined;
+
+  const { name, params } = t.aggregate;
+  const args = t.args.filter(isTypeAst);
+  const merged = aggregateResultType(
+    name,
+    { args, values: args.map(() => undefined), hasLambda: false, params },
+    0,
+  );
+  return {
+    ...splitCombinators(name),
+    params,
+    args,
+    ...(merged && !containsUnknown(merged, 0) ? { merged } : {}),
+  };
+}
+
+/**
+ * Type of a numeric literal: the smallest integer type holding it, or
+ * Float64 for fractions.
+ * @param {string} text - Literal text, possibly negative or hexadecimal
+ * @returns {TypeAst} Literal type
+ */
+export function numberLiteralType(text: string): TypeAst {
+  if (!/^-?(?:0x[0-9a-f]+|\d+)$/i.test(text)) return type("Float64");
+  const negative = text.startsWith("-");
+  const value = BigInt(negative ? text.slice(1) : text);
+
+  for (const bits of [8, 16, 32, 64, 128, 256]) {
+    const limit = 1n << BigInt(negative ? bits - 1 : bits);
+    if (negative ? value <= limit : value < limit) {
+      return intType(negative, bits);
+    }
+  }
+  return type("Float64");
+}
+
+/**
+ * Least common type of several types, as ClickHouse picks for `if`,
+ * `array(...)` or `greatest`. Integers widen to hold every value, mixing
+ * in floats gives Float64, and Nullable or NULL makes the result Nullable.
+ * @param {readonly TypeAst[]} types - Types to combine
+ * @returns {TypeAst | undefined} Common type, or undefined when there is none
+ */
+export function commonSupertype(
+  types: readonly TypeAst[],
+): TypeAst | undefined {
+  let isNull = false;
+  const values: TypeAst[] = [];
+  for (const t of types) {
+    const inner = unwrapLowCardinality(t);
+    if (inner.name === "Nullable") isNull = true;
+    const value = unwrapLowCardinality(unwrapNullable(inner));
+    if (value.name !== "Nothing") values.push(value);
+  }
+
+  if (values.length === 0) {
+    return isNull ? nullable(type("Nothing")) : undefined;
+  }
+  const result = valueSupertype(values);
+  return result && isNull ? nullable(result) : result;
+}
+
+/**
+ * Common type of non-Nullable types.
+ * @param {readonly TypeAst[]} values - At least one type
+ * @returns {TypeAst | undefined} Common type, or undefined when there is none
+ */
+function valueSupertype(values: readonly TypeAst[]): TypeAst | undefined {
+  const first = values[0]!;
+  const text = formatTypeAst(first);
+  if (values.every((value) => formatTypeAst(value) === text)) return first;
+
+  const names = values.map((value) => value.name);
+  if (
+    names.every((name) => /^(?:String|FixedString|Enum(?:8|16))$/.test(name))
+  ) {
+    return type("String");
+  }
+  if (
+    names.every((name) => /^(?:Date|Date32|DateTime|DateTime64)$/.test(name))
+  ) {
+    return (
+      values.find((value) => value.name === "DateTime64") ??
+      (names.includes("DateTime") ? type("DateTime") : type("Date32"))
+    );
+  }
+  if (names.every((name) => name === "Array")) {
+    const element = commonSupertype(values.map(firstTypeArg));
+    return element && type("Array", element);
+  }
+
+  const kinds = values.map(numberKind);
+  if (kinds.some((kind) => kind === undefined)) return undefined;
+  const numbers = kinds as NumberKind[];
+  if (numbers.some((n) => n.kind === "float")) return type("Float64");
+  if (numbers.some((n) => n.kind === "decimal")) {
+    const decimals = numbers.filter((n) => n.kind === "decimal");
+    return type(
+      "Decimal",
+      Math.max(...decimals.map((n) => n.precision)),
+      Math.max(...decimals.map((n) => n.scale)),
+    );
+  }
+
+  const signed = numbers.some((n) => n.signed);
+  const signedBits = Math.max(
+    0,
+    ...numbers.filter((n) => n.signed).map((n) => n.bits),
+  );
+  const unsignedBits = Math.max(
+    0,
+    ...numbers.filter((n) => !n.signed).map((n) => n.bits),
+  );
+  const bits = signed ? Math.max(signedBits, unsignedBits * 2) : unsignedBits;
+  return bits <= 256 ? intType(signed, bits) : undefined;
+}
+
+/**
+ * Apply a scalar rule. Functions that handle NULL themselves see their
+ * arguments as they are; for the others LowCardinality and Nullable are
+ * unwrapped and a Nullable argument makes the result Nullable.
+ * @param {string} name - Lowercased function name
+ * @param {ResultRule} rule - Rule of the function
+ * @param {CallTypes} call - Argument types and literal values
+ * @returns {TypeAst | undefined} Result type
+ */
+function applyScalar(
+  name: string,
+  rule: ResultRule,
+  call: CallTypes,
+): TypeAst | undefined {
+  if (NULL_AWARE.has(name)) return rule(call);
+
+  const args = call.args.map(unwrapLowCardinality);
+  const result = rule({ ...call, args: args.map(unwrapNullable) });
+  return result && args.some(isNullable) ? nullable(result) : result;
+}
+
+/**
+ * Result type of an aggregate function, removing combinator suffixes one
+ * at a time, outermost (last) first: `sumStateIf` is typed as `sumState`
+ * without the condition, then as the `AggregateFunction(sum, T)` state.
+ * Aggregates returning a value of their argument, like `min` and `any`,
+ * keep its type as is.
+ * @param {string} name - Function name, in its original case
+ * @param {CallTypes} call - Argument types and literal values
+ * @param {number} depth - Number of combinators removed so far
+ * @returns {TypeAst | undefined} Result type, or undefined when unknown
+ */
+function aggregateResultType(
+  name: string,
+  call: CallTypes,
+  depth: number,
+): TypeAst | undefined {
+  const lower = name.toLowerCase();
+  const rule = AGGREGATE[lower];
+  if (rule === firstArg) return call.args[0];
+  if (rule) {
+    const args = call.args.map((arg) => unwrapLowCardinality(arg));
+    const result = rule({ ...call, args: args.map(unwrapNullable) });
+    const isNull = !NEVER_NULL_AGGREGATES.has(lower) && args.some(isNullable);
+    return result && isNull ? nullable(result) : result;
+  }
+  if (depth >= MAX_COMBINATORS) return undefined;
+
+  const combinator = findCombinator(name);
+  if (!combinator) return undefined;
+  const base = name.slice(0, -combinator.length);
+  const state = call.args[0];
+
+  switch (combinator) {
+    case "If":
+      return aggregateResultType(
+        base,
+        {
+          ...call,
+          args: call.args.slice(0, -1),
+          values: call.values.slice(0, -1),
+        },
+        depth + 1,
+      );
+    case "Array":
+    case "ForEach": {
+      const elements = { ...call, args: call.args.map(elementType) };
+      const result = aggregateResultType(base, elements, depth + 1);
+      return result && combinator === "ForEach"
+        ? type("Array", result)
+        : result;
+    }
+    case "OrNull": {
+      const result = aggregateResultType(base, call, depth + 1);
+      return result && nullable(result);
+    }
+    case "Resample": {
+      // The last argument is the resampling key; the last three parameters
+      // are its start, end and step.
+      const result = aggregateResultType(
+        base,
+        {
+          ...call,
+          args: call.args.slice(0, -1),
+          values: call.values.slice(0, -1),
+          params: call.params?.slice(0, -3),
+        },
+        depth + 1,
+      );
+      return result && type("Array", result);
+    }
+    case "State":
+      return stateType(base, call, depth + 1);
+    case "SimpleState": {
+      const result = aggregateResultType(base, call, depth + 1);
+      return (
+        result && {
+          ...type("SimpleAggregateFunction", result),
+          aggregate: { name: base, params: [] },
+        }
+      );
+    }
+    case "Merge":
+      return state && isStateOf(state, base)
+        ? aggregateFunctionState(state)?.merged
+        : undefined;
+    case "MergeState":
+      return state && isStateOf(state, base) ? state : undefined;
+    default:
+      return aggregateResultType(base, call, depth + 1);
+  }
+}
+
+/**
+ * Type of the state `-State` builds: `AggregateFunction` of the function,
+ * with its parameters and remaining combinators, and the argument types.
+ * @param {string} func - Function before `State`, e.g. `quantilesIf`
+ * @param {CallTypes} call - Argument types and literal values
+ * @param {number} depth - Number of combinators removed so far
+ * @returns {TypeAst | undefined} State type, or undefined for unknown
+ *   functions and parameters that are not literals
+ */
+function stateType(
+  func: string,
+  call: CallTypes,
+  depth: number,
+): TypeAst | undefined {
+  const params: (number | string)[] = [];
+  for (const param of call.params ?? []) {
+    if (param === null || param === undefined) return undefined;
+    params.push(param);
+  }
+  if (!aggregateResultType(func, call, depth)) return undefined;
+  return {
+    ...type("AggregateFunction", ...call.args.map(unwrapLowCardinality)),
+    aggregate: { name: func, params },
+  };
+}
+
+/**
+ * Check whether a type is the state of an aggregate function, as `-Merge`
+ * and `-MergeState` require, e.g. `AggregateFunction(sumIf, ...)` for `sumIfMerge`.
+ * @param {TypeAst} t - Argument type
+ * @param {string} func - Function before `Merge`
+ * @returns {boolean} True when the state belongs to the function
+ */
+function isStateOf(t: TypeAst, func: string): boolean {
+  return (
+    t.name === "AggregateFunction" &&
+    t.aggregate?.name.toLowerCase() === func.toLowerCase()
+  );
+}
+
+/**
+ * Combinator a function name ends with.
+ * @param {string} name - Function name, in any case
+ * @returns {(typeof COMBINATORS)[number] | undefined} Combinator, or undefined
+ */
+function findCombinator(
+  name: string,
+): (typeof COMBINATORS)[number] | undefined {
+  const lower = name.toLowerCase();
+  return COMBINATORS.find(
+    (suffix) =>
+      lower.length > suffix.length && lower.endsWith(suffix.toLowerCase()),
+  );
+}
+
+/**
+ * Split an aggregate function name into the function and its combinators.
+ * @param {string} name - Function name, e.g. `sumIfArray`
+ * @returns {{ func: string; combinators: string[] }} Function and
+ *   combinators innermost first, e.g. `sum` and `["If", "Array"]`
+ */
+function splitCombinators(name: string): {
+  func: string;
+  combinators: string[];
+} {
+  const combinators: string[] = [];
+  let func = name;
+  for (let i = 0; i < MAX_COMBINATORS; i++) {
+    const combinator = AGGREGATE[func.toLowerCase()]
+      ? undefined
+      : findCombinator(func);
+    if (!combinator) break;
+    combinators.unshift(combinator);
+    func = func.slice(0, -combinator.length);
+  }
+  return { func, combinators };
+}
+
+/**
+ * Rule for a `toType` conversion function name.
+ * @param {string} name - Lowercased function name
+ * @returns {ResultRule | undefined} Rule, or undefined when not a conversion
+ */
+function conversionRule(name: string): ResultRule | undefined {
+  const bestEffort = BEST_EFFORT.exec(name);
+  if (bestEffort) {
+    const result =
+      bestEffort[1] === "64"
+        ? (values: CallTypes["values"]) =>
+            type("DateTime64", numberValue(values[1]) ?? 3)
+        : () => type("DateTime");
+    return ({ values }) =>
+      bestEffort[2] === "ornull" ? nullable(result(values)) : result(values);
+  }
+
+  const match = CONVERSION.exec(name);
+  if (!match) return undefined;
+  const [, target, suffix] = match;
+  return ({ values }) => {
+    const result = conversionTarget(target!, values);
+    return result && suffix === "ornull" ? nullable(result) : result;
+  };
+}
+
+/**
+ * Type a conversion function converts to.
+ * @param {string} target - Lowercased target, e.g. `uint32` or `decimal64`
+ * @param {CallTypes["values"]} values - Literal arguments, e.g. scale or time zone
+ * @returns {TypeAst | undefined} Target type
+ */
+function conversionTarget(
+  target: string,
+  values: CallTypes["values"],
+): TypeAst | undefined {
+  const int = /^(u?)int(\d+)$/.exec(target);
+  if (int) return intType(int[1] === "", Number(int[2]));
+
+  const decimal = /^decimal(\d+)$/.exec(target);
+  if (decimal) {
+    const scale = numberValue(values[1]);
+    return scale === undefined
+      ? undefined
+      : type("Decimal", DECIMAL_PRECISION[decimal[1]!]!, scale);
+  }
+
+  const timeZone = (index: number): TypeArg[] =>
+    typeof values[index] === "string" ? [values[index] as string] : [];
+  switch (target) {
+    case "float32":
+      return type("Float32");
+    case "float64":
+      return type("Float64");
+    case "string":
+      return type("String");
+    case "date":
+      return type("Date");
+    case "date32":
+      return type("Date32");
+    case "datetime":
+      return type("DateTime", ...timeZone(1));
+    case "datetime64":
+      return type("DateTime64", numberValue(values[1]) ?? 3, ...timeZone(2));
+    case "uuid":
+      return type("UUID");
+    case "ipv4":
+      return type("IPv4");
+    case "ipv6":
+      return type("IPv6");
+    case "bool":
+      return type("Bool");
+    case "fixedstring": {
+      const length = numberValue(values[1]);
+      return length === undefined ? undefined : type("FixedString", length);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Rule for `plus`, `minus` and `multiply`. Integers widen to the next size
+ * up to 64 bits and subtraction is signed; floats give Float64. Dates move
+ * by integers and intervals.
+ * @param {string} op - Operation
+ * @returns {ResultRule} Rule
+ */
+function arithmetic(op: "plus" | "minus" | "multiply"): ResultRule {
+  return ({ args: [a, b] }) => {
+    if (!a || !b) return undefined;
+    if (op !== "multiply" && isDateType(a) && isDateOffset(b)) return a;
+    if (op === "plus" && isDateOffset(a) && isDateType(b)) return b;
+
+    const x = numberKind(a);
+    const y = numberKind(b);
+    if (!x || !y) return undefined;
+    if (x.kind === "float" || y.kind === "float") return type("Float64");
+    if (x.kind === "decimal" || y.kind === "decimal") {
+      const scale =
+        op === "multiply" ? x.scale + y.scale : Math.max(x.scale, y.scale);
+      return type("Decimal", Math.max(x.precision, y.precision), scale);
+    }
+
+    const bits = Math.max(x.bits, y.bits);
+    const signed = op === "minus" || x.signed || y.signed;
+    return intType(signed, bits >= 64 ? bits : bits * 2);
+  };
+}
+
+/**
+ * Rule for `intDiv`: an integer of the dividend's size.
+ * @param {CallTypes} call - Argument types
+ * @returns {TypeAst | undefined} Result type
+ */
+function integerDivision({ args: [a, b] }: CallTypes): TypeAst | undefined {
+  const x = a && numberKind(a);
+  const y = b && numberKind(b);
+  if (!x || !y) return undefined;
+  return intType(x.signed || y.signed, x.kind === "int" ? x.bits : 64);
+}
+
+/**
+ * Rule for array functions returning their array argument's type.
+ * @param {CallTypes} call - Argument types
+ * @returns {TypeAst | undefined} Type of the array argument
+ */
+function arraySameType({ args, hasLambda }: CallTypes): TypeAst | undefined {
+  return hasLambda ? args[1] : args[0];
+}
+
+/**
+ * Rule for `arrayMin`, `arrayMax` and `arraySum` before summing: the
+ * lambda's result, or else the element type.
+ * @param {CallTypes} call - Argument types
+ * @returns {TypeAst | undefined} Element or lambda result type
+ */
+function arrayReduction({ args, hasLambda }: CallTypes): TypeAst | undefined {
+  if (hasLambda) return args[0];
+  return args[0] && elementType(args[0]);
+}
+
+/**
+ * Rule for `toStartOfDay` and finer truncations.
+ * @param {CallTypes} call - Argument types
+ * @returns {TypeAst} DateTime, or the DateTime64 argument's type
+ */
+function truncateTime({ args: [a] }: CallTypes): TypeAst {
+  return a?.name === "DateTime64" || a?.name === "DateTime"
+    ? a
+    : type("DateTime");
+}
+
+/**
+ * Type `sum` accumulates a type into.
+ * @param {TypeAst} t - Summed type
+ * @returns {TypeAst | undefined} 64-bit integer, Float64 or wide Decimal
+ */
+function sumType(t: TypeAst): TypeAst | undefined {
+  const n = numberKind(t);
+  if (!n) return undefined;
+  if (n.kind === "float") return type("Float64");
+  if (n.kind === "decimal") {
+    return type("Decimal", n.precision > 38 ? 76 : 38, n.scale);
+  }
+  return intType(n.signed, Math.max(n.bits, 64));
+}
+
+/**
+ * Break a numeric type down into kind, sign and size.
+ * @param {TypeAst} t - Type to inspect
+ * @returns {NumberKind | undefined} Properties, or undefined for non-numeric types
+ */
+function numberKind(t: TypeAst): NumberKind | undefined {
+  const int = /^(U?)Int(8|16|32|64|128|256)$/.exec(t.name);
+  if (int) {
+    const bits = Number(int[2]);
+    return { kind: "int", signed: int[1] === "", bits, precision: 0, scale: 0 };
+  }
+  if (t.name === "Bool") {
+    return { kind: "int", signed: false, bits: 8, precision: 0, scale: 0 };
+  }
+  const float = /^B?Float(16|32|64)$/.exec(t.name);
+  if (float) {
+    const bits = Number(float[1]);
+    return { kind: "float", signed: true, bits, precision: 0, scale: 0 };
+  }
+
+  const sized = /^Decimal(32|64|128|256)$/.exec(t.name);
+  if (sized) {
+    const scale = numberValue(t.args[0]) ?? 0;
+    const precision = DECIMAL_PRECISION[sized[1]!]!;
+    return { kind: "decimal", signed: true, bits: 0, precision, scale };
+  }
+  if (t.name === "Decimal") {
+    const precision = numberValue(t.args[0]) ?? 10;
+    const scale = numberValue(t.args[1]) ?? 0;
+    return { kind: "decimal", signed: true, bits: 0, precision, scale };
+  }
+  return undefined;
+}
+
+/**
+ * Integer type of a sign and size.
+ * @param {boolean} signed - Whether the type is signed
+ * @param {number} bits - Size in bits
+ * @returns {TypeAst} Integer type, e.g. UInt16
+ */
+function intType(signed: boolean, bits: number): TypeAst {
+  return type(`${signed ? "" : "U"}Int${bits}`);
+}
+
+/**
+ * Check whether a type is a date or time.
+ * @param {TypeAst} t - Type to check
+ * @returns {boolean} True for Date, Date32, DateTime and DateTime64
+ */
+function isDateType(t: TypeAst): boolean {
+  return /^(?:Date|Date32|DateTime|DateTime64)$/.test(t.name);
+}
+
+/**
+ * Check whether a type can be added to a date: an integer or an interval.
+ * @param {TypeAst} t - Type to check
+ * @returns {boolean} True for integers and Interval types
+ */
+function isDateOffset(t: TypeAst): boolean {
+  return t.name.startsWith("Interval") || numberKind(t)?.kind === "int";
+}
+
+/**
+ * Element type of an array.
+ * @param {TypeAst} t - Array type
+ * @returns {TypeAst} Element type, or Unknown for other types
+ */
+function elementType(t: TypeAst): TypeAst {
+  const inner = unwrapLowCardinality(unwrapNullable(t));
+  return inner.name === "Array" ? firstTypeArg(inner) : type("Unknown");
+}
+
+/**
+ * Check whether a type is Nullable.
+ * @param {TypeAst} t - Type to check
+ * @returns {boolean} True for Nullable(T)
+ */
+function isNullable(t: TypeAst): boolean {
+  return t.name === "Nullable";
+}
+
+/**
+ * Wrap a type in Nullable, unless it cannot be or already is.
+ * @param {TypeAst} t - Type to wrap
+ * @returns {TypeAst} Nullable type, or the type itself for composite types
+ */
+function nullable(t: TypeAst): TypeAst {
+  return /^(?:Nullable|Array|Map|Tuple|LowCardinality)$/.test(t.name)
+    ? t
+    : type("Nullable", t);
+}
+
+/**
+ * Remove a Nullable wrapper.
+ * @param {TypeAst} t - Type to unwrap
+ * @returns {TypeAst} Inner type, or the type itself
+ */
+function unwrapNullable(t: TypeAst): TypeAst {
+  return t.name === "Nullable" ? firstTypeArg(t) : t;
+}
+
+/**
+ * Value type of a SimpleAggregateFunction, which stores plain values.
+ * @param {TypeAst} t - Type to unwrap
+ * @returns {TypeAst} Value type, or the type itself
+ */
+function unwrapSimpleAggregate(t: TypeAst): TypeAst {
+  return t.name === "SimpleAggregateFunction" ? firstTypeArg(t) : t;
+}
+
+/**
+ * Remove a LowCardinality wrapper, which only changes storage.
+ * @param {TypeAst} t - Type to unwrap
+ * @returns {TypeAst} Inner type, or the type itself
+ */
+function unwrapLowCardinality(t: TypeAst): TypeAst {
+  return t.name === "LowCardinality" ? firstTypeArg(t) : t;
+}
+
+/**
+ * Check whether a type has Unknown parts, e.g. `Array(Unknown)`.
+ * @param {TypeAst} t - Type to check
+ * @param {number} depth - Current nesting depth
+ * @returns {boolean} True when any part is Unknown
+ */
+function containsUnknown(t: TypeAst, depth: number): boolean {
+  if (t.name === "Unknown" || depth > MAX_TYPE_DEPTH) return true;
+  return t.args.some(
+    (arg) =>
+      typeof arg === "object" &&
+      "args" in arg &&
+      containsUnknown(arg, depth + 1),
+  );
+}
+
+/**
+ * Build rules for the functions of a result-type table.
+ * @param {Readonly<Record<string, readonly string[]>>} table - Function names by result type
+ * @returns {Record<string, ResultRule>} Rules by function name
+ */
+function fixedRules(
+  table: Readonly<Record<string, readonly string[]>>,
+): Record<string, ResultRule> {
+  return Object.fromEntries(
+    Object.entries(table).flatMap(([result, names]) =>
+      names.map((name): [string, ResultRule] => [name, fixed(type(result))]),
+    ),
+  );
+}
+
+/**
+ * Apply a function to a value that may be undefined.
+ * @param {T | undefined} value - Value
+ * @param {(value: T) => R | undefined} fn - Function to apply
+ * @returns {R | undefined} Result, or undefined without a value
+ */
+function mapDefined<T, R>(
+  value: T | undefined,
+  fn: (value: T) => R | undefined,
+): R | undefined {
+  return value === undefined ? undefined : fn(value);
+}
+
+/**
+ * Integer value of a literal argument or type argument.
+ * @param {unknown} value - Value to read
+ * @returns {number | undefined} Non-negative integer, or undefined
+ */
+function numberValue(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : undefined;
+}
+
+/**
+ * Parse a type name passed as a string, e.g. to `JSONExtract`.
+ * @param {string} text - Type text
+ * @returns {TypeAst | undefined} Type, or undefined when it does not parse
+ */
+function parseTypeOrUndefined(text: string): TypeAst | undefined {
+  try {
+    return parseType(text).type;
+  } catch {
+    return undefined;
+  }
+}
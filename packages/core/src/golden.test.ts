@@ -16,6 +16,9 @@ const goldenDefaultPath = resolve(
   "testdata/golden/simple.default.ts",
 );
 const goldenZodPath = resolve(process.cwd(), "testdata/golden/simple.zod.ts");
+// The CLI passes the input path relative to the output file; the goldens sit
+// in testdata/golden, so mirror that to share them with the CLI suite.
+const sourcePath = "../simple/create_simple.sql";
 
 const baseMap: MappingOptions = {
   int64As: "bigint",
@@ -29,6 +32,7 @@ describe("golden snapshots (core)", () => {
     const ddl = readFileSync(simpleSqlPath, "utf8");
     const out = generateSource(ddl, baseMap, {
       emitZod: false,
+      sourcePath,
     } satisfies EmissionOptions);
     const golden = readFileSync(goldenDefaultPath, "utf8");
     expect(out.trim()).toBe(golden.trim());
@@ -38,6 +42,7 @@ describe("golden snapshots (core)", () => {
     const ddl = readFileSync(simpleSqlPath, "utf8");
     const out = generateSource(ddl, baseMap, {
       emitZod: true,
+      sourcePath,
     } satisfies EmissionOptions);
     const golden = readFileSync(goldenZodPath, "utf8");
     expect(out.trim()).toBe(golden.trim());
@@ -2,23 +2,58 @@ export {
   TypeAst,
   TypeArg,
   EnumMember,
+  AggregateFunctionRef,
+  JsonSkipHint,
   ColumnAst,
+  ColumnKind,
+  EngineArg,
+  EngineAst,
   TableAst,
+  TableRef,
+  IndexAst,
+  ProjectionAst,
+  ConstraintAst,
+  ViewParameterAst,
+  LineageEdge,
+  AggregateStateAst,
+  ColumnChecks,
+  ColumnChanges,
+  AlterCommand,
+  SchemaChange,
   MappingOptions,
   EmissionOptions,
   MappedTable,
+  MapResult,
+  DatabaseNaming,
+  Diagnostic,
+  DiagnosticSeverity,
+  ParseResult,
 } from "./types.js";
 import type {
   TableAst,
   MappingOptions,
   EmissionOptions,
   MappedTable,
+  MapResult,
+  Diagnostic,
+  ParseResult,
+  SchemaChange,
 } from "./types.js";
-import { parse as _parse } from "./parser.js";
-import { map as _map } from "./mapping.js";
+import {
+  ParseError,
+  type ParseOutcome,
+  parseSchemaChange as _parseSchemaChange,
+  parseWithErrors as _parseWithErrors,
+} from "./parser.js";
+import { applySchemaChange } from "./alter.js";
+import {
+  map as _map,
+  mapWithDiagnostics as _mapWithDiagnostics,
+} from "./mapping.js";
 import { emit as _emit } from "./emitter.js";
 import { emitJsonSchema as _emitJsonSchema } from "./json-schema.js";
 import { assert } from "./ast-utils.js";
+import { ddlLexer, STATEMENT_SEPARATORS } from "./tokens.js";
 
 /** Maximum DDL input length for safety. */
 const MAX_DDL_LENGTH = 10_000_000; // 10MB
@@ -35,25 +70,53 @@ const MAX_TABLES = 1000;
 /** Maximum statement head length for pattern matching. */
 const MAX_HEAD_LENGTH = 200;
 
+/** Single DDL statement with its position in the original input. */
+interface DdlStatement {
+  readonly text: string;
+  /** Offset of the statement's first character in the input. */
+  readonly offset: number;
+  /** Zero-based index among all statements in the input. */
+  readonly index: number;
+}
+
 /**
  * Parse ClickHouse DDL into table AST array with safety bounds.
- * Filters and splits DDL statements, then parses each valid CREATE statement.
- * Uses explicit limits and error recovery for robust processing.
+ * Statements that fail to parse are skipped; use parseWithDiagnostics to see why.
  * @param {string} ddl - Raw DDL string to parse
  * @returns {readonly TableAst[]} Array of parsed table AST nodes
  * @throws {Error} When DDL is invalid or exceeds safety limits
  */
 export function parse(ddl: string): readonly TableAst[] {
+  return parseWithDiagnostics(ddl).tables;
+}
+
+/**
+ * Parse ClickHouse DDL into table ASTs and report problems as diagnostics.
+ * Splits DDL on top-level semicolons, filters unsupported statements,
+ * then parses each valid CREATE statement. ALTER TABLE, RENAME TABLE and
+ * DROP TABLE statements are replayed in order onto the tables created so
+ * far. Failed statements are skipped and reported with their statement
+ * index, line, column and token.
+ * @param {string} ddl - Raw DDL string to parse
+ * @param {readonly TableAst[]} [baseTables] - Tables from earlier inputs,
+ *   e.g. previous migration files, that statements may alter
+ * @returns {ParseResult} Resulting tables, including the base tables, and diagnostics
+ * @throws {Error} When DDL is invalid or exceeds safety limits
+ */
+export function parseWithDiagnostics(
+  ddl: string,
+  baseTables: readonly TableAst[] = [],
+): ParseResult {
   validateDdlInput(ddl);
+  assert(Array.isArray(baseTables), "Base tables must be array");
 
-  const filteredDdl = filterStatements(ddl);
-  const statements = splitStatements(filteredDdl);
+  const statements = filterStatements(ddl);
 
   if (statements.length === 0) {
-    return [] as const;
+    return { tables: baseTables, diagnostics: [] };
   }
 
-  return parseStatements(statements);
+  return parseStatements(ddl, statements, baseTables);
 }
 
 /**
@@ -67,15 +130,40 @@ export { mapTypeAstToTs } from "./mapping.js";
  * Applies type mapping rules and naming conventions with validation.
  * @param {readonly TableAst[]} tables - Parsed table AST array
  * @param {MappingOptions} options - Mapping configuration options
+ * @param {EmissionOptions} [emission] - Emission options the tables will be
+ *   emitted with, deciding which generated names must not collide
  * @returns {readonly MappedTable[]} Array of mapped table structures
- * @throws {Error} When input is invalid or mapping fails
+ * @throws {Error} When input is invalid, mapping fails or two tables would
+ *   generate the same declaration
  */
 export function map(
   tables: readonly TableAst[],
   options: MappingOptions,
+  emission?: EmissionOptions,
 ): readonly MappedTable[] {
   validateMapInput(tables, options);
-  return _map(tables, options);
+  return _map(tables, options, emission);
+}
+
+/**
+ * Map parsed tables and report mapping problems as diagnostics.
+ * Tables with a generated name (interface, schema, row variant, ...) that
+ * collides with an earlier table or a helper type are skipped and reported
+ * instead of producing duplicate declarations.
+ * @param {readonly TableAst[]} tables - Parsed table AST array
+ * @param {MappingOptions} options - Mapping configuration options
+ * @param {EmissionOptions} [emission] - Emission options the tables will be
+ *   emitted with, so only the names generated are checked
+ * @returns {MapResult} Mapped tables and diagnostics
+ * @throws {Error} When input is invalid or mapping fails
+ */
+export function mapWithDiagnostics(
+  tables: readonly TableAst[],
+  options: MappingOptions,
+  emission?: EmissionOptions,
+): MapResult {
+  validateMapInput(tables, options);
+  return _mapWithDiagnostics(tables, options, emission);
 }
 
 /**
@@ -123,7 +211,7 @@ export function generateSource(
   validateGenerateSourceInput(ddl, mappingOptions, emissionOptions);
 
   const ast = parse(ddl);
-  const mapped = map(ast, mappingOptions);
+  const mapped = map(ast, mappingOptions, emissionOptions);
   return emit(mapped, emissionOptions);
 }
 
@@ -213,71 +301,227 @@ function validateGenerateSourceInput(
 
 /**
  * Parse array of DDL statements with error recovery.
- * Processes each statement individually, skipping failures to continue parsing.
- * @param {string[]} statements - Array of DDL statements to parse
- * @returns {readonly TableAst[]} Array of successfully parsed tables
+ * Processes each statement individually, recording failures as diagnostics.
+ * @param {string} ddl - Original DDL, used to resolve line and column
+ * @param {DdlStatement[]} statements - Statements to parse
+ * @param {readonly TableAst[]} baseTables - Tables that exist before the first statement
+ * @returns {ParseResult} Successfully parsed tables and diagnostics
  */
-function parseStatements(statements: string[]): readonly TableAst[] {
-  const tables: TableAst[] = [];
-  const statementCount = Math.min(statements.length, MAX_STATEMENTS);
-
-  for (let i = 0; i < statementCount; i++) {
-    const statement = statements[i];
-    if (statement && statement.length <= MAX_STATEMENT_LENGTH) {
-      try {
-        const parsedTables = _parse(statement);
-        if (parsedTables.length > 0) {
-          tables.push(...parsedTables);
-        }
-      } catch {
-        // Skip statements we can't parse (e.g., complex views)
-        // Error recovery: continue processing remaining statements
-        continue;
-      }
+function parseStatements(
+  ddl: string,
+  statements: DdlStatement[],
+  baseTables: readonly TableAst[],
+): ParseResult {
+  let tables: TableAst[] = [...baseTables];
+  const diagnostics: Diagnostic[] = [];
+
+  for (const statement of statements) {
+    if (statement.text.length > MAX_STATEMENT_LENGTH) {
+      diagnostics.push({
+        severity: "warning",
+        message: `Statement exceeds ${MAX_STATEMENT_LENGTH} characters and was skipped`,
+        statementIndex: statement.index,
+        ...locateOffset(ddl, statement.offset),
+      });
+      continue;
+    }
+
+    if (isSchemaChange(extractStatementHead(statement.text))) {
+      const result = replaySchemaChange(ddl, statement, tables);
+      tables = [...result.tables];
+      diagnostics.push(...result.diagnostics);
+      continue;
     }
+
+    const result = parseCreateStatement(ddl, statement);
+    tables.push(...result.tables);
+    diagnostics.push(...result.diagnostics);
+  }
+
+  return { tables, diagnostics };
+}
+
+/**
+ * Parse a CREATE statement. Errors the parser throws instead of recovering
+ * from, such as exceeding its token limit, become an error diagnostic for
+ * this statement so the rest of the input is still parsed.
+ * @param {string} ddl - Original DDL input
+ * @param {DdlStatement} statement - Statement to parse
+ * @returns {ParseResult} Tables of the statement and diagnostics
+ */
+function parseCreateStatement(
+  ddl: string,
+  statement: DdlStatement,
+): ParseResult {
+  let outcome: ParseOutcome;
+  try {
+    outcome = _parseWithErrors(addSemicolon(statement.text));
+  } catch (error) {
+    const parseError =
+      error instanceof ParseError
+        ? error
+        : new ParseError(
+            error instanceof Error ? error.message : String(error),
+          );
+    return {
+      tables: [],
+      diagnostics: [createParseDiagnostic(ddl, statement, parseError)],
+    };
   }
 
-  return tables;
+  const firstLine = locateOffset(ddl, statement.offset).line;
+  return {
+    // Parser lines are relative to the statement text
+    tables: outcome.tables.map((table) => ({
+      ...table,
+      line: firstLine + (table.line ?? 1) - 1,
+    })),
+    diagnostics: outcome.errors.map((error) =>
+      createParseDiagnostic(ddl, statement, error),
+    ),
+  };
 }
 
 /**
- * Filter DDL input to keep only parseable CREATE statements.
- * Removes unsupported statement types and routing materialized views.
+ * Parse an ALTER, RENAME or DROP statement and apply it to the tables.
+ * Warnings are positioned at the statement; parse failures at their token.
+ * @param {string} ddl - Original DDL input
+ * @param {DdlStatement} statement - Statement to replay
+ * @param {readonly TableAst[]} tables - Tables before the statement
+ * @returns {ParseResult} Tables after the statement and diagnostics
+ */
+function replaySchemaChange(
+  ddl: string,
+  statement: DdlStatement,
+  tables: readonly TableAst[],
+): ParseResult {
+  let change: SchemaChange;
+  try {
+    change = _parseSchemaChange(statement.text);
+  } catch (error) {
+    const parseError =
+      error instanceof ParseError ? error : new ParseError(String(error));
+    return {
+      tables,
+      diagnostics: [createParseDiagnostic(ddl, statement, parseError)],
+    };
+  }
+
+  const result = applySchemaChange(tables, change);
+  const position = locateOffset(ddl, statement.offset);
+  return {
+    tables: result.tables,
+    diagnostics: result.diagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      statementIndex: statement.index,
+      ...position,
+    })),
+  };
+}
+
+/**
+ * Convert a parser error into a diagnostic positioned in the original DDL.
+ * @param {string} ddl - Original DDL input
+ * @param {DdlStatement} statement - Statement the error occurred in
+ * @param {ParseError} error - Error raised by the parser
+ * @returns {Diagnostic} Error diagnostic
+ */
+function createParseDiagnostic(
+  ddl: string,
+  statement: DdlStatement,
+  error: ParseError,
+): Diagnostic {
+  const tokenOffset = error.token?.startOffset ?? 0;
+  return {
+    severity: "error",
+    message: error.message,
+    statementIndex: statement.index,
+    token: error.token?.image,
+    ...locateOffset(ddl, statement.offset + tokenOffset),
+  };
+}
+
+/**
+ * Resolve a character offset to a one-based line and column.
+ * @param {string} text - Text the offset points into
+ * @param {number} offset - Zero-based character offset
+ * @returns {{ line: number; column: number }} One-based position
+ */
+function locateOffset(
+  text: string,
+  offset: number,
+): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: offset - lineStart + 1,
+  };
+}
+
+/**
+ * Filter DDL input to keep only parseable CREATE statements and the
+ * ALTER, RENAME and DROP statements that change them.
  * Uses bounded string operations for safety.
  * @param {string} input - Raw DDL input string
- * @returns {string} Filtered DDL with only supported statements
+ * @returns {DdlStatement[]} Supported statements without trailing semicolons
  */
-function filterStatements(input: string): string {
-  const parts = splitDdlBysemicolon(input);
-  const filteredParts = filterSupportedStatements(parts);
-
-  return filteredParts.length > 0 ? filteredParts.join(";\n") + ";" : "";
+function filterStatements(input: string): DdlStatement[] {
+  const parts = splitDdlBySemicolon(input);
+  return filterSupportedStatements(parts);
 }
 
 /**
- * Split DDL input by semicolon with bounds checking.
+ * Split DDL input on top-level semicolons using the DDL lexer.
+ * Semicolons inside string literals and comments never become `Semi` tokens,
+ * so they cannot end a statement. Leading comments are dropped from each part.
  * @param {string} input - DDL input to split
- * @returns {string[]} Array of statement parts
+ * @returns {DdlStatement[]} Array of statement parts
  */
-function splitDdlBysemicolon(input: string): string[] {
-  return input
-    .split(/;/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+function splitDdlBySemicolon(input: string): DdlStatement[] {
+  const lex = ddlLexer.tokenize(input);
+  const separators = lex.groups[STATEMENT_SEPARATORS] ?? [];
+  const tokens = lex.tokens;
+  const parts: DdlStatement[] = [];
+  let start = 0;
+  let tokenIndex = 0;
+
+  for (let i = 0; i <= separators.length; i++) {
+    const end = separators[i]?.startOffset ?? input.length;
+
+    // First significant token of this part (skips comments and whitespace)
+    while (
+      tokenIndex < tokens.length &&
+      tokens[tokenIndex]!.startOffset < start
+    ) {
+      tokenIndex++;
+    }
+    const first = tokens[tokenIndex];
+    if (first && first.startOffset < end) {
+      const text = input.slice(first.startOffset, end).trim();
+      if (isNonEmptyStatement(text)) {
+        parts.push({ text, offset: first.startOffset, index: parts.length });
+      }
+    }
+
+    start = end + 1;
+  }
+
+  return parts;
 }
 
 /**
  * Filter statement parts to keep only supported types.
- * @param {string[]} parts - Statement parts to filter
- * @returns {string[]} Array of supported statements
+ * @param {DdlStatement[]} parts - Statement parts to filter
+ * @returns {DdlStatement[]} Array of supported statements
  */
-function filterSupportedStatements(parts: string[]): string[] {
-  const kept: string[] = [];
+function filterSupportedStatements(parts: DdlStatement[]): DdlStatement[] {
+  const kept: DdlStatement[] = [];
   const partCount = Math.min(parts.length, MAX_STATEMENTS);
 
   for (let i = 0; i < partCount; i++) {
     const statement = parts[i];
-    if (statement && shouldKeepStatement(statement)) {
+    if (statement && shouldKeepStatement(statement.text)) {
       kept.push(statement);
     }
   }
@@ -287,23 +531,26 @@ function filterSupportedStatements(parts: string[]): string[] {
 
 /**
  * Determine if statement should be kept for parsing.
+ * Other CREATE statements (DATABASE, FUNCTION, DICTIONARY, USER, ...) are
+ * skipped like any other statement without tables to type.
  * @param {string} statement - Statement to evaluate
  * @returns {boolean} True if statement should be parsed
  */
 function shouldKeepStatement(statement: string): boolean {
   const head = extractStatementHead(statement);
+  return isCreateTable(head) || isSchemaChange(head);
+}
 
-  // Skip regular views entirely
-  if (isRegularView(head)) {
-    return false;
-  }
-
-  // Handle materialized views with routing
-  if (isMaterializedView(head)) {
-    return !isRoutingMaterializedView(statement);
-  }
-
-  return true;
+/**
+ * Check if statement creates a table or view.
+ * @param {string} head - Statement head to check
+ * @returns {boolean} True for CREATE [OR REPLACE] [TEMPORARY] TABLE, VIEW
+ *   and MATERIALIZED VIEW
+ */
+function isCreateTable(head: string): boolean {
+  return /^create\s+(?:or\s+replace\s+)?(?:temporary\s+)?(?:table|view|materialized\s+view)\b/.test(
+    head,
+  );
 }
 
 /**
@@ -317,56 +564,12 @@ function extractStatementHead(statement: string): string {
 }
 
 /**
- * Check if statement is a regular view.
- * @param {string} head - Statement head to check
- * @returns {boolean} True if regular view
- */
-function isRegularView(head: string): boolean {
-  return /^create\s+view/.test(head);
-}
-
-/**
- * Check if statement is a materialized view.
+ * Check if statement changes existing tables.
  * @param {string} head - Statement head to check
- * @returns {boolean} True if materialized view
- */
-function isMaterializedView(head: string): boolean {
-  return /^create\s+materialized\s+view/.test(head);
-}
-
-/**
- * Check if materialized view has routing (TO or FOR clause).
- * @param {string} statement - Full statement to check
- * @returns {boolean} True if has routing clauses
- */
-function isRoutingMaterializedView(statement: string): boolean {
-  const lowerStatement = statement.toLowerCase();
-  return (
-    /(\s|\))to\s+/.test(lowerStatement) || /(\s|\))for\s+/.test(lowerStatement)
-  );
-}
-
-/**
- * Split filtered DDL into individual statements.
- * Adds semicolon to each statement and filters empty ones.
- * @param {string} input - Filtered DDL input
- * @returns {string[]} Array of individual statements
- */
-function splitStatements(input: string): string[] {
-  return input
-    .split(/;/)
-    .map(trimStatement)
-    .filter(isNonEmptyStatement)
-    .map(addSemicolon);
-}
-
-/**
- * Trim whitespace from statement.
- * @param {string} statement - Statement to trim
- * @returns {string} Trimmed statement
+ * @returns {boolean} True for ALTER TABLE, RENAME TABLE and DROP TABLE|VIEW
  */
-function trimStatement(statement: string): string {
-  return statement.trim();
+function isSchemaChange(head: string): boolean {
+  return /^(?:(?:alter|rename)\s+table|drop\s+(?:table|view))\b/.test(head);
 }
 
 /**
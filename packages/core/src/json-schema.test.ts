@@ -26,4 +26,148 @@ describe("JSON Schema emission", () => {
     const golden = readFileSync(goldenSchemaPath, "utf8");
     expect(json.trim()).toBe(golden.trim());
   });
+
+  it("emits named tuples as objects and unnamed tuples as prefixItems", () => {
+    const ddl = `CREATE TABLE t (
+      point Tuple(price Float64, qty UInt32),
+      pair Tuple(String, UInt8)
+    );`;
+    const tables = map(parse(ddl), { ...baseMap, tupleAs: "array" });
+    const schema = JSON.parse(emitJsonSchema(tables));
+    const properties = schema.properties;
+    expect(properties.point).toEqual({
+      type: "object",
+      properties: { price: { type: "number" }, qty: { type: "number" } },
+      additionalProperties: false,
+    });
+    expect(properties.pair).toEqual({
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+  });
+
+  it("emits array-of-object Nested columns", () => {
+    const ddl = `CREATE TABLE t (n Nested(a String, b UInt32));`;
+    const tables = map(parse(ddl), { ...baseMap, nestedAs: "array" });
+    const schema = JSON.parse(emitJsonSchema(tables));
+    expect(schema.properties.n).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: { a: { type: "string" }, b: { type: "number" } },
+        additionalProperties: false,
+      },
+    });
+  });
+
+  it("carries the table comment as description", () => {
+    const ddl = `CREATE TABLE t (x UInt8) ENGINE = Memory COMMENT 'Raw swaps';`;
+    const schema = JSON.parse(emitJsonSchema(map(parse(ddl), baseMap)));
+    expect(schema.description).toBe("Raw swaps");
+  });
+
+  it("adds validation keywords for CHECK constraints", () => {
+    const ddl = `CREATE TABLE t (
+      qty UInt32, ratio Nullable(Float64), code String, tags Array(String),
+      CONSTRAINT c1 CHECK qty > 0 AND ratio BETWEEN 0 AND 1,
+      CONSTRAINT c2 CHECK length(code) <= 8 AND length(tags) >= 1
+    ) ENGINE = Memory`;
+    const schema = JSON.parse(emitJsonSchema(map(parse(ddl), baseMap)));
+    expect(schema.properties.qty).toEqual({
+      type: "number",
+      exclusiveMinimum: 0,
+    });
+    expect(schema.properties.ratio).toEqual({
+      anyOf: [{ type: "number", minimum: 0, maximum: 1 }, { type: "null" }],
+    });
+    expect(schema.properties.code).toEqual({ type: "string", maxLength: 8 });
+    expect(schema.properties.tags).toEqual({
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+    });
+  });
+
+  it("emits JSON paths as open objects and Variant as oneOf", () => {
+    const ddl = `CREATE TABLE t (
+      payload JSON(user.id UInt32, tags Array(String)),
+      value Variant(String, UInt8),
+      legacy Object('json')
+    ) ENGINE = Memory`;
+    const schema = JSON.parse(emitJsonSchema(map(parse(ddl), baseMap)));
+    expect(schema.properties.payload).toEqual({
+      type: "object",
+      properties: {
+        user: {
+          type: "object",
+          properties: { id: { type: "number" } },
+          required: ["id"],
+          additionalProperties: true,
+        },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["user", "tags"],
+      additionalProperties: true,
+    });
+    expect(schema.properties.value).toEqual({
+      oneOf: [{ type: "string" }, { type: "number" }, { type: "null" }],
+    });
+    expect(schema.properties.legacy).toEqual({ type: "object" });
+  });
+
+  it("emits geo types as nested point arrays or GeoJSON objects", () => {
+    const ddl = `CREATE TABLE t (loc Point, route LineString) ENGINE = Memory`;
+    const point = {
+      type: "array",
+      prefixItems: [{ type: "number" }, { type: "number" }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    };
+    const tuples = JSON.parse(emitJsonSchema(map(parse(ddl), baseMap)));
+    expect(tuples.properties.loc).toEqual(point);
+    expect(tuples.properties.route).toEqual({ type: "array", items: point });
+
+    const geoJson = JSON.parse(
+      emitJsonSchema(map(parse(ddl), { ...baseMap, geoAs: "geojson" })),
+    );
+    expect(geoJson.properties.route).toEqual({
+      type: "object",
+      properties: {
+        type: { const: "LineString" },
+        coordinates: { type: "array", items: point },
+      },
+      required: ["type", "coordinates"],
+    });
+  });
+
+  it("emits enums as their keys or, typed by value, as integers", () => {
+    const ddl = `CREATE TABLE t (e Enum8('down' = -1, 'up' = 1)) ENGINE = Memory`;
+    const keys = JSON.parse(emitJsonSchema(map(parse(ddl), baseMap)));
+    expect(keys.properties.e).toEqual({ type: "string", enum: ["down", "up"] });
+
+    const values = JSON.parse(
+      emitJsonSchema(map(parse(ddl), { ...baseMap, enumAs: "number" })),
+    );
+    expect(values.properties.e).toEqual({ type: "integer", enum: [-1, 1] });
+  });
+
+  it("restricts the property names of Map columns by key type", () => {
+    const ddl = `CREATE TABLE t (
+      by_status Map(Enum8('a' = 1, 'b' = 2), UInt8),
+      by_id Map(UInt64, UInt8),
+      tags Map(String, UInt8)
+    ) ENGINE = Memory`;
+    const schema = JSON.parse(emitJsonSchema(map(parse(ddl), baseMap)));
+    expect(schema.properties.byStatus.propertyNames).toEqual({
+      enum: ["a", "b"],
+    });
+    expect(schema.properties.byId.propertyNames).toEqual({
+      pattern: "^-?\\d+$",
+    });
+    expect(schema.properties.tags.propertyNames).toBeUndefined();
+  });
 });
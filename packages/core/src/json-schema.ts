@@ -1,10 +1,28 @@
-import type { MappedTable, TypeAst, TypeArg, EnumMember } from "./types.js";
+import type {
+  ColumnChecks,
+  MappedTable,
+  TypeAst,
+  TypeArg,
+  EnumMember,
+} from "./types.js";
 import {
   assert,
   firstTypeArg,
+  GEO_TYPES,
+  geoDepth,
+  INTEGER_KEY_PATTERN,
+  isEnumMember,
+  isIntervalType,
+  isJsonPathTree,
+  isTypedByEnumValues,
+  isTypeAst,
+  jsonPathTree,
+  mapKey,
   secondTypeArg,
   toTypeOrUnknown,
+  type JsonPathTree,
 } from "./ast-utils.js";
+import { aggregateFunctionState } from "./functions.js";
 
 /** Maximum number of tables to process for safety. */
 const MAX_TABLES = 100;
@@ -163,7 +181,10 @@ function formatJsonSchema(schema: any): string {
 function createBaseSchema(table: MappedTable): Record<string, unknown> {
   return {
     $schema: "https://json-schema.org/draft/2020-12/schema",
-    title: table.interfaceName,
+    title: table.namespace
+      ? `${table.namespace}.${table.interfaceName}`
+      : table.interfaceName,
+    ...(table.meta?.comment ? { description: table.meta.comment } : {}),
     type: "object",
   };
 }
@@ -180,17 +201,59 @@ function generateColumnProperties(columns: any[]): Record<string, unknown> {
   for (let i = 0; i < columnCount; i++) {
     const column = columns[i];
     if (column && column.name) {
-      properties[column.name] = jsonSchemaForType(
-        column.typeAst,
-        column.tsType,
-        0,
-      );
+      const schema = jsonSchemaForType(column.typeAst, column.tsType, 0);
+      properties[column.name] = column.checks
+        ? applyColumnChecks(schema, column.checks)
+        : schema;
     }
   }
 
   return properties;
 }
 
+/**
+ * Add the bounds from a column's CHECK constraints as validation keywords.
+ * Nullable columns get them on their non-null branch.
+ * @param {Record<string, unknown>} schema - Schema of the column type
+ * @param {ColumnChecks} checks - Bounds to apply
+ * @returns {Record<string, unknown>} Schema with minimum/maximum, length or item limits
+ */
+function applyColumnChecks(
+  schema: Record<string, unknown>,
+  checks: ColumnChecks,
+): Record<string, unknown> {
+  if (Array.isArray(schema["anyOf"])) {
+    const branches = schema["anyOf"] as Record<string, unknown>[];
+    return {
+      ...schema,
+      anyOf: branches.map((branch) =>
+        branch["type"] === "null" ? branch : applyColumnChecks(branch, checks),
+      ),
+    };
+  }
+
+  const type = schema["type"];
+  let keywords: Record<string, number | undefined> = {};
+  if (type === "number" || type === "integer") {
+    keywords = {
+      minimum: checks.minimum,
+      exclusiveMinimum: checks.exclusiveMinimum,
+      maximum: checks.maximum,
+      exclusiveMaximum: checks.exclusiveMaximum,
+    };
+  } else if (type === "string") {
+    keywords = { minLength: checks.minLength, maxLength: checks.maxLength };
+  } else if (type === "array") {
+    keywords = { minItems: checks.minLength, maxItems: checks.maxLength };
+  }
+
+  const result = { ...schema };
+  for (const [keyword, value] of Object.entries(keywords)) {
+    if (value !== undefined) result[keyword] = value;
+  }
+  return result;
+}
+
 /**
  * Extract required field names from columns.
  * @param {Array} columns - Table columns
@@ -275,20 +338,44 @@ function mapTypeToJsonSchema(
     case "Nullable":
       return mapNullableSchema(type, resolvedTs, depth);
     case "LowCardinality":
+    case "SimpleAggregateFunction":
       return mapLowCardinalitySchema(type, resolvedTs, depth);
+    case "AggregateFunction":
+      return mapAggregateFunctionSchema(type, resolvedTs, depth);
     case "Array":
       return mapArraySchema(type, resolvedTs, depth);
     case "Tuple":
       return mapTupleSchema(type, resolvedTs, depth);
+    case "Nested":
+      return { type: "array", items: mapTupleSchema(type, resolvedTs, depth) };
     case "Map":
       return mapMapSchema(type, resolvedTs, depth);
+    case "JSON":
+    case "Object":
+      return mapJsonSchema(type, resolvedTs, depth);
+    case "Variant":
+      return mapVariantSchema(type, resolvedTs, depth);
+    case "Dynamic":
+      return { type: ["string", "number", "boolean", "null", "array", "object"] };
+    case "Point":
+    case "Ring":
+    case "LineString":
+    case "MultiLineString":
+    case "Polygon":
+    case "MultiPolygon":
+      return mapGeoSchema(typeName, resolvedTs);
     case "Enum8":
     case "Enum16":
-      return mapEnumSchema(type);
+      return mapEnumSchema(type, resolvedTs);
     case "Decimal":
+    case "Decimal32":
+    case "Decimal64":
+    case "Decimal128":
+    case "Decimal256":
       return createStringSchema();
     case "Float32":
     case "Float64":
+    case "BFloat16":
     case "Int8":
     case "Int16":
     case "Int32":
@@ -298,19 +385,32 @@ function mapTypeToJsonSchema(
       return createNumberSchema();
     case "Int64":
     case "UInt64":
+    case "Int128":
+    case "UInt128":
+    case "Int256":
+    case "UInt256":
       return mapBigIntSchema(resolvedTs);
+    case "Bool":
+      return { type: "boolean" };
     case "String":
     case "UUID":
     case "FixedString":
     case "IPv4":
     case "IPv6":
+    case "Time":
+    case "Time64":
       return createStringSchema();
     case "Date":
+    case "Date32":
     case "DateTime":
     case "DateTime64":
       return mapDateTimeSchema(resolvedTs);
+    case "Nothing":
+      return { not: {} };
     default:
-      return createUnknownSchema();
+      return isIntervalType(typeName)
+        ? mapBigIntSchema(resolvedTs)
+        : createUnknownSchema();
   }
 }
 
@@ -349,6 +449,26 @@ function mapLowCardinalitySchema(
   return jsonSchemaForType(inner, resolvedTs, depth + 1);
 }
 
+/**
+ * Map AggregateFunction to a string for opaque states, or to the schema of
+ * the merged type when columns are emitted merged.
+ * @param {TypeAst} type - AggregateFunction type
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {Record<string, unknown>} State or merged type schema
+ */
+function mapAggregateFunctionSchema(
+  type: TypeAst,
+  resolvedTs: string,
+  depth: number,
+): Record<string, unknown> {
+  const merged = aggregateFunctionState(type)?.merged;
+  if (!merged || resolvedTs.includes("AggregateState<")) {
+    return createStringSchema();
+  }
+  return jsonSchemaForType(merged, resolvedTs, depth + 1);
+}
+
 /**
  * Map Array(T) to array schema with items.
  * @param {TypeAst} type - Array type
@@ -370,26 +490,42 @@ function mapArraySchema(
 }
 
 /**
- * Map Tuple(T1,T2,...) to object schema with indexed properties.
+ * Map Tuple(T1,T2,...) to object schema with named or indexed properties.
+ * Unnamed tuples whose resolved type is a TS tuple become `prefixItems` arrays.
  * @param {TypeAst} type - Tuple type
  * @param {string} resolvedTs - Resolved TypeScript type
  * @param {number} depth - Current recursion depth
- * @returns {Record<string, unknown>} Object schema with tuple properties
+ * @returns {Record<string, unknown>} Object or array schema for the tuple
  */
 function mapTupleSchema(
   type: TypeAst,
   resolvedTs: string,
   depth: number,
 ): Record<string, unknown> {
-  const properties: Record<string, unknown> = {};
+  const elements: Record<string, unknown>[] = [];
   const elementCount = Math.min(type.args.length, MAX_TUPLE_ELEMENTS);
 
   for (let i = 0; i < elementCount; i++) {
     const arg = type.args[i];
     const argType = toTypeOrUnknown(arg);
-    properties[`_${i}`] = jsonSchemaForType(argType, resolvedTs, depth + 1);
+    elements.push(jsonSchemaForType(argType, resolvedTs, depth + 1));
   }
 
+  if (!type.elementNames && !/\b_0: /.test(resolvedTs)) {
+    return {
+      type: "array",
+      prefixItems: elements,
+      items: false,
+      minItems: elements.length,
+      maxItems: elements.length,
+    };
+  }
+
+  const properties: Record<string, unknown> = {};
+  elements.forEach((schema, i) => {
+    properties[type.elementNames?.[i] ?? `_${i}`] = schema;
+  });
+
   return {
     type: "object",
     properties,
@@ -398,7 +534,8 @@ function mapTupleSchema(
 }
 
 /**
- * Map Map(K,V) to object schema with additionalProperties.
+ * Map Map(K,V) to object schema with additionalProperties. Enum and
+ * integer keys restrict the property names.
  * @param {TypeAst} type - Map type
  * @param {string} resolvedTs - Resolved TypeScript type
  * @param {number} depth - Current recursion depth
@@ -411,18 +548,155 @@ function mapMapSchema(
 ): Record<string, unknown> {
   const valueType = secondTypeArg(type);
   const valueSchema = jsonSchemaForType(valueType, resolvedTs, depth + 1);
+  const propertyNames = mapKeySchema(type, resolvedTs);
   return {
     type: "object",
+    ...(propertyNames ? { propertyNames } : {}),
     additionalProperties: valueSchema,
   };
 }
 
 /**
- * Map Enum8/Enum16 to string schema with enum constraint.
+ * Map the key of a Map(K,V) to a schema of its JSON object keys.
+ * @param {TypeAst} type - Map type
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @returns {Record<string, unknown> | undefined} Key schema, or undefined
+ *   when any string is a key
+ */
+function mapKeySchema(
+  type: TypeAst,
+  resolvedTs: string,
+): Record<string, unknown> | undefined {
+  const key = mapKey(type);
+  if (key.kind === "integer") return { pattern: INTEGER_KEY_PATTERN };
+  if (key.kind === "string") return undefined;
+  if (!isTypedByEnumValues(key.type, resolvedTs)) {
+    return { enum: extractEnumKeysForSchema(key.type.args) };
+  }
+  const values = key.type.args
+    .slice(0, MAX_ENUM_KEYS)
+    .filter(isEnumMember)
+    .map((member) => String(member.value));
+  return { enum: values };
+}
+
+/**
+ * Map JSON to an object schema of its typed paths, nested by segment, that
+ * allows other paths.
+ * @param {TypeAst} type - JSON or Object type
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {Record<string, unknown>} Object schema definition
+ */
+function mapJsonSchema(
+  type: TypeAst,
+  resolvedTs: string,
+  depth: number,
+): Record<string, unknown> {
+  const tree = type.name === "JSON" ? jsonPathTree(type) : new Map();
+  if (tree.size === 0) return { type: "object" };
+  return mapJsonPathsSchema(tree, resolvedTs, depth);
+}
+
+/**
+ * Map one level of JSON typed paths to an object schema.
+ * @param {JsonPathTree} tree - Typed paths below this level
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {Record<string, unknown>} Object schema definition
+ */
+function mapJsonPathsSchema(
+  tree: JsonPathTree,
+  resolvedTs: string,
+  depth: number,
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const [segment, node] of tree) {
+    properties[segment] = isJsonPathTree(node)
+      ? mapJsonPathsSchema(node, resolvedTs, depth + 1)
+      : jsonSchemaForType(node, resolvedTs, depth + 1);
+  }
+  return {
+    type: "object",
+    properties,
+    required: [...tree.keys()],
+    additionalProperties: true,
+  };
+}
+
+/**
+ * Map a geo type to nested arrays of `[x, y]` points, or to a GeoJSON
+ * geometry object when the resolved type is a GeoJSON alias.
+ * @param {string} name - Geo type name
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @returns {Record<string, unknown>} Array or object schema definition
+ */
+function mapGeoSchema(
+  name: string,
+  resolvedTs: string,
+): Record<string, unknown> {
+  let coordinates: Record<string, unknown> = {
+    type: "array",
+    prefixItems: [{ type: "number" }, { type: "number" }],
+    items: false,
+    minItems: 2,
+    maxItems: 2,
+  };
+  for (let i = 0; i < geoDepth(name); i++) {
+    coordinates = { type: "array", items: coordinates };
+  }
+  if (!resolvedTs.includes("GeoJson")) return coordinates;
+  return {
+    type: "object",
+    properties: {
+      type: { const: GEO_TYPES.get(name)?.geoJson ?? name },
+      coordinates,
+    },
+    required: ["type", "coordinates"],
+  };
+}
+
+/**
+ * Map Variant(T1, T2, ...) to oneOf its types or null.
+ * @param {TypeAst} type - Variant type
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @param {number} depth - Current recursion depth
+ * @returns {Record<string, unknown>} oneOf schema definition
+ */
+function mapVariantSchema(
+  type: TypeAst,
+  resolvedTs: string,
+  depth: number,
+): Record<string, unknown> {
+  const schemas = new Map<string, Record<string, unknown>>();
+  for (const arg of type.args.filter(isTypeAst)) {
+    const schema = jsonSchemaForType(arg, resolvedTs, depth + 1);
+    schemas.set(JSON.stringify(schema), schema);
+  }
+  return {
+    oneOf: [...schemas.values(), { type: "null" }],
+  };
+}
+
+/**
+ * Map Enum8/Enum16 to string schema with enum constraint, or to an integer
+ * schema of its values when typed by them (`enumAs: "number"`).
  * @param {TypeAst} type - Enum type
- * @returns {Record<string, unknown>} String schema with enum values
+ * @param {string} resolvedTs - Resolved TypeScript type
+ * @returns {Record<string, unknown>} String or integer schema with enum values
  */
-function mapEnumSchema(type: TypeAst): Record<string, unknown> {
+function mapEnumSchema(
+  type: TypeAst,
+  resolvedTs: string,
+): Record<string, unknown> {
+  if (isTypedByEnumValues(type, resolvedTs)) {
+    const values = type.args
+      .slice(0, MAX_ENUM_KEYS)
+      .filter(isEnumMember)
+      .map((member) => member.value);
+    return { type: "integer", enum: values };
+  }
+
   const keys = extractEnumKeysForSchema(type.args);
 
   if (keys.length === 0) {
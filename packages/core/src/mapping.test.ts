@@ -1,5 +1,17 @@
 import { describe, expect, it } from "vitest";
-import { mapTypeAstToTs, type MappingOptions, type TypeAst } from "./index.js";
+import {
+  emitJsonSchema,
+  generateSource,
+  map,
+  mapTypeAstToTs,
+  mapWithDiagnostics,
+  parse,
+  type MappingOptions,
+  type TypeAst,
+} from "./index.js";
+import { formatTypeAst } from "./ast-utils.js";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
 
 const base: Omit<MappingOptions, "camelCase"> = {
   int64As: "bigint",
@@ -24,6 +36,12 @@ describe("type mapping", () => {
     expect(mapTypeAstToTs(t("Nullable", [t("UInt64")]), opts)).toBe(
       "bigint | null",
     );
+    expect(
+      mapTypeAstToTs(t("Array", [t("Nullable", [t("String")])]), opts),
+    ).toBe("(string | null)[]");
+    expect(mapTypeAstToTs(t("Variant", [t("String"), t("UInt8")]), opts)).toBe(
+      "string | number | null",
+    );
   });
 
   it("maps enums to string unions", () => {
@@ -44,6 +62,30 @@ describe("type mapping", () => {
     expect(mapTypeAstToTs(tt, opts)).toBe("{ _0: string; _1: number; }");
   });
 
+  it("maps named tuples to named properties", () => {
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const tt: TypeAst = {
+      ...t("Tuple", [t("Float64"), t("UInt32")]),
+      elementNames: ["price", "qty-total"],
+    };
+    expect(mapTypeAstToTs(tt, opts)).toBe(
+      '{ price: number; "qty-total": number; }',
+    );
+    expect(mapTypeAstToTs(tt, { ...opts, tupleAs: "array" })).toBe(
+      '{ price: number; "qty-total": number; }',
+    );
+  });
+
+  it("maps unnamed tuples to TS tuples when tupleAs is array", () => {
+    const opts: MappingOptions = {
+      ...base,
+      camelCase: false,
+      tupleAs: "array",
+    };
+    const tt = t("Tuple", [t("String"), t("UInt32")]);
+    expect(mapTypeAstToTs(tt, opts)).toBe("[string, number]");
+  });
+
   it("respects bigint and decimal.js presets", () => {
     const bigintOpts: MappingOptions = {
       ...base,
@@ -61,3 +103,426 @@ describe("type mapping", () => {
     );
   });
 });
+
+describe("scalar types", () => {
+  const allTypesPath = resolve(process.cwd(), "testdata/types/all_types.sql");
+  const opts: MappingOptions = { ...base, camelCase: false };
+
+  it("maps every type in the fixture in all emitters", () => {
+    const sql = readFileSync(allTypesPath, "utf8");
+    const { tables, diagnostics } = mapWithDiagnostics(parse(sql), opts);
+    expect(diagnostics).toEqual([]);
+    const columns = tables.flatMap((table) => table.columns);
+    expect(columns.map((c) => c.tsType)).not.toContain("unknown");
+
+    const source = generateSource(sql, opts, { emitZod: true });
+    expect(source).not.toContain("z.any()");
+    for (const table of tables) {
+      const schema = JSON.parse(emitJsonSchema([table]));
+      for (const property of Object.values(schema.properties)) {
+        expect(property).not.toEqual({});
+      }
+    }
+  });
+
+  it.each([
+    ["Int128", "Int128", "bigint"],
+    ["UInt256", "UInt256", "bigint"],
+    ["BFloat16", "BFloat16", "number"],
+    ["Decimal64(4)", "Decimal64(4)", "string"],
+    ["Bool", "Bool", "boolean"],
+    ["Date32", "Date32", "string"],
+    ["DateTime64(3, 'UTC')", "DateTime64(3,'UTC')", "string"],
+    ["Time64(3)", "Time64(3)", "string"],
+    ["Array(Nothing)", "Array(Nothing)", "never[]"],
+    ["BIGINT", "Int64", "bigint"],
+    ["TINYINT UNSIGNED", "UInt8", "number"],
+    ["DOUBLE PRECISION", "Float64", "number"],
+    ["VARCHAR(255)", "String", "string"],
+    ["national character varying", "String", "string"],
+    ["BOOLEAN", "Bool", "boolean"],
+    ["BINARY(16)", "FixedString(16)", "string"],
+    ["NUMERIC(10, 2)", "Decimal(10,2)", "string"],
+    [
+      "Tuple(INT UNSIGNED, text)",
+      "Tuple(UInt32,String)",
+      "{ _0: number; _1: string; }",
+    ],
+    ["uint64", "UInt64", "bigint"],
+  ])("maps %s as %s", (sqlType, chType, tsType) => {
+    const [table] = parse(`CREATE TABLE t (c ${sqlType})`);
+    const type = table!.columns[0]!.type;
+    expect(formatTypeAst(type)).toBe(chType);
+    expect(mapTypeAstToTs(type, opts)).toBe(tsType);
+  });
+
+  it("maps wide integers and intervals like Int64", () => {
+    const stringOpts: MappingOptions = { ...opts, int64As: "string" };
+    expect(mapTypeAstToTs(t("Int256"), stringOpts)).toBe("string");
+    expect(mapTypeAstToTs(t("IntervalSecond"), opts)).toBe("bigint");
+    expect(mapTypeAstToTs(t("IntervalMillisecond"), stringOpts)).toBe("string");
+  });
+});
+
+describe("geo types", () => {
+  const sql = `CREATE TABLE t (
+    loc Point, ring Ring, lines MultiLineString, areas Array(MultiPolygon)
+  )`;
+
+  it("maps geo types to their aliases", () => {
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "ChPoint",
+      "ChRing",
+      "ChMultiLineString",
+      "ChMultiPolygon[]",
+    ]);
+  });
+
+  it("maps geo types to GeoJSON geometries when geoAs is geojson", () => {
+    const opts: MappingOptions = {
+      ...base,
+      camelCase: false,
+      geoAs: "geojson",
+    };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "GeoJsonPoint",
+      "GeoJsonLineString",
+      "GeoJsonMultiLineString",
+      "GeoJsonMultiPolygon[]",
+    ]);
+  });
+});
+
+describe("enum columns", () => {
+  const sql = `CREATE TABLE events (
+    status Enum8('active' = 1, 'paused' = -1),
+    flags Array(Nullable(Enum('a', 'b')))
+  )`;
+
+  it("maps enums to the union of their values when enumAs is number", () => {
+    const opts: MappingOptions = {
+      ...base,
+      camelCase: false,
+      enumAs: "number",
+    };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "1 | -1",
+      "(1 | 2 | null)[]",
+    ]);
+  });
+
+  it("names each enum after its column when enumAs is const", () => {
+    const opts: MappingOptions = { ...base, camelCase: false, enumAs: "const" };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    const [status, flags] = tables[0]?.columns ?? [];
+    expect(status?.tsType).toBe("EventsStatus");
+    expect(status?.enums?.map((e) => e.name)).toEqual(["EventsStatus"]);
+    expect(flags?.tsType).toBe("(EventsFlags | null)[]");
+
+    const pair = parse("CREATE TABLE t (p Tuple(Enum8('x'), Enum8('y')))");
+    const { tables: pairs } = mapWithDiagnostics(pair, opts);
+    expect(pairs[0]?.columns[0]?.tsType).toBe("{ _0: TP1; _1: TP2; }");
+  });
+});
+
+describe("Map columns", () => {
+  const sql = `CREATE TABLE counts (
+    by_status Map(LowCardinality(Enum8('a' = 1, 'b' = 2)), UInt64),
+    by_id Map(UInt64, String),
+    tags Map(String, Nullable(String))
+  )`;
+
+  it("types keys by the JSON object keys ClickHouse returns", () => {
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "Partial<Record<'a' | 'b', bigint>>",
+      "Record<`${number}`, string>",
+      "Record<string, string | null>",
+    ]);
+  });
+
+  it("maps to JS Maps when mapAs is map", () => {
+    const opts: MappingOptions = { ...base, camelCase: false, mapAs: "map" };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "Map<'a' | 'b', bigint>",
+      "Map<bigint, string>",
+      "Map<string, string | null>",
+    ]);
+  });
+});
+
+describe("aggregate function columns", () => {
+  const sql = `CREATE TABLE daily (
+    day Date,
+    users AggregateFunction(uniq, String),
+    p90 AggregateFunction(quantiles(0.9), Float32),
+    custom AggregateFunction(myUdf, String),
+    total SimpleAggregateFunction(sum, UInt64)
+  ) ENGINE = AggregatingMergeTree ORDER BY day`;
+
+  it("maps states to branded strings and simple aggregates to their type", () => {
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "string",
+      "AggregateState<'uniq'>",
+      "AggregateState<'quantiles'>",
+      "AggregateState<'myUdf'>",
+      "bigint",
+    ]);
+    expect(tables[0]?.columns[2]?.merged?.tsType).toBe("number[]");
+  });
+
+  it("maps states to their merged types when aggregateStateAs is merged", () => {
+    const opts: MappingOptions = {
+      ...base,
+      camelCase: false,
+      aggregateStateAs: "merged",
+    };
+    const { tables } = mapWithDiagnostics(parse(sql), opts);
+    expect(tables[0]?.columns.map((c) => c.tsType)).toEqual([
+      "string",
+      "bigint",
+      "number[]",
+      "AggregateState<'myUdf'>",
+      "bigint",
+    ]);
+    expect(tables[0]?.columns.some((c) => c.merged)).toBe(false);
+  });
+});
+
+describe("database naming", () => {
+  const ddl = `
+    CREATE TABLE analytics.events (id UInt64);
+    CREATE TABLE raw.events (id UInt64);
+  `;
+
+  it("reports colliding names instead of duplicating them", () => {
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const { tables, diagnostics } = mapWithDiagnostics(parse(ddl), opts);
+    expect(tables.map((table) => table.interfaceName)).toEqual(["Events"]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        message:
+          "Type name 'Events' is already used by table 'analytics.events'; table skipped",
+        table: "raw.events",
+      },
+    ]);
+  });
+
+  it("reports collisions between generated names", () => {
+    const sql = `
+      CREATE TABLE foo (id UInt64);
+      CREATE TABLE foo_row (id UInt64);
+      CREATE TABLE click_house_dynamic (id UInt64);
+      CREATE TABLE payloads (body Dynamic);
+    `;
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const emission = { emitZod: true, emitRowTypes: true };
+    const { tables, diagnostics } = mapWithDiagnostics(
+      parse(sql),
+      opts,
+      emission,
+    );
+    expect(tables.map((table) => table.interfaceName)).toEqual([
+      "Foo",
+      "Payloads",
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Type name 'FooRow' is already used by table 'foo'; table skipped",
+      "Type name 'ClickHouseDynamic' is reserved for a generated helper type; table skipped",
+    ]);
+
+    const withoutRows = mapWithDiagnostics(parse(sql), opts, {
+      emitZod: true,
+    });
+    expect(withoutRows.tables.map((table) => table.interfaceName)).toEqual([
+      "Foo",
+      "FooRow",
+      "Payloads",
+    ]);
+    expect(() => map(parse(sql), opts, emission)).toThrow(
+      "Table 'foo_row': Type name 'FooRow' is already used by table 'foo'",
+    );
+  });
+
+  it("checks collisions only against names that are emitted", () => {
+    const sql = `
+      CREATE TABLE events (id UInt64);
+      CREATE TABLE events_row (id UInt64);
+      CREATE TABLE user_meta (id UInt64);
+      CREATE TABLE user (id UInt64);
+      CREATE TABLE i_pv4 (id UInt64);
+    `;
+    const opts: MappingOptions = { ...base, camelCase: false };
+    const tables = map(parse(sql), opts, { emitZod: false });
+    expect(tables.map((table) => table.interfaceName)).toEqual([
+      "Events",
+      "EventsRow",
+      "UserMeta",
+      "User",
+      "IPv4",
+    ]);
+    const source = generateSource(sql, opts, { emitZod: false });
+    expect(source).toContain("export interface EventsRow {");
+    expect(source).toContain("export interface User {");
+  });
+
+  it("prefixes the database", () => {
+    const opts: MappingOptions = {
+      ...base,
+      camelCase: false,
+      databaseNaming: "prefix",
+    };
+    const { tables, diagnostics } = mapWithDiagnostics(parse(ddl), opts);
+    expect(tables.map((table) => table.interfaceName)).toEqual([
+      "AnalyticsEvents",
+      "RawEvents",
+    ]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("groups tables by database namespace", () => {
+    const opts: MappingOptions = {
+      ...base,
+      camelCase: false,
+      databaseNaming: "namespace",
+    };
+    const { tables } = mapWithDiagnostics(parse(ddl), opts);
+    expect(
+      tables.map((table) => [table.namespace, table.interfaceName]),
+    ).toEqual([
+      ["Analytics", "Events"],
+      ["Raw", "Events"],
+    ]);
+  });
+});
+
+describe("Nested columns", () => {
+  const ddl = `CREATE TABLE t (id UInt64, n Nested(a String, b UInt32))`;
+  const opts: MappingOptions = { ...base, camelCase: false };
+
+  it("flattens Nested into parallel arrays by default", () => {
+    const [table] = mapWithDiagnostics(parse(ddl), opts).tables;
+    expect(table?.columns.map((c) => [c.name, c.chType, c.tsType])).toEqual([
+      ["id", "UInt64", "bigint"],
+      ["n.a", "Array(String)", "string[]"],
+      ["n.b", "Array(UInt32)", "number[]"],
+    ]);
+  });
+
+  it("maps Nested to an array of objects when nestedAs is array", () => {
+    const [table] = mapWithDiagnostics(parse(ddl), {
+      ...opts,
+      nestedAs: "array",
+    }).tables;
+    expect(table?.columns.map((c) => [c.name, c.tsType])).toEqual([
+      ["id", "bigint"],
+      ["n", "{ a: string; b: number; }[]"],
+    ]);
+  });
+});
+
+describe("source tables", () => {
+  const opts: MappingOptions = { ...base, camelCase: false };
+
+  it("inherits columns through AS clones and engine references", () => {
+    const ddl = `
+      CREATE TABLE db.events_local (id UInt64, name String) ENGINE = MergeTree ORDER BY id;
+      CREATE TABLE db.events_copy AS db.events_local ENGINE = MergeTree ORDER BY id;
+      CREATE TABLE db.events_dist AS events_copy ENGINE = Distributed(c, db, events_copy, rand());
+      CREATE TABLE db.events_all ENGINE = Distributed('c', currentDatabase(), 'events_dist');
+      CREATE TABLE db.events_buffer ENGINE = Buffer(db, events_local, 16, 10, 100, 1, 10, 1, 10);
+      CREATE TABLE db.events_merge ENGINE = Merge(db, '^events_l');
+    `;
+    const { tables, diagnostics } = mapWithDiagnostics(parse(ddl), opts);
+    expect(diagnostics).toEqual([]);
+    expect(
+      tables.map((table) => [
+        table.interfaceName,
+        table.columns.map((c) => c.name).join(","),
+      ]),
+    ).toEqual([
+      ["EventsLocal", "id,name"],
+      ["EventsCopy", "id,name"],
+      ["EventsDist", "id,name"],
+      ["EventsAll", "id,name"],
+      ["EventsBuffer", "id,name"],
+      ["EventsMerge", "id,name"],
+    ]);
+  });
+
+  it("reports a missing source table", () => {
+    const ddl = `CREATE TABLE dist ENGINE = Distributed(c, db, missing_local);`;
+    const { tables, diagnostics } = mapWithDiagnostics(parse(ddl), opts);
+    expect(tables[0]?.columns).toEqual([]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        message:
+          "Source table 'db.missing_local' was not found; no columns generated",
+        table: "dist",
+      },
+    ]);
+  });
+});
+
+describe("CHECK constraints", () => {
+  const opts: MappingOptions = { ...base, camelCase: true };
+
+  it("derives column bounds from simple comparisons", () => {
+    const ddl = `CREATE TABLE t (
+      amount Float64, total_qty UInt32, code String, tags Array(String), note String,
+      CONSTRAINT positive CHECK amount >= 0 AND 1000 > amount,
+      CONSTRAINT qty CHECK total_qty BETWEEN 1 AND 100,
+      CONSTRAINT code_len CHECK length(code) = 3,
+      CONSTRAINT some_tags CHECK length(tags) > 0,
+      CONSTRAINT either CHECK note = 1 OR note = 2,
+      CONSTRAINT hint ASSUME amount < 10
+    ) ENGINE = MergeTree ORDER BY amount`;
+    const [table] = mapWithDiagnostics(parse(ddl), opts).tables;
+    expect(table?.columns.map((c) => [c.name, c.checks])).toEqual([
+      ["amount", { minimum: 0, exclusiveMaximum: 1000 }],
+      ["totalQty", { minimum: 1, maximum: 100 }],
+      ["code", { minLength: 3, maxLength: 3 }],
+      ["tags", { minLength: 1 }],
+      ["note", undefined],
+    ]);
+  });
+
+  it("drops bounds the validators cannot enforce exactly", () => {
+    const sql = readFileSync(
+      resolve(process.cwd(), "testdata/checks/checks.sql"),
+      "utf8",
+    );
+    const { tables, diagnostics } = mapWithDiagnostics(parse(sql), opts);
+    const [table] = tables;
+    expect(table?.columns.map((c) => [c.name, c.checks])).toEqual([
+      ["price", { minimum: -5 }],
+      ["discount", { minimum: -0.5, maximum: 0.5 }],
+      ["amount", undefined],
+      ["qty", { minimum: 1 }],
+      ["u", undefined],
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "CHECK bound 'amount > 0.5' is not a whole number, but the column is Int64; bound dropped",
+      "CHECK bound 'qty < 10.5' is not a whole number, but the column is UInt32; bound dropped",
+      "CHECK bound 'u < 100000000000000000000' cannot be represented exactly as a number; bound dropped",
+    ]);
+
+    const schema = JSON.parse(emitJsonSchema(tables));
+    expect(schema.properties.price).toMatchObject({ minimum: -5 });
+    expect(schema.properties.amount).not.toHaveProperty("exclusiveMinimum");
+    expect(schema.properties.u).not.toHaveProperty("exclusiveMaximum");
+    const source = generateSource(sql, opts, { emitZod: true });
+    expect(source).toContain("price: z.number().gte(-5)");
+    expect(source).toContain("amount: z.bigint(),");
+  });
+});
@@ -1,18 +1,45 @@
 import type {
+  AggregateStateAst,
+  ColumnAst,
+  ColumnChecks,
+  ColumnKind,
+  Diagnostic,
+  EmissionOptions,
+  EngineArg,
+  LineageEdge,
+  MapResult,
   MappingOptions,
   MappedTable,
+  SelectItemAst,
+  SelectQueryAst,
+  SelectSourceAst,
   TableAst,
   TypeAst,
   TypeArg,
+  ViewParameterAst,
   EnumMember,
 } from "./types.js";
-import { toCamelCase, toPascalCase } from "./types.js";
+import { toCamelCase, toPascalCase, toPropertyKey } from "./types.js";
 import {
   assert,
   firstTypeArg,
+  formatTypeAst,
+  geoAlias,
+  GEO_TYPES,
+  isEnumMember,
+  isIntervalType,
+  isJsonPathTree,
+  isTypeAst,
+  jsonPathTree,
+  type JsonPathTree,
+  mapKey,
   secondTypeArg,
   toTypeOrUnknown,
 } from "./ast-utils.js";
+import { columnChecks, fitChecks } from "./checks.js";
+import { helperDeclarationNames } from "./emitter.js";
+import { inferExpressionType, parseExpression } from "./expressions.js";
+import { aggregateFunctionState } from "./functions.js";
 
 /** Maximum recursion depth for type mapping safety. */
 const MAX_TYPE_DEPTH = 20;
@@ -23,6 +50,33 @@ const MAX_ENUM_KEYS = 1000;
 /** Maximum number of tuple elements to process. */
 const MAX_TUPLE_ELEMENTS = 100;
 
+/** Maximum chain of AS/engine references followed to find a table's columns. */
+const MAX_SOURCE_DEPTH = 8;
+
+/** Maximum nesting of subqueries, CTEs and views followed to type a view column. */
+const MAX_QUERY_DEPTH = 8;
+
+/** Tables and CTEs visible while resolving a view query. */
+interface QueryScope {
+  readonly view: TableAst;
+  readonly tables: readonly TableAst[];
+  readonly ctes: ReadonlyMap<string, SelectQueryAst>;
+  readonly depth: number;
+}
+
+/** Resolved ClickHouse type with its source text. */
+interface ResolvedType {
+  readonly type: TypeAst;
+  readonly rawType: string;
+}
+
+/** Source of a column-less table: a named table or a Merge name pattern. */
+interface SourceReference {
+  readonly database?: string;
+  readonly name?: string;
+  readonly pattern?: string;
+}
+
 /**
  * Map a ClickHouse TypeAst to a TypeScript type string.
  * Converts ClickHouse types to TypeScript with configurable options and plugin support.
@@ -90,6 +144,50 @@ function validateMappingOptions(options: MappingOptions): void {
     options.datetimeAs === "string" || options.datetimeAs === "Date",
     "MappingOptions.datetimeAs must be 'string' or 'Date'",
   );
+  assert(
+    options.databaseNaming === undefined ||
+      options.databaseNaming === "ignore" ||
+      options.databaseNaming === "prefix" ||
+      options.databaseNaming === "namespace",
+    "MappingOptions.databaseNaming must be 'ignore', 'prefix' or 'namespace'",
+  );
+  assert(
+    options.tupleAs === undefined ||
+      options.tupleAs === "object" ||
+      options.tupleAs === "array",
+    "MappingOptions.tupleAs must be 'object' or 'array'",
+  );
+  assert(
+    options.nestedAs === undefined ||
+      options.nestedAs === "flatten" ||
+      options.nestedAs === "array",
+    "MappingOptions.nestedAs must be 'flatten' or 'array'",
+  );
+  assert(
+    options.aggregateStateAs === undefined ||
+      options.aggregateStateAs === "opaque" ||
+      options.aggregateStateAs === "merged",
+    "MappingOptions.aggregateStateAs must be 'opaque' or 'merged'",
+  );
+  assert(
+    options.geoAs === undefined ||
+      options.geoAs === "tuple" ||
+      options.geoAs === "geojson",
+    "MappingOptions.geoAs must be 'tuple' or 'geojson'",
+  );
+  assert(
+    options.enumAs === undefined ||
+      options.enumAs === "union" ||
+      options.enumAs === "const" ||
+      options.enumAs === "number",
+    "MappingOptions.enumAs must be 'union', 'const' or 'number'",
+  );
+  assert(
+    options.mapAs === undefined ||
+      options.mapAs === "record" ||
+      options.mapAs === "map",
+    "MappingOptions.mapAs must be 'record' or 'map'",
+  );
 }
 
 /**
@@ -134,20 +232,44 @@ function mapCoreType(
     case "Nullable":
       return mapNullableType(type, options, depth);
     case "LowCardinality":
+    case "SimpleAggregateFunction":
       return mapLowCardinalityType(type, options, depth);
+    case "AggregateFunction":
+      return mapAggregateFunctionType(type, options, depth);
     case "Array":
       return mapArrayType(type, options, depth);
     case "Tuple":
       return mapTupleType(type, options, depth);
+    case "Nested":
+      return `${mapTupleType(type, options, depth)}[]`;
     case "Map":
       return mapMapType(type, options, depth);
+    case "JSON":
+    case "Object":
+      return mapJsonType(type, options, depth);
+    case "Variant":
+      return mapVariantType(type, options, depth);
+    case "Dynamic":
+      return "ClickHouseDynamic";
+    case "Point":
+    case "Ring":
+    case "LineString":
+    case "MultiLineString":
+    case "Polygon":
+    case "MultiPolygon":
+      return mapGeoType(name, options);
     case "Enum8":
     case "Enum16":
-      return mapEnumType(type);
+      return mapEnumType(type, options);
     case "Decimal":
+    case "Decimal32":
+    case "Decimal64":
+    case "Decimal128":
+    case "Decimal256":
       return mapDecimalType(options);
     case "Float32":
     case "Float64":
+    case "BFloat16":
     case "Int8":
     case "Int16":
     case "Int32":
@@ -157,19 +279,32 @@ function mapCoreType(
       return "number";
     case "Int64":
     case "UInt64":
+    case "Int128":
+    case "UInt128":
+    case "Int256":
+    case "UInt256":
       return mapBigIntType(options);
+    case "Bool":
+      return "boolean";
     case "String":
     case "UUID":
     case "FixedString":
     case "IPv4":
     case "IPv6":
+    case "Time":
+    case "Time64":
       return "string";
     case "Date":
+    case "Date32":
     case "DateTime":
     case "DateTime64":
       return mapDateTimeType(options);
+    case "Nothing":
+      return "never";
     default:
-      return handleUnknownType(name, options);
+      return isIntervalType(name)
+        ? mapBigIntType(options)
+        : handleUnknownType(name, options);
   }
 }
 
@@ -191,8 +326,9 @@ function mapNullableType(
 }
 
 /**
- * Map LowCardinality(T) to T (no-op wrapper).
- * @param {TypeAst} type - LowCardinality type
+ * Map LowCardinality(T) and SimpleAggregateFunction(f, T) to T: both only
+ * change how values are stored.
+ * @param {TypeAst} type - LowCardinality or SimpleAggregateFunction type
  * @param {MappingOptions} options - Mapping options
  * @param {number} depth - Current recursion depth
  * @returns {string} Inner type string
@@ -206,6 +342,28 @@ function mapLowCardinalityType(
   return mapTypeAstToTs(inner, options, depth + 1);
 }
 
+/**
+ * Map AggregateFunction to a branded `AggregateState<'fn'>` string, or
+ * with `aggregateStateAs: "merged"` to the type its `-Merge` returns.
+ * States whose merged type is unknown stay opaque.
+ * @param {TypeAst} type - AggregateFunction type
+ * @param {MappingOptions} options - Mapping options
+ * @param {number} depth - Current recursion depth
+ * @returns {string} TypeScript type
+ */
+function mapAggregateFunctionType(
+  type: TypeAst,
+  options: MappingOptions,
+  depth: number,
+): string {
+  const merged =
+    options.aggregateStateAs === "merged"
+      ? aggregateFunctionState(type)?.merged
+      : undefined;
+  if (merged) return mapTypeAstToTs(merged, options, depth + 1);
+  return `AggregateState<'${type.aggregate?.name ?? "unknown"}'>`;
+}
+
 /**
  * Map Array(T) to T[].
  * @param {TypeAst} type - Array type
@@ -220,15 +378,38 @@ function mapArrayType(
 ): string {
   const inner = firstTypeArg(type);
   const innerTs = mapTypeAstToTs(inner, options, depth + 1);
-  return `${innerTs}[]`;
+  return isUnionType(innerTs) ? `(${innerTs})[]` : `${innerTs}[]`;
+}
+
+/**
+ * Check whether a TypeScript type is a union at its top level, e.g. for
+ * Nullable or Variant elements that need parentheses in an array.
+ * @param {string} ts - TypeScript type
+ * @returns {boolean} True when `|` appears outside brackets and quotes
+ */
+function isUnionType(ts: string): boolean {
+  let nesting = 0;
+  let quoted = false;
+  for (let i = 0; i < ts.length; i++) {
+    const c = ts[i];
+    if (c === "\\") i++;
+    else if (c === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (c === "{" || c === "[" || c === "(" || c === "<") nesting++;
+    else if (c === "}" || c === "]" || c === ")" || c === ">") nesting--;
+    else if (c === "|" && nesting === 0) return true;
+  }
+  return false;
 }
 
 /**
  * Map Tuple(T1,T2,...) to structured object.
+ * Named tuples use their element names; unnamed tuples use `_0`, `_1`, ...
+ * or a TS tuple when `tupleAs` is "array".
  * @param {TypeAst} type - Tuple type
  * @param {MappingOptions} options - Mapping options
  * @param {number} depth - Current recursion depth
- * @returns {string} TypeScript object type
+ * @returns {string} TypeScript object or tuple type
  */
 function mapTupleType(
   type: TypeAst,
@@ -236,24 +417,105 @@ function mapTupleType(
   depth: number,
 ): string {
   const argCount = Math.min(type.args.length, MAX_TUPLE_ELEMENTS);
-  const parts: string[] = [];
+  const elementTypes: string[] = [];
 
   for (let i = 0; i < argCount; i++) {
     const arg = type.args[i];
-    const argType = mapTypeAstToTs(toTypeOrUnknown(arg), options, depth + 1);
-    parts.push(`_${i}: ${argType};`);
+    elementTypes.push(mapTypeAstToTs(toTypeOrUnknown(arg), options, depth + 1));
   }
 
+  const names = type.elementNames;
+  if (!names && options.tupleAs === "array") {
+    return `[${elementTypes.join(", ")}]`;
+  }
+  const parts = elementTypes.map((elementType, i) => {
+    const key = names?.[i] !== undefined ? toPropertyKey(names[i]) : `_${i}`;
+    return `${key}: ${elementType};`;
+  });
   return `{ ${parts.join(" ")} }`;
 }
 
 /**
- * Map Map(K,V) to Record<string, V>.
- * Note: ClickHouse maps always use string keys in TypeScript.
+ * Map JSON to an object of its typed paths, nested by segment, with an
+ * index signature for the dynamic paths. JSON without typed paths and the
+ * legacy Object('json') map to Record<string, unknown>.
+ * @param {TypeAst} type - JSON or Object type
+ * @param {MappingOptions} options - Mapping options
+ * @param {number} depth - Current recursion depth
+ * @returns {string} TypeScript object type
+ */
+function mapJsonType(
+  type: TypeAst,
+  options: MappingOptions,
+  depth: number,
+): string {
+  const tree = type.name === "JSON" ? jsonPathTree(type) : new Map();
+  if (tree.size === 0) return "Record<string, unknown>";
+  return mapJsonPaths(tree, options, depth);
+}
+
+/**
+ * Map one level of JSON typed paths to an object type.
+ * @param {JsonPathTree} tree - Typed paths below this level
+ * @param {MappingOptions} options - Mapping options
+ * @param {number} depth - Current recursion depth
+ * @returns {string} TypeScript object type
+ */
+function mapJsonPaths(
+  tree: JsonPathTree,
+  options: MappingOptions,
+  depth: number,
+): string {
+  const parts = [...tree].map(([segment, node]) => {
+    const nodeTs = isJsonPathTree(node)
+      ? mapJsonPaths(node, options, depth + 1)
+      : mapTypeAstToTs(node, options, depth + 1);
+    return `${toPropertyKey(segment)}: ${nodeTs};`;
+  });
+  return `{ ${[...parts, "[path: string]: unknown;"].join(" ")} }`;
+}
+
+/**
+ * Map a geo type to its alias, e.g. `ChPolygon`, or with `geoAs: "geojson"`
+ * to the GeoJSON geometry alias, e.g. `GeoJsonPolygon`. Rings are GeoJSON
+ * LineStrings.
+ * @param {string} name - Geo type name
+ * @param {MappingOptions} options - Mapping options
+ * @returns {string} TypeScript type alias name
+ */
+function mapGeoType(name: string, options: MappingOptions): string {
+  if (options.geoAs !== "geojson") return geoAlias(name);
+  return `GeoJson${GEO_TYPES.get(name)?.geoJson ?? name}`;
+}
+
+/**
+ * Map Variant(T1, T2, ...) to the union of its types. A Variant holds
+ * NULL when a row has none of them.
+ * @param {TypeAst} type - Variant type
+ * @param {MappingOptions} options - Mapping options
+ * @param {number} depth - Current recursion depth
+ * @returns {string} TypeScript union type
+ */
+function mapVariantType(
+  type: TypeAst,
+  options: MappingOptions,
+  depth: number,
+): string {
+  const members = type.args
+    .filter(isTypeAst)
+    .map((arg) => mapTypeAstToTs(arg, options, depth + 1));
+  return [...new Set([...members, "null"])].join(" | ");
+}
+
+/**
+ * Map Map(K,V) to the object ClickHouse returns in JSON, whose keys are
+ * strings: `Partial<Record<K, V>>` for Enum keys, as not every key need be
+ * present, `` Record<`${number}`, V> `` for integer keys and
+ * `Record<string, V>` otherwise. With `mapAs: "map"`, maps to `Map<K, V>`.
  * @param {TypeAst} type - Map type
  * @param {MappingOptions} options - Mapping options
  * @param {number} depth - Current recursion depth
- * @returns {string} TypeScript Record type
+ * @returns {string} TypeScript Record or Map type
  */
 function mapMapType(
   type: TypeAst,
@@ -262,15 +524,35 @@ function mapMapType(
 ): string {
   const value = secondTypeArg(type);
   const valueTs = mapTypeAstToTs(value, options, depth + 1);
-  return `Record<string, ${valueTs}>`;
+  if (options.mapAs === "map") {
+    const keyTs = mapTypeAstToTs(firstTypeArg(type), options, depth + 1);
+    return `Map<${keyTs}, ${valueTs}>`;
+  }
+
+  const key = mapKey(type);
+  switch (key.kind) {
+    case "enum":
+      return `Partial<Record<${mapTypeAstToTs(key.type, options, depth + 1)}, ${valueTs}>>`;
+    case "integer":
+      return `Record<\`\${number}\`, ${valueTs}>`;
+    default:
+      return `Record<string, ${valueTs}>`;
+  }
 }
 
 /**
- * Map Enum8/Enum16 to string union type.
+ * Map Enum8/Enum16 to the string union of its keys, or with
+ * `enumAs: "number"` to the union of its values.
  * @param {TypeAst} type - Enum type
- * @returns {string} TypeScript string union or fallback
+ * @param {MappingOptions} options - Mapping options
+ * @returns {string} TypeScript literal union or fallback
  */
-function mapEnumType(type: TypeAst): string {
+function mapEnumType(type: TypeAst, options: MappingOptions): string {
+  if (options.enumAs === "number") {
+    const values = type.args.filter(isEnumMember).map((m) => m.value);
+    return values.length > 0 ? values.join(" | ") : "number";
+  }
+
   const keys = extractEnumKeys([...type.args]); // Convert readonly to mutable
 
   if (keys.length === 0) return "string";
@@ -320,7 +602,7 @@ function mapDecimalType(options: MappingOptions): string {
 }
 
 /**
- * Map Int64/UInt64 based on options.
+ * Map Int64/UInt64, the wider integers and intervals based on options.
  * @param {MappingOptions} options - Mapping options
  * @returns {string} TypeScript type for big integers
  */
@@ -357,19 +639,51 @@ const MAX_TABLES = 1000;
 /** Maximum number of columns per table for safety. */
 const MAX_COLUMNS_PER_TABLE = 10000;
 
+/** Emission the collision check assumes when none is given. */
+const DEFAULT_EMISSION: EmissionOptions = { emitZod: false };
+
 /**
  * Map array of TableAst to MappedTable with type resolution.
  * Processes table schemas and resolves materialized view column types through source tables.
  * Uses bounded operations and explicit limits for safety.
  * @param {readonly TableAst[]} tables - Array of parsed table ASTs
  * @param {MappingOptions} options - Configuration for type mapping
+ * @param {EmissionOptions} [emission] - Emission options the tables will be
+ *   emitted with, deciding which generated names must not collide
  * @returns {readonly MappedTable[]} Array of mapped tables with TypeScript types
- * @throws {Error} When table count or structure exceeds safety limits
+ * @throws {Error} When table count or structure exceeds safety limits, or
+ *   when two tables would generate the same declaration
  */
 export function map(
   tables: readonly TableAst[],
   options: MappingOptions,
+  emission?: EmissionOptions,
 ): readonly MappedTable[] {
+  const result = mapWithDiagnostics(tables, options, emission);
+  const collision = result.diagnostics.find((d) => d.severity === "error");
+  if (collision) {
+    throw new Error(`Table '${collision.table}': ${collision.message}`);
+  }
+  return result.tables;
+}
+
+/**
+ * Map array of TableAst to MappedTable, reporting problems as diagnostics.
+ * Tables are skipped when a name the emitter generates for them (interface,
+ * schema, row variants, metadata, enum objects) is already taken by an
+ * earlier table or by a helper type such as `IPv4`.
+ * @param {readonly TableAst[]} tables - Array of parsed table ASTs
+ * @param {MappingOptions} options - Configuration for type mapping
+ * @param {EmissionOptions} [emission] - Emission options deciding which
+ *   names are generated; defaults to interfaces only, without Zod
+ * @returns {MapResult} Mapped tables and diagnostics
+ * @throws {Error} When table count or structure exceeds safety limits
+ */
+export function mapWithDiagnostics(
+  tables: readonly TableAst[],
+  options: MappingOptions,
+  emission?: EmissionOptions,
+): MapResult {
   // Safety bounds
   assert(tables.length <= MAX_TABLES, `Too many tables: ${tables.length}`);
 
@@ -378,13 +692,418 @@ export function map(
 
   // Process each table with bounded operations
   const mappedTables: MappedTable[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const lineage = buildLineage(tables);
+  const candidates: { table: TableAst; mapped: MappedTable }[] = [];
 
   for (const table of tables) {
-    const mappedTable = mapSingleTable(table, tables, options);
-    mappedTables.push(mappedTable);
+    // Rows of a TO materialized view are typed by its target table
+    if (table.mvTo) {
+      diagnostics.push(...checkMvTarget(table, tables));
+      continue;
+    }
+
+    const source = resolveSourceColumns(table, tables);
+    if (source.diagnostic) diagnostics.push(source.diagnostic);
+    const view = resolveViewColumns(source.table, tables);
+    diagnostics.push(...view.diagnostics);
+    const mapped = mapSingleTable(
+      view.table,
+      options,
+      lineageOf(lineage, table),
+    );
+    diagnostics.push(...droppedCheckDiagnostics(view.table));
+    candidates.push({ table, mapped });
+  }
+
+  // Helpers are declared only for the column types the tables use
+  const emitted = emission ?? DEFAULT_EMISSION;
+  const declaredNames = new Map<string, string>();
+  const reservedNames = helperDeclarationNames(
+    candidates.map((candidate) => candidate.mapped),
+    emitted,
+  );
+  for (const { table, mapped } of candidates) {
+    const declared = declarationNames(mapped, emitted);
+    const collision = nameCollision(declared, declaredNames, reservedNames);
+
+    if (collision !== undefined) {
+      diagnostics.push({
+        severity: "error",
+        message: `${collision}; table skipped`,
+        table: qualifiedTableName(table),
+      });
+      continue;
+    }
+
+    for (const { name } of declared) {
+      declaredNames.set(name, qualifiedTableName(table));
+    }
+    mappedTables.push(mapped);
+  }
+
+  return { tables: mappedTables, diagnostics };
+}
+
+/**
+ * Check that the SELECT columns of a TO materialized view exist in its
+ * target table with the same type. ClickHouse drops columns the target does
+ * not have, so a misspelled alias silently loses data. Types are compared
+ * wherever they can be inferred; LowCardinality is ignored.
+ * @param {TableAst} view - Materialized view with a TO clause
+ * @param {readonly TableAst[]} allTables - All tables for reference lookup
+ * @returns {Diagnostic[]} Warnings for a missing target, missing columns and type mismatches
+ */
+function checkMvTarget(
+  view: TableAst,
+  allTables: readonly TableAst[],
+): Diagnostic[] {
+  const ref = view.mvTo!;
+  const target = findSourceTable(allTables, ref, view);
+  const warning = (message: string): Diagnostic => ({
+    severity: "warning",
+    message,
+    table: qualifiedTableName(view),
+  });
+  if (!target) {
+    return [warning(`Target table '${describeReference(ref)}' was not found`)];
   }
 
-  return mappedTables;
+  const targetName = qualifiedTableName(target);
+  const diagnostics: Diagnostic[] = [];
+  const columnCount = Math.min(view.columns.length, MAX_COLUMNS_PER_TABLE);
+
+  for (let i = 0; i < columnCount; i++) {
+    const column = view.columns[i]!;
+    const targetColumn = target.columns.find((c) => c.name === column.name);
+    if (!targetColumn) {
+      diagnostics.push(
+        warning(
+          `Column '${column.name}' is not in target table '${targetName}'`,
+        ),
+      );
+      continue;
+    }
+
+    const type = selectColumnType(column, view, allTables);
+    if (type && !isSameStoredType(type, targetColumn.type)) {
+      diagnostics.push(
+        warning(
+          `Column '${column.name}' is ${formatTypeAst(type)} but target table '${targetName}' declares ${targetColumn.rawType}`,
+        ),
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Type a materialized view column produces: declared, or inferred from
+ * its SELECT expression.
+ * @param {ColumnAst} column - View column
+ * @param {TableAst} view - Materialized view
+ * @param {readonly TableAst[]} allTables - All tables for reference lookup
+ * @returns {TypeAst | undefined} Column type, or undefined when unknown
+ */
+function selectColumnType(
+  column: ColumnAst,
+  view: TableAst,
+  allTables: readonly TableAst[],
+): TypeAst | undefined {
+  if (column.type.name !== "Unknown") return column.type;
+  const query = view.mvQuery;
+  const item = query && findSelectItem(query, column.name);
+  if (!item) return undefined;
+  return resolveItemType(item, query, createQueryScope(view, allTables))?.type;
+}
+
+/**
+ * Compare two types ignoring LowCardinality, which only changes storage.
+ * @param {TypeAst} a - First type
+ * @param {TypeAst} b - Second type
+ * @returns {boolean} True when both store the same values
+ */
+function isSameStoredType(a: TypeAst, b: TypeAst): boolean {
+  const unwrap = (type: TypeAst): TypeAst =>
+    type.name === "LowCardinality" ? toTypeOrUnknown(type.args[0]) : type;
+  return formatTypeAst(unwrap(a)) === formatTypeAst(unwrap(b));
+}
+
+/**
+ * Collect the data flow through the materialized views of the input.
+ * Views with neither a known source table nor a TO target are left out.
+ * @param {readonly TableAst[]} tables - All parsed tables
+ * @returns {LineageEdge[]} One edge per materialized view
+ */
+function buildLineage(tables: readonly TableAst[]): LineageEdge[] {
+  const edges: LineageEdge[] = [];
+
+  for (const table of tables) {
+    if (table.isView || (!table.mvSelect && !table.mvTo)) continue;
+    const source = table.mvFrom
+      ? findTableByName(tables, table.mvFrom)
+      : undefined;
+    if (!source && !table.mvTo) continue;
+
+    const target = table.mvTo && findSourceTable(tables, table.mvTo, table);
+    edges.push({
+      ...(source ? { source: qualifiedTableName(source) } : {}),
+      view: qualifiedTableName(table),
+      target: target
+        ? qualifiedTableName(target)
+        : table.mvTo
+          ? describeReference(table.mvTo)
+          : qualifiedTableName(table),
+    });
+  }
+
+  return edges;
+}
+
+/**
+ * Lineage edges a table takes part in, as source, view or target.
+ * @param {readonly LineageEdge[]} edges - All edges
+ * @param {TableAst} table - Table to look up
+ * @returns {readonly LineageEdge[] | undefined} Edges, or undefined when there are none
+ */
+function lineageOf(
+  edges: readonly LineageEdge[],
+  table: TableAst,
+): readonly LineageEdge[] | undefined {
+  const name = qualifiedTableName(table);
+  const own = edges.filter(
+    (edge) =>
+      edge.source === name || edge.view === name || edge.target === name,
+  );
+  return own.length > 0 ? own : undefined;
+}
+
+/**
+ * Give a column-less table the columns of the table it clones or wraps.
+ * Follows `CREATE TABLE x AS y` and Distributed, Buffer and Merge engine
+ * arguments through the other tables of the input, including chains such as
+ * a Distributed table over an `AS` clone. Only a table's own missing source
+ * is reported; tables further down a chain report theirs when mapped.
+ * @param {TableAst} table - Table to resolve
+ * @param {readonly TableAst[]} allTables - All tables for reference lookup
+ * @returns {{ table: TableAst; diagnostic?: Diagnostic }} Table with inherited
+ *   columns, plus a warning when its source cannot be found
+ */
+function resolveSourceColumns(
+  table: TableAst,
+  allTables: readonly TableAst[],
+): { table: TableAst; diagnostic?: Diagnostic } {
+  let current = table;
+
+  for (let depth = 0; depth < MAX_SOURCE_DEPTH; depth++) {
+    const ref = current.columns.length === 0 && sourceReference(current);
+    if (!ref) {
+      return current === table
+        ? { table }
+        : {
+            table: {
+              ...table,
+              columns: current.columns,
+              constraints: current.constraints,
+            },
+          };
+    }
+
+    const source = findSourceTable(allTables, ref, current);
+    if (!source) {
+      if (current !== table) return { table };
+      return {
+        table,
+        diagnostic: {
+          severity: "warning",
+          message: `Source table '${describeReference(ref)}' was not found; no columns generated`,
+          table: qualifiedTableName(table),
+        },
+      };
+    }
+    current = source;
+  }
+
+  return {
+    table,
+    diagnostic: {
+      severity: "warning",
+      message: `Source tables form a cycle or a chain longer than ${MAX_SOURCE_DEPTH}; no columns generated`,
+      table: qualifiedTableName(table),
+    },
+  };
+}
+
+/**
+ * Table that a column-less table takes its structure from.
+ * Merge tables name a pattern instead of a single table.
+ * @param {TableAst} table - Table to inspect
+ * @returns {SourceReference | undefined} Reference or undefined when there is none
+ */
+function sourceReference(table: TableAst): SourceReference | undefined {
+  if (table.asTable) return table.asTable;
+  const args = table.engine?.args ?? [];
+
+  switch (table.engine?.name) {
+    case "Distributed":
+      return namedReference(args[1], args[2]);
+    case "Buffer":
+      return namedReference(args[0], args[1]);
+    case "Merge": {
+      const pattern = args[1]?.value;
+      if (typeof pattern !== "string") return undefined;
+      return { database: engineArgName(args[0]), pattern };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describe a source reference for diagnostics.
+ * @param {SourceReference} ref - Reference to describe
+ * @returns {string} Name such as `db.events` or, for Merge patterns, `db./^events_/`
+ */
+function describeReference(ref: SourceReference): string {
+  const target = ref.name ?? `/${ref.pattern ?? ""}/`;
+  return ref.database ? `${ref.database}.${target}` : target;
+}
+
+/**
+ * Build a reference from database and table engine arguments.
+ * @param {EngineArg | undefined} database - Database argument
+ * @param {EngineArg | undefined} table - Table argument
+ * @returns {SourceReference | undefined} Reference, or undefined without a table name
+ */
+function namedReference(
+  database: EngineArg | undefined,
+  table: EngineArg | undefined,
+): SourceReference | undefined {
+  const name = engineArgName(table);
+  return name ? { database: engineArgName(database), name } : undefined;
+}
+
+/**
+ * Name given by an engine argument, written as identifier or string literal.
+ * Expressions such as `currentDatabase()` yield undefined.
+ * @param {EngineArg | undefined} arg - Engine argument
+ * @returns {string | undefined} Name or undefined
+ */
+function engineArgName(arg: EngineArg | undefined): string | undefined {
+  if (arg?.identifier !== undefined) return arg.identifier;
+  return typeof arg?.value === "string" ? arg.value : undefined;
+}
+
+/**
+ * Find the table a reference points at, never the referencing table itself.
+ * Tables without a database qualifier match any database.
+ * @param {readonly TableAst[]} tables - Tables to search
+ * @param {SourceReference} ref - Reference to resolve
+ * @param {TableAst} self - Referencing table
+ * @returns {TableAst | undefined} Source table or undefined
+ */
+function findSourceTable(
+  tables: readonly TableAst[],
+  ref: SourceReference,
+  self: TableAst,
+): TableAst | undefined {
+  const candidates = tables.filter(
+    (table) =>
+      table !== self &&
+      (ref.database === undefined ||
+        table.database === undefined ||
+        table.database === ref.database),
+  );
+  if (ref.name !== undefined) {
+    return candidates.find((table) => table.name === ref.name);
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(ref.pattern ?? "");
+  } catch {
+    return undefined;
+  }
+  return candidates.find((table) => pattern.test(table.name));
+}
+
+/**
+ * Names the emitter declares for a mapped table, mirroring what it emits:
+ * the interface, then its Zod schema, `XxxRow`/`XxxInsert`, `XxxMerged` and
+ * `XxxParams` with their schemas, `XxxMeta` and the `enumAs: "const"`
+ * objects of its columns.
+ * @param {MappedTable} table - Mapped table
+ * @param {EmissionOptions} emission - Emission options
+ * @returns {{ name: string; bare: string }[]} Names including the
+ *   namespace, e.g. `Analytics.EventsRow`, and without it
+ */
+function declarationNames(
+  table: MappedTable,
+  emission: EmissionOptions,
+): { name: string; bare: string }[] {
+  const base = table.interfaceName;
+  const types = [base];
+  if (emission.emitRowTypes) {
+    types.push(`${base}Row`, ...(table.isView ? [] : [`${base}Insert`]));
+  }
+  if (table.columns.some((column) => column.merged)) {
+    types.push(`${base}Merged`);
+  }
+  if (table.parameters) types.push(`${base}Params`);
+
+  const names = emission.emitZod
+    ? types.flatMap((name) => [name, `${name}Schema`])
+    : types;
+  if (emission.emitMetadata) names.push(`${base}Meta`);
+  for (const column of table.columns) {
+    names.push(...(column.enums ?? []).map((e) => e.name));
+  }
+
+  return names.map((bare) => ({
+    name: table.namespace ? `${table.namespace}.${bare}` : bare,
+    bare,
+  }));
+}
+
+/**
+ * Find the first of a table's names that is generated twice, taken by an
+ * earlier table or reserved for a helper type.
+ * @param {readonly { name: string; bare: string }[]} names - Table's names
+ * @param {ReadonlyMap<string, string>} declared - Names of earlier tables,
+ *   with the table that declares them
+ * @param {ReadonlySet<string>} reserved - Helper type names
+ * @returns {string | undefined} Description of the collision, or undefined
+ */
+function nameCollision(
+  names: readonly { name: string; bare: string }[],
+  declared: ReadonlyMap<string, string>,
+  reserved: ReadonlySet<string>,
+): string | undefined {
+  const seen = new Set<string>();
+  for (const { name, bare } of names) {
+    const previous = declared.get(name);
+    if (previous !== undefined) {
+      return `Type name '${name}' is already used by table '${previous}'`;
+    }
+    if (reserved.has(bare)) {
+      return `Type name '${name}' is reserved for a generated helper type`;
+    }
+    if (seen.has(name)) {
+      return `Type name '${name}' is generated twice for the table`;
+    }
+    seen.add(name);
+  }
+  return undefined;
+}
+
+/**
+ * Table name as written in the DDL, including the database qualifier.
+ * @param {TableAst} table - Parsed table
+ * @returns {string} Name such as `analytics.events` or `events`
+ */
+function qualifiedTableName(table: TableAst): string {
+  return table.database ? `${table.database}.${table.name}` : table.name;
 }
 
 /**
@@ -407,82 +1126,101 @@ function validateTableArray(tables: readonly TableAst[]): void {
 }
 
 /**
- * Map single table to MappedTable with type resolution.
+ * Map single table to MappedTable.
  * Central control flow for table mapping with delegated column processing.
  * @param {TableAst} table - Table to map
- * @param {readonly TableAst[]} allTables - All tables for reference lookup
  * @param {MappingOptions} options - Mapping options
+ * @param {readonly LineageEdge[]} [lineage] - Materialized views involving the table
  * @returns {MappedTable} Mapped table with resolved types
  */
 function mapSingleTable(
   table: TableAst,
-  allTables: readonly TableAst[],
   options: MappingOptions,
+  lineage?: readonly LineageEdge[],
 ): MappedTable {
-  // Build lookup structures
-  const context = createMappingContext(table, allTables);
-
-  // Map all columns
-  const columns = mapTableColumns(table, context, options);
+  const naming = resolveTableNaming(table, options);
+  const columns = mapTableColumns(table, naming.interfaceName, options);
 
   return {
-    interfaceName: toPascalCase(table.name),
+    ...naming,
     columns,
+    ...(table.isView ? { isView: true } : {}),
+    ...(table.parameters
+      ? { parameters: mapViewParameters(table.parameters, options) }
+      : {}),
     meta: {
+      table: table.name,
+      database: table.database,
+      comment: table.comment,
+      line: table.line,
+      engine: table.engine,
       partitionBy: table.partitionBy,
       orderBy: table.orderBy,
+      primaryKey: table.primaryKey,
+      sampleBy: table.sampleBy,
+      ttl: table.ttl,
+      settings: table.settings,
+      indexes: table.indexes,
+      projections: table.projections,
+      constraints: table.constraints,
+      lineage,
     },
   };
 }
 
 /**
- * Mapping context for type resolution.
+ * Map the query parameters of a parameterized view.
+ * Names are kept as written, since queries must pass them unchanged.
+ * @param {readonly ViewParameterAst[]} parameters - Parameters to map
+ * @param {MappingOptions} options - Mapping options
+ * @returns {NonNullable<MappedTable["parameters"]>} Mapped parameters
  */
-interface MappingContext {
-  readonly sourceTable?: TableAst;
-  readonly aliasMap: Map<string, string>;
-  readonly mvInfoMap: Map<string, { func?: string; src?: string }>;
-  readonly cteAliasMap: Map<string, { func?: string; src?: string }>;
-  readonly cteSourceTable?: TableAst;
+function mapViewParameters(
+  parameters: readonly ViewParameterAst[],
+  options: MappingOptions,
+): NonNullable<MappedTable["parameters"]> {
+  return parameters.map((parameter) => ({
+    name: parameter.name,
+    tsType: mapTypeAstToTs(parameter.type, options),
+    chType: parameter.rawType,
+    typeAst: parameter.type,
+  }));
 }
 
 /**
- * Create mapping context with lookup structures.
- * @param {TableAst} table - Current table
- * @param {readonly TableAst[]} allTables - All available tables
- * @returns {MappingContext} Context for type resolution
+ * Resolve interface name and namespace according to database naming mode.
+ * @param {TableAst} table - Table to name
+ * @param {MappingOptions} options - Mapping options
+ * @returns {{ interfaceName: string; namespace?: string }} Generated names
  */
-function createMappingContext(
+function resolveTableNaming(
   table: TableAst,
-  allTables: readonly TableAst[],
-): MappingContext {
-  const sourceTable = table.mvFrom
-    ? findTableByName(allTables, table.mvFrom)
-    : undefined;
-
-  const cteSourceTable = table.mvCte?.src
-    ? findTableByName(allTables, table.mvCte.src)
-    : undefined;
-
-  return {
-    sourceTable,
-    aliasMap: buildAliasMap(table),
-    mvInfoMap: buildMvInfoMap(table),
-    cteAliasMap: buildCteAliasMap(table),
-    cteSourceTable,
-  };
+  options: MappingOptions,
+): { interfaceName: string; namespace?: string } {
+  const interfaceName = toPascalCase(table.name);
+  if (!table.database) return { interfaceName };
+
+  switch (options.databaseNaming) {
+    case "prefix":
+      return { interfaceName: toPascalCase(table.database) + interfaceName };
+    case "namespace":
+      return { interfaceName, namespace: toPascalCase(table.database) };
+    default:
+      return { interfaceName };
+  }
 }
 
 /**
- * Map all columns in a table with type resolution.
+ * Map all columns in a table.
+ * Columns named by the table's CHECK constraints carry the derived bounds.
  * @param {TableAst} table - Table containing columns
- * @param {MappingContext} context - Mapping context
+ * @param {string} interfaceName - Interface name, prefixing enum names
  * @param {MappingOptions} options - Mapping options
  * @returns {Array} Array of mapped columns
  */
 function mapTableColumns(
   table: TableAst,
-  context: MappingContext,
+  interfaceName: string,
   options: MappingOptions,
 ): Array<{
   name: string;
@@ -490,18 +1228,90 @@ function mapTableColumns(
   chType: string;
   typeAst: TypeAst;
   comment?: string;
+  kind?: ColumnKind;
+  default?: string;
+  ttl?: string;
+  checks?: ColumnChecks;
 }> {
   const columns = [];
+  const checks = columnChecks(table.constraints);
 
   for (const column of table.columns) {
     validateColumn(column);
-    const mappedColumn = mapSingleColumn(column, context, options);
-    columns.push(mappedColumn);
+    for (const flatColumn of expandNestedColumn(column, options)) {
+      const mapped = mapSingleColumn(flatColumn, interfaceName, options);
+      const bounds = checks.get(flatColumn.name);
+      const fitted = bounds
+        ? fitChecks(flatColumn.name, flatColumn.type, bounds)
+        : undefined;
+      columns.push(
+        fitted?.checks ? { ...mapped, checks: fitted.checks } : mapped,
+      );
+    }
   }
 
   return columns;
 }
 
+/**
+ * Report the CHECK bounds of a table that its validators cannot enforce
+ * exactly and that are therefore left out of the generated schemas.
+ * @param {TableAst} table - Table with constraints
+ * @returns {Diagnostic[]} A warning per dropped bound
+ */
+function droppedCheckDiagnostics(table: TableAst): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const checks = columnChecks(table.constraints);
+  if (checks.size === 0) return diagnostics;
+
+  for (const column of table.columns) {
+    const bounds = checks.get(column.name);
+    if (!bounds) continue;
+    for (const message of fitChecks(column.name, column.type, bounds).dropped) {
+      diagnostics.push({
+        severity: "warning",
+        message,
+        table: qualifiedTableName(table),
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Expand a Nested column into flattened `name.element Array(T)` columns.
+ * Other columns, and Nested columns when `nestedAs` is "array", are
+ * returned unchanged.
+ * @param {ColumnAst} column - Column to expand
+ * @param {MappingOptions} options - Mapping options
+ * @returns {ColumnAst[]} The flattened columns, or the column itself
+ */
+function expandNestedColumn(
+  column: ColumnAst,
+  options: MappingOptions,
+): ColumnAst[] {
+  if (column.type.name !== "Nested" || options.nestedAs === "array") {
+    return [column];
+  }
+
+  const elementCount = Math.min(column.type.args.length, MAX_TUPLE_ELEMENTS);
+  const flattened: ColumnAst[] = [];
+  for (let i = 0; i < elementCount; i++) {
+    const element = column.type.elementNames?.[i] ?? `_${i}`;
+    const type: TypeAst = {
+      name: "Array",
+      args: [toTypeOrUnknown(column.type.args[i])],
+    };
+    flattened.push({
+      ...column,
+      name: `${column.name}.${element}`,
+      type,
+      rawType: formatTypeAst(type),
+    });
+  }
+  return flattened;
+}
+
 /**
  * Validate column structure.
  * @param {any} column - Column to validate
@@ -516,16 +1326,18 @@ function validateColumn(column: any): void {
 }
 
 /**
- * Map single column with type resolution.
- * Handles Unknown type resolution through source tables and CTEs.
+ * Map single column to its TypeScript type. `AggregateFunction` columns
+ * also get the type their `-Merge` returns. With `enumAs: "const"` the
+ * column's enums are named after the interface and column and typed by
+ * those names.
  * @param {any} column - Column to map
- * @param {MappingContext} context - Mapping context
+ * @param {string} interfaceName - Interface name, prefixing enum names
  * @param {MappingOptions} options - Mapping options
  * @returns {Object} Mapped column with resolved type
  */
 function mapSingleColumn(
   column: any,
-  context: MappingContext,
+  interfaceName: string,
   options: MappingOptions,
 ): {
   name: string;
@@ -533,20 +1345,24 @@ function mapSingleColumn(
   chType: string;
   typeAst: TypeAst;
   comment?: string;
+  kind?: ColumnKind;
+  default?: string;
+  ttl?: string;
+  aggregate?: AggregateStateAst;
+  merged?: { tsType: string; chType: string; typeAst: TypeAst };
+  enums?: { name: string; type: TypeAst }[];
 } {
-  let resolvedType = column.type;
-  let rawType = column.rawType;
-
-  if (resolvedType.name === "Unknown") {
-    const resolved = resolveUnknownType(column, context);
-    if (resolved) {
-      resolvedType = resolved.type;
-      rawType = resolved.rawType;
-    }
-  }
-
-  const chType = rawType.trim();
-  const tsType = mapTypeAstToTs(resolvedType, options);
+  const resolvedType: TypeAst = column.type;
+  const chType = column.rawType.trim();
+  const enums =
+    options.enumAs === "const"
+      ? namedEnums(resolvedType, interfaceName + toPascalCase(column.name))
+      : [];
+  const columnOptions =
+    enums.length > 0 ? withEnumNames(options, enums) : options;
+  const tsType = mapTypeAstToTs(resolvedType, columnOptions);
+  const aggregate = aggregateFunctionState(resolvedType);
+  const merged = aggregate?.merged;
 
   return {
     name: options.camelCase ? toCamelCase(column.name) : column.name,
@@ -554,318 +1370,305 @@ function mapSingleColumn(
     chType,
     typeAst: resolvedType,
     comment: column.comment,
+    kind: column.kind,
+    default: column.default,
+    ttl: column.ttl,
+    ...(aggregate ? { aggregate } : {}),
+    ...(merged && options.aggregateStateAs !== "merged"
+      ? {
+          merged: {
+            tsType: mapTypeAstToTs(merged, columnOptions),
+            chType: formatTypeAst(merged),
+            typeAst: merged,
+          },
+        }
+      : {}),
+    ...(enums.length > 0 ? { enums } : {}),
   };
 }
 
 /**
- * Resolve Unknown type through source tables and CTEs.
- * @param {any} column - Column with Unknown type
- * @param {MappingContext} context - Mapping context
- * @returns {Object | undefined} Resolved type info or undefined
+ * Name the Enum8/Enum16 types within a column type, in type order. A
+ * single enum takes the base name; several are numbered from 1.
+ * @param {TypeAst} type - Column type
+ * @param {string} baseName - Name for the column's enum
+ * @returns {{ name: string; type: TypeAst }[]} Enum types with their names
  */
-function resolveUnknownType(
-  column: any,
-  context: MappingContext,
-): { type: TypeAst; rawType: string } | undefined {
-  // Try source table resolution first
-  if (context.sourceTable) {
-    return resolveFromSourceTable(column, context);
-  }
+function namedEnums(
+  type: TypeAst,
+  baseName: string,
+): { name: string; type: TypeAst }[] {
+  const found: TypeAst[] = [];
+  const visit = (node: TypeAst, depth: number): void => {
+    if (depth > MAX_TYPE_DEPTH) return;
+    if (node.name === "Enum8" || node.name === "Enum16") found.push(node);
+    for (const arg of node.args) {
+      if (isTypeAst(arg)) visit(arg, depth + 1);
+    }
+  };
+  visit(type, 0);
 
-  // Try CTE resolution
-  return resolveFromCTE(column, context);
+  return found.map((node, i) => ({
+    name: found.length === 1 ? baseName : `${baseName}${i + 1}`,
+    type: node,
+  }));
 }
 
 /**
- * Resolve type from source table (materialized view case).
- * @param {any} column - Column to resolve
- * @param {MappingContext} context - Mapping context
- * @returns {Object | undefined} Resolved type info or undefined
+ * Extend mapping options so that the given enum types map to their names.
+ * @param {MappingOptions} options - Mapping options
+ * @param {readonly { name: string; type: TypeAst }[]} enums - Named enums
+ * @returns {MappingOptions} Options with a plugin resolving the enums
  */
-function resolveFromSourceTable(
-  column: any,
-  context: MappingContext,
-): { type: TypeAst; rawType: string } | undefined {
-  if (!context.sourceTable) return undefined;
-
-  // Determine source column name (handle aliases)
-  let sourceName = column.name;
-  const aliasedName = context.aliasMap.get(column.name);
-  if (aliasedName) sourceName = aliasedName;
-
-  // Find source column
-  const sourceColumn = findColumnByName(context.sourceTable, sourceName);
-  if (sourceColumn) {
-    return {
-      type: sourceColumn.type,
-      rawType: sourceColumn.rawType,
-    };
-  }
-
-  return undefined;
+function withEnumNames(
+  options: MappingOptions,
+  enums: readonly { name: string; type: TypeAst }[],
+): MappingOptions {
+  const plugin = {
+    mapType: (type: TypeAst) => enums.find((e) => e.type === type)?.name,
+  };
+  return { ...options, plugins: [plugin, ...(options.plugins ?? [])] };
 }
 
 /**
- * Resolve type from CTE (Common Table Expression).
- * @param {any} column - Column to resolve
- * @param {MappingContext} context - Mapping context
- * @returns {Object | undefined} Resolved type info or undefined
+ * Type the Unknown columns of a view from its SELECT query. Column
+ * references are followed through table aliases, ARRAY JOINs, subqueries,
+ * CTEs and other views to the table that declares them; expressions are
+ * then typed by the function catalog. Columns that cannot be traced stay
+ * Unknown and are reported.
+ * @param {TableAst} table - Table to resolve
+ * @param {readonly TableAst[]} allTables - All tables for reference lookup
+ * @returns {{ table: TableAst; diagnostics: Diagnostic[] }} Table with
+ *   resolved columns, plus a warning per column left Unknown
  */
-function resolveFromCTE(
-  column: any,
-  context: MappingContext,
-): { type: TypeAst; rawType: string } | undefined {
-  const mvInfo = context.mvInfoMap.get(column.name);
-  if (!mvInfo) {
-    // No info: fallback to string
-    return {
-      type: { name: "String", args: [] },
-      rawType: "String",
-    };
-  }
-
-  const cteInfo = mvInfo.src ? context.cteAliasMap.get(mvInfo.src) : undefined;
-  let baseType: TypeAst | undefined;
-
-  if (cteInfo) {
-    baseType = resolveCTEBaseType(cteInfo, context);
-  }
-
-  // Apply aggregate function resolution
-  const resolvedType = resolveAggReturnType(mvInfo.func, baseType);
-  if (resolvedType) {
-    return {
-      type: resolvedType,
-      rawType: resolvedType.name,
-    };
-  }
-
-  // Fallback for plain identifiers
-  if (!mvInfo.func) {
-    return {
-      type: { name: "String", args: [] },
-      rawType: "String",
-    };
-  }
-
-  return undefined;
+function resolveViewColumns(
+  table: TableAst,
+  allTables: readonly TableAst[],
+): { table: TableAst; diagnostics: Diagnostic[] } {
+  const query = table.mvQuery;
+  if (!query) return { table, diagnostics: [] };
+
+  const scope = createQueryScope(table, allTables);
+  const diagnostics: Diagnostic[] = [];
+  const columns = table.columns.map((column) => {
+    if (column.type.name !== "Unknown") return column;
+    const item = findSelectItem(query, column.name);
+    const resolved = item && resolveItemType(item, query, scope);
+    if (resolved) return { ...column, ...resolved };
+
+    diagnostics.push({
+      severity: "warning",
+      message: `Type of column '${column.name}' could not be inferred from the query; typed as unknown`,
+      table: qualifiedTableName(table),
+    });
+    return column;
+  });
+
+  return { table: { ...table, columns }, diagnostics };
 }
 
 /**
- * Resolve base type from CTE information.
- * @param {Object} cteInfo - CTE information
- * @param {MappingContext} context - Mapping context
- * @returns {TypeAst | undefined} Base type or undefined
+ * Top-level scope for resolving the query of a view.
+ * @param {TableAst} view - View whose query is resolved
+ * @param {readonly TableAst[]} allTables - All tables for reference lookup
+ * @returns {QueryScope} Scope without CTEs at depth 0
  */
-function resolveCTEBaseType(
-  cteInfo: { func?: string; src?: string },
-  context: MappingContext,
-): TypeAst | undefined {
-  // Try function-based type mapping first
-  if (cteInfo.func) {
-    const funcType = mapFuncToType(cteInfo.func);
-    if (funcType.name !== "Unknown") return funcType;
-  }
-
-  // Try source column lookup
-  if (cteInfo.src && context.cteSourceTable) {
-    const sourceColumn = findColumnByName(context.cteSourceTable, cteInfo.src);
-    return sourceColumn?.type;
-  }
-
-  return undefined;
+function createQueryScope(
+  view: TableAst,
+  allTables: readonly TableAst[],
+): QueryScope {
+  return { view, tables: allTables, ctes: new Map(), depth: 0 };
 }
 
-/** Maximum SELECT items to process for safety. */
-const MAX_SELECT_ITEMS = 1000;
-
-/** Maximum CTE columns to process for safety. */
-const MAX_CTE_COLUMNS = 1000;
-
 /**
- * Build alias mapping from SELECT items.
- * Maps column aliases to their source column names for type resolution.
- * @param {TableAst} table - Table with potential SELECT items
- * @returns {Map<string, string>} Map from alias to source name
+ * Find the SELECT item that produces an output column.
+ * @param {SelectQueryAst} query - Query to search
+ * @param {string} name - Output column name
+ * @returns {SelectItemAst | undefined} Item, or undefined when not found
  */
-function buildAliasMap(table: TableAst): Map<string, string> {
-  const aliasMap = new Map<string, string>();
-
-  if (!table.mvSelect) return aliasMap;
-
-  const itemCount = Math.min(table.mvSelect.length, MAX_SELECT_ITEMS);
-
-  for (let i = 0; i < itemCount; i++) {
-    const item = table.mvSelect[i];
-    if (item && item.alias && item.alias.length > 0) {
-      // Map alias to source column name (prefer srcName, fallback to name)
-      const sourceName = item.srcName ?? item.name;
-      aliasMap.set(item.alias, sourceName);
-    }
-  }
-
-  return aliasMap;
+function findSelectItem(
+  query: SelectQueryAst,
+  name: string,
+): SelectItemAst | undefined {
+  return query.items
+    .slice(0, MAX_SELECT_ITEMS)
+    .find((item) => (item.alias ?? item.name) === name);
 }
 
 /**
- * Build materialized view info mapping.
- * Maps column names to their function and source information.
- * @param {TableAst} table - Table with potential SELECT items
- * @returns {Map<string, Object>} Map from column name to function/source info
+ * Type of a SELECT item. A bare column reference keeps the declared type
+ * of its source column; other expressions are typed by the function
+ * catalog from the types of the columns they read.
+ * @param {SelectItemAst} item - Item to type
+ * @param {SelectQueryAst} query - Query the item belongs to
+ * @param {QueryScope} scope - Tables and CTEs visible to the query
+ * @returns {ResolvedType | undefined} Type, or undefined when it cannot be traced
  */
-function buildMvInfoMap(
-  table: TableAst,
-): Map<string, { func?: string; src?: string }> {
-  const infoMap = new Map<string, { func?: string; src?: string }>();
-
-  if (!table.mvSelect) return infoMap;
-
-  const itemCount = Math.min(table.mvSelect.length, MAX_SELECT_ITEMS);
-
-  for (let i = 0; i < itemCount; i++) {
-    const item = table.mvSelect[i];
-    if (item) {
-      const key = item.alias ?? item.name;
-
-      if (key && key.length > 0) {
-        infoMap.set(key, {
-          func: item.func,
-          src: item.srcName,
-        });
-      }
-    }
+function resolveItemType(
+  item: SelectItemAst,
+  query: SelectQueryAst,
+  scope: QueryScope,
+): ResolvedType | undefined {
+  const expression = parseExpression(item.expression);
+  if (!expression) return undefined;
+  if (expression.kind === "column") {
+    return resolveColumnReference(
+      query,
+      expression.table,
+      expression.name,
+      scope,
+    );
   }
 
-  return infoMap;
+  const type = inferExpressionType(
+    expression,
+    (name, table) => resolveColumnReference(query, table, name, scope)?.type,
+  );
+  return type && { type, rawType: formatTypeAst(type) };
 }
 
 /**
- * Build CTE alias mapping.
- * Maps CTE column names to their function and source information.
- * @param {TableAst} table - Table with potential CTE
- * @returns {Map<string, Object>} Map from CTE column to function/source info
+ * Type of a column reference inside a query. ARRAY JOIN names yield the
+ * array's element type and `WITH expr AS name` names their expression's
+ * type; other names are looked up in the FROM sources the qualifier names,
+ * or in all sources in order when unqualified.
+ * @param {SelectQueryAst} query - Query containing the reference
+ * @param {string | undefined} qualifier - Table name or alias before the dot
+ * @param {string} name - Column name
+ * @param {QueryScope} scope - Tables and CTEs visible to the enclosing query
+ * @returns {ResolvedType | undefined} Type, or undefined when it cannot be traced
  */
-function buildCteAliasMap(
-  table: TableAst,
-): Map<string, { func?: string; src?: string }> {
-  const cteMap = new Map<string, { func?: string; src?: string }>();
-
-  if (!table.mvCte || !table.mvCte.columns) return cteMap;
-
-  const columnCount = Math.min(table.mvCte.columns.length, MAX_CTE_COLUMNS);
-
-  for (let i = 0; i < columnCount; i++) {
-    const column = table.mvCte.columns[i];
-    if (column) {
-      const key = column.alias ?? column.name;
-
-      if (key && key.length > 0) {
-        cteMap.set(key, {
-          func: column.func,
-          src: column.srcName ?? column.name,
-        });
-      }
-    }
+function resolveColumnReference(
+  query: SelectQueryAst,
+  qualifier: string | undefined,
+  name: string,
+  scope: QueryScope,
+): ResolvedType | undefined {
+  if (scope.depth >= MAX_QUERY_DEPTH) return undefined;
+  const ctes = new Map(scope.ctes);
+  for (const cte of query.ctes ?? []) ctes.set(cte.name, cte.query);
+  const inner: QueryScope = { ...scope, ctes, depth: scope.depth + 1 };
+
+  const arrayJoin = query.arrayJoins?.find((join) =>
+    join.alias !== undefined
+      ? qualifier === undefined && join.alias === name
+      : join.column === name && (qualifier ?? join.table) === join.table,
+  );
+  if (arrayJoin) {
+    const array = resolveFromSources(
+      query,
+      arrayJoin.table,
+      arrayJoin.column,
+      inner,
+    );
+    if (array?.type.name !== "Array") return undefined;
+    const element = firstTypeArg(array.type);
+    return { type: element, rawType: formatTypeAst(element) };
   }
 
-  return cteMap;
+  const named =
+    qualifier === undefined
+      ? query.expressions?.find((item) => item.alias === name)
+      : undefined;
+  if (named) return resolveItemType(named, query, inner);
+
+  return resolveFromSources(query, qualifier, name, inner);
 }
 
 /**
- * Map function name to ClickHouse type.
- * Handles common ClickHouse conversion functions.
- * @param {string} funcName - Function name to map
- * @returns {TypeAst} Corresponding ClickHouse type
+ * Look a column up in the FROM sources of a query.
+ * @param {SelectQueryAst} query - Query whose sources are searched
+ * @param {string | undefined} qualifier - Table name or alias, if any
+ * @param {string} name - Column name
+ * @param {QueryScope} scope - Scope inside the query
+ * @returns {ResolvedType | undefined} Type from the first source that has the column
  */
-function mapFuncToType(funcName: string): TypeAst {
-  assert(typeof funcName === "string", "Function name must be string");
-  assert(funcName.length > 0, "Function name cannot be empty");
-
-  const normalizedFunc = funcName.toLowerCase().trim();
-
-  // Handle conversion functions with predictable patterns
-  if (normalizedFunc.startsWith("tofloat")) {
-    return { name: "Float64", args: [] };
-  }
-  if (normalizedFunc.startsWith("toint")) {
-    return { name: "Int64", args: [] };
-  }
-  if (normalizedFunc.startsWith("touint")) {
-    return { name: "UInt64", args: [] };
-  }
-  if (normalizedFunc.startsWith("todecimal")) {
-    return { name: "Decimal", args: [] };
-  }
-  if (normalizedFunc === "tostartofday") {
-    return { name: "DateTime", args: [] };
+function resolveFromSources(
+  query: SelectQueryAst,
+  qualifier: string | undefined,
+  name: string,
+  scope: QueryScope,
+): ResolvedType | undefined {
+  const sources =
+    qualifier === undefined
+      ? query.sources
+      : query.sources.filter(
+          (source) =>
+            source.alias === qualifier || source.table?.name === qualifier,
+        );
+
+  for (const source of sources) {
+    const resolved = resolveFromSource(source, name, scope);
+    if (resolved) return resolved;
   }
-
-  return { name: "Unknown", args: [] };
+  return undefined;
 }
 
 /**
- * Resolve aggregate function return type.
- * Determines TypeScript type for ClickHouse aggregate functions with base type fallback.
- * @param {string | undefined} funcName - Aggregate function name
- * @param {TypeAst | undefined} baseType - Base column type for context
- * @returns {TypeAst | undefined} Resolved return type or undefined
+ * Type of a column produced by a single FROM source: a subquery, a CTE or
+ * a table. Columns of other views that are still Unknown are resolved
+ * through those views' queries.
+ * @param {SelectSourceAst} source - Source to search
+ * @param {string} name - Column name
+ * @param {QueryScope} scope - Scope the source appears in
+ * @returns {ResolvedType | undefined} Type, or undefined when not found
  */
-function resolveAggReturnType(
-  funcName: string | undefined,
-  baseType: TypeAst | undefined,
-): TypeAst | undefined {
-  if (!funcName) return baseType;
-
-  assert(funcName.length > 0, "Function name cannot be empty");
-
-  const normalizedFunc = funcName.toLowerCase().trim();
-
-  // DateTime functions
-  if (normalizedFunc === "tostartofday") {
-    return { name: "DateTime", args: [] };
-  }
-
-  // Numeric aggregates always return Float64
-  if (isNumericAggregate(normalizedFunc)) {
-    return { name: "Float64", args: [] };
-  }
-
-  // State-preserving functions: preserve base type or default to Float64
-  if (isStatePreservingAggregate(normalizedFunc)) {
-    return baseType ?? { name: "Float64", args: [] };
+function resolveFromSource(
+  source: SelectSourceAst,
+  name: string,
+  scope: QueryScope,
+): ResolvedType | undefined {
+  if (source.query) return resolveOutputColumn(source.query, name, scope);
+  if (!source.table) return undefined;
+
+  const cte = source.table.database
+    ? undefined
+    : scope.ctes.get(source.table.name);
+  if (cte) return resolveOutputColumn(cte, name, scope);
+
+  // Distributed tables and `AS` clones take the columns of what they wrap
+  const found = findSourceTable(scope.tables, source.table, scope.view);
+  const table = found && resolveSourceColumns(found, scope.tables).table;
+  const column = table && findColumnByName(table, name);
+  if (!column) return undefined;
+  if (column.type.name !== "Unknown") {
+    return { type: column.type, rawType: column.rawType };
   }
-
-  // Default: preserve base type
-  return baseType;
+  if (!table.mvQuery) return undefined;
+  return resolveOutputColumn(table.mvQuery, column.name, {
+    ...scope,
+    view: table,
+    ctes: new Map(),
+  });
 }
 
 /**
- * Check if function is a numeric aggregate.
- * @param {string} funcName - Normalized function name
- * @returns {boolean} True if numeric aggregate
+ * Type of an output column of a subquery, CTE or view query.
+ * `SELECT *` queries, whose items are not listed, pass names through.
+ * @param {SelectQueryAst} query - Query producing the column
+ * @param {string} name - Output column name
+ * @param {QueryScope} scope - Scope the query appears in
+ * @returns {ResolvedType | undefined} Type, or undefined when it cannot be traced
  */
-function isNumericAggregate(funcName: string): boolean {
-  return (
-    /^sum/.test(funcName) || /^avg/.test(funcName) || /^count/.test(funcName)
-  );
-}
+function resolveOutputColumn(
+  query: SelectQueryAst,
+  name: string,
+  scope: QueryScope,
+): ResolvedType | undefined {
+  if (query.items.length === 0) {
+    return resolveColumnReference(query, undefined, name, scope);
+  }
+  const item = findSelectItem(query, name);
+  if (!item || scope.depth >= MAX_QUERY_DEPTH) return undefined;
 
-/**
- * Check if function preserves state/type.
- * @param {string} funcName - Normalized function name
- * @returns {boolean} True if state-preserving
- */
-function isStatePreservingAggregate(funcName: string): boolean {
-  return (
-    /^anylast/.test(funcName) ||
-    /^anystate/.test(funcName) ||
-    /^max/.test(funcName) ||
-    /^min/.test(funcName) ||
-    /^argmin/.test(funcName) ||
-    /^argmax/.test(funcName)
-  );
+  const ctes = new Map(scope.ctes);
+  for (const cte of query.ctes ?? []) ctes.set(cte.name, cte.query);
+  return resolveItemType(item, query, { ...scope, ctes });
 }
 
+/** Maximum SELECT items to process for safety. */
+const MAX_SELECT_ITEMS = 1000;
+
 /**
  * Find table by name with case-insensitive fallback.
  * @param {readonly TableAst[]} tables - Tables to search
@@ -892,9 +1695,12 @@ function findTableByName(
  * Find column by name with case-insensitive fallback.
  * @param {TableAst} table - Table to search in
  * @param {string} name - Column name to find
- * @returns {any | undefined} Found column or undefined
+ * @returns {ColumnAst | undefined} Found column or undefined
  */
-function findColumnByName(table: TableAst, name: string): any | undefined {
+function findColumnByName(
+  table: TableAst,
+  name: string,
+): ColumnAst | undefined {
   assert(typeof name === "string", "Column name must be string");
   assert(name.length > 0, "Column name cannot be empty");
 
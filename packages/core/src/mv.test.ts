@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { generateSource } from "./index.js";
+import { generateSource, mapWithDiagnostics, parse } from "./index.js";
 
 const map = {
   int64As: "bigint" as const,
@@ -9,16 +9,126 @@ const map = {
 };
 
 describe("Materialized View handling", () => {
-  it("ignores routing materialized views (TO/FOR)", () => {
+  it("records the TO target and types rows by the target table only", () => {
     const sql = `
       CREATE TABLE base (id UInt64, name String) ENGINE = MergeTree ORDER BY id;
-      CREATE MATERIALIZED VIEW mv_to TO base AS SELECT id, name FROM base;
+      CREATE TABLE copy (id UInt64, name String) ENGINE = MergeTree ORDER BY id;
+      CREATE MATERIALIZED VIEW db.mv_to ON CLUSTER main TO db.copy AS SELECT id, name FROM base;
     `;
+    expect(parse(sql)[2]).toMatchObject({
+      name: "mv_to",
+      mvFrom: "base",
+      mvTo: { database: "db", name: "copy" },
+    });
     const out = generateSource(sql, map, { emitZod: false });
     expect(out).toContain("export interface Base");
+    expect(out).toContain("export interface Copy");
     expect(out).not.toContain("export interface MvTo");
   });
 
+  it("warns about SELECT columns missing from the target or typed differently", () => {
+    const sql = `
+      CREATE TABLE events (id UInt64, user_id UInt32, kind LowCardinality(String), ts DateTime) ENGINE = MergeTree ORDER BY id;
+      CREATE TABLE daily (day Date, kind String, user_id UInt64, n UInt64, total UInt32) ENGINE = SummingMergeTree ORDER BY day;
+      CREATE MATERIALIZED VIEW mv_daily TO daily AS
+        SELECT toDate(ts) AS day, kind, user_id, count() AS n, sum(user_id) AS total, id AS event_id
+        FROM events GROUP BY day, kind, user_id;
+      CREATE MATERIALIZED VIEW mv_lost TO lost AS SELECT id FROM events;
+    `;
+    const { diagnostics } = mapWithDiagnostics(parse(sql), map);
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        message:
+          "Column 'user_id' is UInt32 but target table 'daily' declares UInt64",
+        table: "mv_daily",
+      },
+      {
+        severity: "warning",
+        message:
+          "Column 'total' is UInt64 but target table 'daily' declares UInt32",
+        table: "mv_daily",
+      },
+      {
+        severity: "warning",
+        message: "Column 'event_id' is not in target table 'daily'",
+        table: "mv_daily",
+      },
+      {
+        severity: "warning",
+        message: "Target table 'lost' was not found",
+        table: "mv_lost",
+      },
+    ]);
+  });
+
+  it("types -State columns as aggregate states and emits the merged row", () => {
+    const sql = `
+      CREATE TABLE events (id UInt64, user LowCardinality(String), amount UInt32, ts DateTime) ENGINE = MergeTree ORDER BY id;
+      CREATE TABLE daily (
+        day Date,
+        users AggregateFunction(uniq, String),
+        total AggregateFunction(sumIf, UInt32, UInt8),
+        last AggregateFunction(argMax, UInt32, DateTime)
+      ) ENGINE = AggregatingMergeTree ORDER BY day;
+      CREATE MATERIALIZED VIEW mv_daily TO daily AS
+        SELECT toDate(ts) AS day, uniqState(user) AS users,
+               sumIfState(amount, amount > 0) AS total, argMaxState(amount, ts) AS last
+        FROM events GROUP BY day;
+    `;
+    const { tables, diagnostics } = mapWithDiagnostics(parse(sql), map);
+    expect(diagnostics).toEqual([]);
+    expect(tables[1]!.columns[2]).toMatchObject({
+      tsType: "AggregateState<'sumIf'>",
+      aggregate: {
+        func: "sum",
+        combinators: ["If"],
+        args: [
+          { name: "UInt32", args: [] },
+          { name: "UInt8", args: [] },
+        ],
+      },
+      merged: { tsType: "bigint", chType: "UInt64" },
+    });
+
+    const out = generateSource(sql, map, { emitZod: true });
+    expect(out).toContain(
+      "export type AggregateState<F extends string> = string & { readonly __brand: 'AggregateState'; readonly __function: F };",
+    );
+    expect(out).toContain("export interface DailyMerged");
+    expect(out).toContain(
+      "DailyMergedSchema = z.object({ day: z.string(), users: z.bigint(), total: z.bigint(), last: z.number() })",
+    );
+    expect(out).not.toContain("EventsMerged");
+  });
+
+  it("exposes source → view → target lineage to emitters", () => {
+    const sql = `
+      CREATE TABLE events (id UInt64, ts DateTime) ENGINE = MergeTree ORDER BY id;
+      CREATE TABLE hourly (hour DateTime, n UInt64) ENGINE = SummingMergeTree ORDER BY hour;
+      CREATE MATERIALIZED VIEW mv_hourly TO hourly AS SELECT toStartOfHour(ts) AS hour, count() AS n FROM events GROUP BY hour;
+      CREATE MATERIALIZED VIEW latest ENGINE = ReplacingMergeTree ORDER BY id AS SELECT id, ts FROM events;
+    `;
+    const { tables } = mapWithDiagnostics(parse(sql), map);
+    expect(tables.map((t) => t.meta?.lineage)).toEqual([
+      [
+        { source: "events", view: "mv_hourly", target: "hourly" },
+        { source: "events", view: "latest", target: "latest" },
+      ],
+      [{ source: "events", view: "mv_hourly", target: "hourly" }],
+      [{ source: "events", view: "latest", target: "latest" }],
+    ]);
+    const out = generateSource(sql, map, {
+      emitZod: false,
+      emitMetadata: true,
+    });
+    expect(out).toContain(" * Lineage: events → mv_hourly → hourly\n");
+    expect(out).toContain(" * Lineage: events → latest\n");
+    expect(out).toContain(
+      'lineage: [{ source: "events", view: "mv_hourly", target: "hourly" }]',
+    );
+  });
+
   it("emits MV that stores data (no FOR/TO) and derives types from source table", () => {
     const sql = `
       CREATE TABLE base (id UInt64, name String, ts DateTime) ENGINE = MergeTree ORDER BY id;
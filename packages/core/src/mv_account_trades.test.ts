@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { generateSource } from "./index.js";
+import { generateSource, mapWithDiagnostics, parse } from "./index.js";
 
 const map = {
   int64As: "bigint" as const,
@@ -41,20 +41,103 @@ GROUP BY timestamp, account, token;
 `;
     const out = generateSource(sql, map, { emitZod: false });
     expect(out).toMatch(/export interface SolanaAccountTradesDaily/);
-    // Core fields
+    // solana_swaps_raw is not in the input, so only columns typed by their
+    // function (or by the casts inside the CTE) are known
     expect(out).toMatch(/timestamp: string/);
-    expect(out).toMatch(/token: string/);
-    expect(out).toMatch(/account: string/);
-    // Aggregates should map to number
-    expect(out).toMatch(/buyCount: number/);
-    expect(out).toMatch(/sellCount: number/);
-    expect(out).toMatch(/buyAmount: number/);
-    expect(out).toMatch(/sellAmount: number/);
-    expect(out).toMatch(/buyAmountUsdc: number/);
-    expect(out).toMatch(/sellAmountUsdc: number/);
-    expect(out).toMatch(/profitUsdc: number/);
-    expect(out).toMatch(/costUsdc: number/);
-    expect(out).toMatch(/balance: number/);
-    expect(out).toMatch(/acquisitionCostUsd: number/);
+    expect(out).toMatch(/token: unknown/);
+    expect(out).toMatch(/account: unknown/);
+    expect(out).toMatch(/buyCount: AggregateState<'countIf'>/);
+    expect(out).toMatch(/sellCount: AggregateState<'countIf'>/);
+    expect(out).toMatch(/buyAmount: unknown/);
+    expect(out).toMatch(/sellAmount: unknown/);
+    expect(out).toMatch(/buyAmountUsdc: unknown/);
+    expect(out).toMatch(/sellAmountUsdc: unknown/);
+    expect(out).toMatch(/profitUsdc: AggregateState<'sum'>/);
+    expect(out).toMatch(/costUsdc: AggregateState<'sum'>/);
+    expect(out).toMatch(/balance: AggregateState<'anyLast'>/);
+    expect(out).toMatch(/acquisitionCostUsd: AggregateState<'max'>/);
+
+    const { diagnostics } = mapWithDiagnostics(parse(sql), map);
+    expect(diagnostics.map((d) => d.message)).toEqual(
+      [
+        "token",
+        "account",
+        "buy_amount",
+        "sell_amount",
+        "buy_amount_usdc",
+        "sell_amount_usdc",
+      ].map(
+        (name) =>
+          `Type of column '${name}' could not be inferred from the query; typed as unknown`,
+      ),
+    );
+  });
+
+  it("types aggregate states from a source table in the input", () => {
+    const sql = `
+CREATE TABLE solana_swaps_raw (
+  timestamp DateTime, transaction_index UInt32, instruction_address String,
+  token_a String, account String, amount_a Float64, token_a_usdc_price Float64,
+  token_a_balance Decimal(38, 9), token_a_acquisition_cost_usd Decimal(38, 9),
+  token_a_profit_usdc Decimal(38, 9), token_a_cost_usdc Decimal(38, 9)
+) ENGINE = MergeTree ORDER BY timestamp;
+CREATE MATERIALIZED VIEW IF NOT EXISTS solana_account_trades_daily ENGINE AggregatingMergeTree() ORDER BY (timestamp, account, token)
+AS
+WITH trades AS (
+  SELECT timestamp, transaction_index, instruction_address, token_a as token, account,
+         amount_a AS amount, amount_a * token_a_usdc_price AS amount_usdc,
+         toFloat64(token_a_balance) AS balance,
+         toFloat64(token_a_acquisition_cost_usd) AS acquisition_cost_usd,
+         toFloat64(token_a_profit_usdc) AS profit_usdc,
+         toFloat64(token_a_cost_usdc) AS cost_usdc
+  FROM solana_swaps_raw
+)
+SELECT
+    toStartOfDay(timestamp) as timestamp,
+    token,
+    account,
+    countIfState(amount > 0) as buy_count,
+    countIfState(amount < 0) as sell_count,
+    sumStateIf(abs(amount), amount > 0) as buy_amount,
+    sumStateIf(abs(amount), amount < 0) as sell_amount,
+    sumStateIf(abs(amount_usdc), amount > 0) as buy_amount_usdc,
+    sumStateIf(abs(amount_usdc), amount < 0) as sell_amount_usdc,
+    sumState(profit_usdc) as profit_usdc,
+    sumState(cost_usdc) as cost_usdc,
+    anyLastState(balance) as balance,
+    maxState(acquisition_cost_usd) as acquisition_cost_usd
+FROM trades
+GROUP BY timestamp, account, token;
+`;
+    const out = generateSource(sql, map, { emitZod: false });
+    const [stored, merged] = out
+      .split("export interface SolanaAccountTradesDaily")
+      .slice(1);
+    // Core fields
+    expect(stored).toMatch(/timestamp: string/);
+    expect(stored).toMatch(/token: string/);
+    expect(stored).toMatch(/account: string/);
+    // -State columns store aggregate states, typed by function and arguments
+    expect(stored).toContain(
+      "Original: AggregateFunction(countIf,UInt8) */\n  buyCount: AggregateState<'countIf'>",
+    );
+    expect(stored).toContain(
+      "Original: AggregateFunction(sum,Float64) */\n  buyAmount: AggregateState<'sum'>",
+    );
+    expect(stored).toContain(
+      "Original: AggregateFunction(anyLast,Float64) */\n  balance: AggregateState<'anyLast'>",
+    );
+    // The merged row has what -Merge returns: count is UInt64, the rest Float64
+    expect(merged).toMatch(/^Merged \{/);
+    expect(merged).toMatch(/buyCount: bigint/);
+    expect(merged).toMatch(/sellCount: bigint/);
+    expect(merged).toMatch(/buyAmount: number/);
+    expect(merged).toMatch(/sellAmount: number/);
+    expect(merged).toMatch(/buyAmountUsdc: number/);
+    expect(merged).toMatch(/sellAmountUsdc: number/);
+    expect(merged).toMatch(/profitUsdc: number/);
+    expect(merged).toMatch(/costUsdc: number/);
+    expect(merged).toMatch(/balance: number/);
+    expect(merged).toMatch(/acquisitionCostUsd: number/);
   });
 });
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { generateSource, mapWithDiagnostics, parse } from "./index.js";
+
+const map = {
+  int64As: "bigint" as const,
+  decimal: "string" as const,
+  datetimeAs: "string" as const,
+  camelCase: false,
+};
+
+const tables = `
+  CREATE TABLE swaps (id UInt64, token_id UInt32, amount Float64, ts DateTime, tags Array(String)) ENGINE = MergeTree ORDER BY id;
+  CREATE TABLE tokens (id UInt32, symbol LowCardinality(String), decimals UInt8) ENGINE = MergeTree ORDER BY id;
+`;
+
+/**
+ * ClickHouse types of a view's columns after mapping.
+ * @param {string} sql - DDL with the view last
+ * @returns {Record<string, string>} Column name to ClickHouse type
+ */
+function viewTypes(sql: string): Record<string, string> {
+  const { tables: mapped } = mapWithDiagnostics(parse(sql), map);
+  const view = mapped[mapped.length - 1]!;
+  return Object.fromEntries(view.columns.map((c) => [c.name, c.chType]));
+}
+
+describe("Materialized View SELECT resolution", () => {
+  it("resolves qualified columns through JOIN aliases", () => {
+    const sql = `${tables}
+      CREATE MATERIALIZED VIEW enriched ENGINE = MergeTree ORDER BY id AS
+        SELECT s.id, t.id AS token, symbol, s.amount, max(t.decimals) AS decimals
+        FROM swaps AS s
+        LEFT ANY JOIN tokens t ON s.token_id = t.id AND t.decimals > 0
+        WHERE s.amount > 0;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      token: "UInt32",
+      symbol: "LowCardinality(String)",
+      amount: "Float64",
+      decimals: "UInt8",
+    });
+    expect(parse(sql)[2]!.mvQuery!.sources).toEqual([
+      { table: { name: "swaps" }, alias: "s" },
+      { table: { name: "tokens" }, alias: "t" },
+    ]);
+  });
+
+  it("types ARRAY JOIN columns by their element type", () => {
+    const sql = `${tables}
+      CREATE VIEW tagged AS
+        SELECT id, tag, tags FROM swaps ARRAY JOIN tags AS tag;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      tag: "String",
+      tags: "Array(String)",
+    });
+  });
+
+  it("follows subqueries, CTEs and other views to the source table", () => {
+    const sql = `${tables}
+      CREATE VIEW big AS SELECT id, amount AS size FROM swaps WHERE amount > 100;
+      CREATE MATERIALIZED VIEW nested ENGINE = MergeTree ORDER BY id AS
+        WITH 10 AS threshold, sym AS (SELECT id AS sid, symbol FROM tokens)
+        SELECT x.id, x.size, sym.symbol, toStartOfDay(x.ts) AS day
+        FROM (SELECT b.id, b.size, s.ts, s.token_id FROM big b JOIN swaps s USING (id)) AS x
+        INNER JOIN sym ON x.token_id = sym.sid;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      size: "Float64",
+      symbol: "LowCardinality(String)",
+      day: "DateTime",
+    });
+    expect(parse(sql)[3]!.mvFrom).toBe("big");
+  });
+
+  it("types expressions and WITH aliases from the columns they read", () => {
+    const sql = `${tables}
+      CREATE MATERIALIZED VIEW stats ENGINE = MergeTree ORDER BY id AS
+        WITH amount * 2 AS doubled
+        SELECT s.id, doubled, sum(s.token_id) AS ids, t.decimals + 1 AS scale,
+               if(doubled > 0, t.symbol, 'none') AS label, length(tags) AS n
+        FROM swaps s JOIN tokens t ON s.token_id = t.id
+        GROUP BY s.id, doubled, scale, label, n;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      doubled: "Float64",
+      ids: "UInt64",
+      scale: "UInt16",
+      label: "String",
+      n: "UInt64",
+    });
+  });
+
+  it("types a leading unary minus as signed", () => {
+    const sql = `${tables}
+      CREATE MATERIALIZED VIEW negated ENGINE = MergeTree ORDER BY id AS
+        SELECT id, -token_id AS neg, - decimals AS small, -token_id + 1 AS next
+        FROM swaps JOIN tokens ON swaps.token_id = tokens.id;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      neg: "Int64",
+      small: "Int16",
+      next: "Int64",
+    });
+  });
+
+  it("reads columns through Distributed tables and AS clones", () => {
+    const sql = `${tables}
+      CREATE TABLE swaps_dist ENGINE = Distributed('cluster', default, swaps, rand());
+      CREATE TABLE tokens_copy AS tokens;
+      CREATE VIEW priced AS
+        SELECT s.id, s.amount, t.symbol
+        FROM swaps_dist s JOIN tokens_copy t ON s.token_id = t.id;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      amount: "Float64",
+      symbol: "LowCardinality(String)",
+    });
+  });
+
+  it("keeps commas inside array and map literals within their item", () => {
+    const sql = `${tables}
+      CREATE MATERIALIZED VIEW literals ENGINE = MergeTree ORDER BY id AS
+        SELECT id, [1, 2] AS arr, {'a': 1, 'b': 2} AS weights, tags[1] AS first_tag
+        FROM swaps;`;
+    expect(viewTypes(sql)).toEqual({
+      id: "UInt64",
+      arr: "Array(UInt8)",
+      weights: "Unknown",
+      first_tag: "String",
+    });
+  });
+
+  it("warns about columns it cannot trace instead of guessing a type", () => {
+    const sql = `${tables}
+      CREATE MATERIALIZED VIEW lost ENGINE = MergeTree ORDER BY id AS
+        SELECT id, u.name, geoRank(id) AS seen FROM swaps JOIN users u ON swaps.id = u.id;`;
+    const { tables: mapped, diagnostics } = mapWithDiagnostics(parse(sql), map);
+    expect(mapped[2]!.columns.map((c) => c.tsType)).toEqual([
+      "bigint",
+      "unknown",
+      "unknown",
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Type of column 'name' could not be inferred from the query; typed as unknown",
+      "Type of column 'seen' could not be inferred from the query; typed as unknown",
+    ]);
+    expect(generateSource(sql, map, { emitZod: false })).toContain(
+      "name: unknown;",
+    );
+  });
+});
@@ -19,3 +19,23 @@ describe("multiple statements in one file", () => {
     expect(out).toMatch(/export interface Mv[\s\S]*label: string/);
   });
 });
+
+describe("statement splitting", () => {
+  it("ignores semicolons inside strings and comments", () => {
+    const sql = `
+      -- TODO; split raw table
+      CREATE TABLE notes (
+        id UInt64 COMMENT 'primary; unique',
+        sep String DEFAULT ';',
+        body String /* may contain ; too */
+      ) ENGINE = MergeTree ORDER BY id;
+      CREATE TABLE other (id UInt64) ENGINE = MergeTree ORDER BY id;
+    `;
+    const out = generateSource(sql, map, { emitZod: false });
+    expect(out).toMatch(/export interface Notes[\s\S]*id: bigint/);
+    expect(out).toContain("Original: UInt64 — primary; unique");
+    expect(out).toContain("sep: string");
+    expect(out).toContain("body: string");
+    expect(out).toContain("export interface Other");
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { parse } from "./index.js";
+import { parse, parseWithDiagnostics } from "./index.js";
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
 
@@ -13,6 +13,7 @@ describe("DDL parser (Phase 2)", () => {
     expect(ast).toMatchInlineSnapshot(`
       [
         {
+          "asTable": undefined,
           "columns": [
             {
               "comment": undefined,
@@ -35,9 +36,17 @@ describe("DDL parser (Phase 2)", () => {
               },
             },
           ],
+          "comment": undefined,
+          "database": undefined,
+          "engine": undefined,
+          "line": 1,
           "name": "events",
           "orderBy": undefined,
           "partitionBy": undefined,
+          "primaryKey": undefined,
+          "sampleBy": undefined,
+          "settings": undefined,
+          "ttl": undefined,
         },
       ]
     `);
@@ -56,4 +65,382 @@ describe("DDL parser (Phase 2)", () => {
     expect(ast[0]?.columns.length).toBe(6);
     expect(JSON.parse(JSON.stringify(ast))).toMatchSnapshot();
   });
+
+  it("reports failed statements as diagnostics with positions", () => {
+    const sql = [
+      "CREATE TABLE ok (id UInt64);",
+      "",
+      "CREATE TABLE broken (",
+      "  id UInt64,",
+      "  tags Array(String COMMENT 'x'",
+      ");",
+    ].join("\n");
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables.map((t) => t.name)).toEqual(["ok"]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        message: "Expected ) but found 'COMMENT'",
+        statementIndex: 1,
+        token: "COMMENT",
+        line: 5,
+        column: 21,
+      },
+    ]);
+  });
+
+  it("reports a statement the parser rejects outright and keeps going", () => {
+    const columns = Array.from({ length: 3400 }, (_, i) => `c${i} UInt8`);
+    const sql = [
+      `CREATE TABLE wide (${columns.join(", ")});`,
+      "CREATE TABLE ok (id UInt64);",
+    ].join("\n");
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables.map((t) => t.name)).toEqual(["ok"]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        message: "Token count exceeds safety limit",
+        statementIndex: 0,
+        token: undefined,
+        line: 1,
+        column: 1,
+      },
+    ]);
+  });
+
+  it("skips CREATE statements for objects other than tables and views", () => {
+    const sql = `
+      CREATE DATABASE IF NOT EXISTS analytics;
+      CREATE FUNCTION double AS (x) -> x * 2;
+      CREATE DICTIONARY names (id UInt64, name String) PRIMARY KEY id
+        SOURCE(CLICKHOUSE(TABLE 'names')) LAYOUT(FLAT()) LIFETIME(300);
+      CREATE USER reader IDENTIFIED WITH no_password;
+      CREATE TEMPORARY TABLE scratch (id UInt64);
+      CREATE OR REPLACE TABLE events (id UInt64) ENGINE = MergeTree ORDER BY id;
+    `;
+    const { tables, diagnostics } = parseWithDiagnostics(sql);
+    expect(tables.map((t) => t.name)).toEqual(["scratch", "events"]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("parses DEFAULT, MATERIALIZED, ALIAS and EPHEMERAL columns", () => {
+    const sql = `CREATE TABLE t (
+      id UInt64,
+      created DateTime COMMENT 'insert time' DEFAULT now(),
+      total Float64 MATERIALIZED abs(a * price) + abs(b * price),
+      day Date ALIAS toDate(created),
+      raw String EPHEMERAL,
+      code String EPHEMERAL 'x' CODEC(ZSTD(1)),
+      tail UInt8
+    )`;
+    const columns = parse(sql)[0]?.columns ?? [];
+    expect(
+      columns.map(({ name, kind, default: d, comment }) => ({
+        name,
+        kind,
+        default: d,
+        comment,
+      })),
+    ).toEqual([
+      { name: "id", kind: undefined, default: undefined, comment: undefined },
+      {
+        name: "created",
+        kind: "default",
+        default: "now()",
+        comment: "insert time",
+      },
+      {
+        name: "total",
+        kind: "materialized",
+        default: "abs(a * price) + abs(b * price)",
+        comment: undefined,
+      },
+      {
+        name: "day",
+        kind: "alias",
+        default: "toDate(created)",
+        comment: undefined,
+      },
+      {
+        name: "raw",
+        kind: "ephemeral",
+        default: undefined,
+        comment: undefined,
+      },
+      { name: "code", kind: "ephemeral", default: "'x'", comment: undefined },
+      { name: "tail", kind: undefined, default: undefined, comment: undefined },
+    ]);
+  });
+
+  it("accepts columns named alias and ephemeral", () => {
+    const sql = `CREATE TABLE t (
+      alias String,
+      ephemeral UInt8 ALIAS length(alias),
+      x UInt8 EPHEMERAL
+    )`;
+    const columns = parse(sql)[0]?.columns ?? [];
+    expect(columns.map(({ name, kind }) => ({ name, kind }))).toEqual([
+      { name: "alias", kind: undefined },
+      { name: "ephemeral", kind: "alias" },
+      { name: "x", kind: "ephemeral" },
+    ]);
+  });
+
+  it("keeps element names of named tuples", () => {
+    const sql = `CREATE TABLE t (
+      point Tuple(price Float64, \`qty\` Nullable(UInt32)),
+      pair Tuple(String, UInt8)
+    )`;
+    const [point, pair] = parse(sql)[0]?.columns ?? [];
+    expect(point?.type).toEqual({
+      name: "Tuple",
+      args: [
+        { name: "Float64", args: [] },
+        { name: "Nullable", args: [{ name: "UInt32", args: [] }] },
+      ],
+      elementNames: ["price", "qty"],
+    });
+    expect(pair?.type.elementNames).toBeUndefined();
+  });
+
+  it("keeps aggregate functions apart from the argument types", () => {
+    const sql = `CREATE TABLE t (
+      q AggregateFunction(quantiles(0.5, 0.9), UInt64),
+      s SimpleAggregateFunction(anyLast, LowCardinality(String)),
+      c AggregateFunction(count),
+      g AggregateFunction(groupArraySample(5, -1), String)
+    )`;
+    const [q, s, c, g] = parse(sql)[0]?.columns ?? [];
+    expect(q?.type).toEqual({
+      name: "AggregateFunction",
+      args: [{ name: "UInt64", args: [] }],
+      aggregate: { name: "quantiles", params: [0.5, 0.9] },
+    });
+    expect(s?.type).toEqual({
+      name: "SimpleAggregateFunction",
+      args: [{ name: "LowCardinality", args: [{ name: "String", args: [] }] }],
+      aggregate: { name: "anyLast", params: [] },
+    });
+    expect(c?.type).toEqual({
+      name: "AggregateFunction",
+      args: [],
+      aggregate: { name: "count", params: [] },
+    });
+    expect(g?.type.aggregate).toEqual({
+      name: "groupArraySample",
+      params: [5, -1],
+    });
+  });
+
+  it("parses JSON typed paths, settings and SKIP hints", () => {
+    const sql = `CREATE TABLE t (
+      j JSON(max_dynamic_paths = 64, a.b UInt32, \`c\` String, SKIP a.d, SKIP REGEXP 'tmp.*'),
+      d Dynamic(max_types = 8)
+    )`;
+    const [j, d] = parse(sql)[0]?.columns ?? [];
+    expect(j?.type).toEqual({
+      name: "JSON",
+      args: [
+        { name: "UInt32", args: [] },
+        { name: "String", args: [] },
+      ],
+      elementNames: ["a.b", "c"],
+      settings: { max_dynamic_paths: 64 },
+      skip: [{ path: "a.d" }, { regexp: "tmp.*" }],
+    });
+    expect(j?.rawType).toBe(
+      "JSON(max_dynamic_paths=64,a.b UInt32,`c` String,SKIP a.d,SKIP REGEXP 'tmp.*')",
+    );
+    expect(d?.type).toEqual({
+      name: "Dynamic",
+      args: [],
+      settings: { max_types: 8 },
+    });
+  });
+
+  it("parses negative and implicit enum values", () => {
+    const sql = `CREATE TABLE t (
+      signed Enum8('down' = -1, 'flat' = 0, 'up' = 1),
+      implicit Enum8('a', 'b', 'c'),
+      wide Enum('low' = -200, 'high' = 200),
+      mixed Enum8('k' = 5, 'l', 'm' = -3, 'n')
+    )`;
+    const [signed, implicit, wide, mixed] = parse(sql)[0]?.columns ?? [];
+    expect(signed?.type.args).toEqual([
+      { key: "down", value: -1 },
+      { key: "flat", value: 0 },
+      { key: "up", value: 1 },
+    ]);
+    expect(signed?.rawType).toBe("Enum8('down'=-1,'flat'=0,'up'=1)");
+    expect(implicit?.type.args).toEqual([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+      { key: "c", value: 3 },
+    ]);
+    expect(wide?.type.name).toBe("Enum16");
+    expect(mixed?.type.args).toEqual([
+      { key: "k", value: 5 },
+      { key: "l", value: 6 },
+      { key: "m", value: -3 },
+      { key: "n", value: -2 },
+    ]);
+
+    const { diagnostics } = parseWithDiagnostics(
+      "CREATE TABLE t (e Enum8('a' = 2, 'b' = 1, 'c'))",
+    );
+    expect(diagnostics[0]?.message).toBe("Duplicate Enum8 value 2");
+  });
+
+  it("captures ENGINE names and arguments", () => {
+    const sql = `
+      CREATE TABLE a (id UInt64) ENGINE = ReplacingMergeTree(version, is_deleted);
+      CREATE TABLE b (id UInt64) ENGINE = Distributed('cluster', default, b_local, rand());
+      CREATE TABLE c (id UInt64) ENGINE MergeTree ORDER BY id;
+    `;
+    expect(parse(sql).map((t) => t.engine)).toEqual([
+      {
+        name: "ReplacingMergeTree",
+        args: [
+          { raw: "version", identifier: "version" },
+          { raw: "is_deleted", identifier: "is_deleted" },
+        ],
+      },
+      {
+        name: "Distributed",
+        args: [
+          { raw: "'cluster'", value: "cluster" },
+          { raw: "default", identifier: "default" },
+          { raw: "b_local", identifier: "b_local" },
+          { raw: "rand()" },
+        ],
+      },
+      { name: "MergeTree", args: [] },
+    ]);
+  });
+
+  it("parses PRIMARY KEY, SAMPLE BY, TTL and SETTINGS clauses", () => {
+    const sql = `CREATE TABLE t (
+      d DateTime TTL d + INTERVAL 1 DAY,
+      key String,
+      PRIMARY KEY (d)
+    ) ENGINE = MergeTree
+    PARTITION BY toYYYYMM(d)
+    ORDER BY (d, key)
+    SAMPLE BY intHash32(key)
+    TTL d + INTERVAL 30 DAY DELETE, d + INTERVAL 7 DAY TO VOLUME 'cold'
+    SETTINGS index_granularity = 8192, storage_policy = 'tiered'`;
+    const table = parse(sql)[0];
+    expect(table?.columns.map((c) => [c.name, c.ttl])).toEqual([
+      ["d", "d + INTERVAL 1 DAY"],
+      ["key", undefined],
+    ]);
+    expect(table).toMatchObject({
+      partitionBy: "toYYYYMM(d)",
+      orderBy: "(d, key)",
+      primaryKey: "(d)",
+      sampleBy: "intHash32(key)",
+      ttl: "d + INTERVAL 30 DAY DELETE, d + INTERVAL 7 DAY TO VOLUME 'cold'",
+      settings: { index_granularity: 8192, storage_policy: "tiered" },
+    });
+  });
+
+  it("captures the table COMMENT and the statement line", () => {
+    const sql = `CREATE TABLE a (x UInt8) ENGINE = Memory;
+
+CREATE TABLE b (x UInt8) ENGINE = MergeTree ORDER BY x
+COMMENT 'Raw swaps from the indexer';`;
+    const [a, b] = parse(sql);
+    expect(a).toMatchObject({ name: "a", line: 1 });
+    expect(a?.comment).toBeUndefined();
+    expect(b).toMatchObject({
+      name: "b",
+      line: 3,
+      orderBy: "x",
+      comment: "Raw swaps from the indexer",
+    });
+  });
+
+  it("parses INDEX, PROJECTION and CONSTRAINT declarations", () => {
+    const sql = `CREATE TABLE t (
+      index UInt32,
+      projection Array(UInt8),
+      account String,
+      amount Decimal(18, 2),
+      INDEX idx_account (account) TYPE bloom_filter(0.01) GRANULARITY 4,
+      INDEX idx_amount amount TYPE minmax,
+      PROJECTION by_account (SELECT account, sum(amount) GROUP BY account),
+      CONSTRAINT positive CHECK amount >= 0,
+      CONSTRAINT hint ASSUME length(account) > 0
+    ) ENGINE = MergeTree ORDER BY index`;
+    const table = parse(sql)[0];
+    expect(table?.columns.map((c) => c.name)).toEqual([
+      "index",
+      "projection",
+      "account",
+      "amount",
+    ]);
+    expect(table?.indexes).toEqual([
+      {
+        name: "idx_account",
+        expression: "(account)",
+        type: "bloom_filter(0.01)",
+        granularity: 4,
+      },
+      { name: "idx_amount", expression: "amount", type: "minmax" },
+    ]);
+    expect(table?.projections).toEqual([
+      {
+        name: "by_account",
+        query: "SELECT account, sum(amount) GROUP BY account",
+      },
+    ]);
+    expect(table?.constraints).toEqual([
+      { name: "positive", kind: "check", expression: "amount >= 0" },
+      { name: "hint", kind: "assume", expression: "length(account) > 0" },
+    ]);
+    expect(table?.orderBy).toBe("index");
+  });
+
+  it("keeps the sign of a leading negative literal in expressions", () => {
+    const sql = `CREATE TABLE t (
+      price Float64 DEFAULT -1,
+      CONSTRAINT floor CHECK -5 <= price,
+      CONSTRAINT ceiling CHECK /* - */ price < 100
+    ) ENGINE = MergeTree ORDER BY price`;
+    const table = parse(sql)[0];
+    expect(table?.columns[0]?.default).toBe("-1");
+    expect(table?.constraints?.map((c) => c.expression)).toEqual([
+      "-5 <= price",
+      "price < 100",
+    ]);
+  });
+
+  it("parses backtick and double-quoted identifiers", () => {
+    const sql =
+      'CREATE TABLE `my-db`.`events` (`user-agent` String, "order" UInt8, ' +
+      '`1st` String, `a``b` String, "c\\"d" String, `e""f` String, "g``h" String)';
+    const table = parse(sql)[0];
+    expect(table?.database).toBe("my-db");
+    expect(table?.name).toBe("events");
+    expect(table?.columns.map((c) => c.name)).toEqual([
+      "user-agent",
+      "order",
+      "1st",
+      "a`b",
+      'c"d',
+      'e""f',
+      "g``h",
+    ]);
+  });
+
+  it("reports bare identifiers that start with a digit", () => {
+    const { tables, diagnostics } = parseWithDiagnostics(
+      "CREATE TABLE t (1col UInt8)",
+    );
+    expect(tables).toEqual([]);
+    expect(diagnostics[0]?.message).toBe(
+      "Identifier 1col starts with a digit; quote it as `1col`",
+    );
+  });
 });
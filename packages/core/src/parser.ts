@@ -1,13 +1,41 @@
 import type { IToken, TokenType } from "chevrotain";
-import { assert } from "./ast-utils.js";
-import type { TableAst, ColumnAst, TypeAst, TypeArg } from "./types.js";
+import { assert, isEnumMember } from "./ast-utils.js";
+import type {
+  TableAst,
+  ColumnAst,
+  ColumnKind,
+  EngineArg,
+  EngineAst,
+  TableRef,
+  TypeAst,
+  TypeArg,
+  EnumMember,
+  AggregateFunctionRef,
+  JsonSkipHint,
+  IndexAst,
+  ProjectionAst,
+  ConstraintAst,
+  AlterCommand,
+  ColumnChanges,
+  SchemaChange,
+  ViewParameterAst,
+  SelectQueryAst,
+  SelectSourceAst,
+  SelectItemAst,
+  ArrayJoinAst,
+} from "./types.js";
 import {
   ddlLexer,
   LParen,
   RParen,
+  LBracket,
+  RBracket,
+  LBrace,
+  RBrace,
   Comma,
   Dot,
   Eq,
+  Minus,
   Create,
   Table,
   Materialized,
@@ -33,29 +61,307 @@ import {
   Identifier,
 } from "./tokens.js";
 
+/**
+ * Error raised when a statement cannot be parsed.
+ * Carries the offending token so callers can report a source position.
+ */
+export class ParseError extends Error {
+  constructor(
+    message: string,
+    readonly token?: IToken,
+  ) {
+    super(message);
+    this.name = "ParseError";
+  }
+}
+
+/** Tables parsed from a DDL fragment plus the errors that were recovered from. */
+export interface ParseOutcome {
+  readonly tables: readonly TableAst[];
+  readonly errors: readonly ParseError[];
+}
+
 /** Maximum parser recursion depth for safety. */
 const MAX_PARSER_DEPTH = 100;
 
+/** Maximum number of query parameters collected per view. */
+const MAX_VIEW_PARAMETERS = 100;
+
+/** `{name:Type}` query parameter placeholder. */
+const VIEW_PARAMETER = /\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*([^{}]+?)\s*\}/g;
+
+/** Words that may precede JOIN, e.g. `LEFT ANY JOIN`. */
+const JOIN_MODIFIERS = new Set([
+  "global",
+  "local",
+  "any",
+  "all",
+  "asof",
+  "semi",
+  "anti",
+  "inner",
+  "left",
+  "right",
+  "full",
+  "outer",
+  "cross",
+  "paste",
+]);
+
+/** Words that start a query clause after FROM. */
+const QUERY_CLAUSES = new Set([
+  "prewhere",
+  "where",
+  "group",
+  "having",
+  "window",
+  "qualify",
+  "limit",
+  "union",
+  "except",
+  "intersect",
+  "settings",
+  "format",
+]);
+
+/** Words after a FROM or JOIN source that are not its alias. */
+const SOURCE_ALIAS_STOP = new Set([
+  ...JOIN_MODIFIERS,
+  ...QUERY_CLAUSES,
+  "array",
+  "join",
+  "on",
+  "using",
+  "final",
+  "sample",
+]);
+
+/** Type names ClickHouse accepts in any letter case. */
+const TYPE_NAMES = [
+  "Nullable",
+  "LowCardinality",
+  "Array",
+  "Tuple",
+  "Nested",
+  "Map",
+  "Enum",
+  "Enum8",
+  "Enum16",
+  "Int8",
+  "Int16",
+  "Int32",
+  "Int64",
+  "Int128",
+  "Int256",
+  "UInt8",
+  "UInt16",
+  "UInt32",
+  "UInt64",
+  "UInt128",
+  "UInt256",
+  "Float32",
+  "Float64",
+  "BFloat16",
+  "Decimal",
+  "Decimal32",
+  "Decimal64",
+  "Decimal128",
+  "Decimal256",
+  "Bool",
+  "String",
+  "FixedString",
+  "UUID",
+  "IPv4",
+  "IPv6",
+  "Date",
+  "Date32",
+  "DateTime",
+  "DateTime64",
+  "Time",
+  "Time64",
+  "Nothing",
+  "JSON",
+  "Object",
+  "Variant",
+  "Dynamic",
+  "Point",
+  "Ring",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+  "AggregateFunction",
+  "SimpleAggregateFunction",
+  "IntervalNanosecond",
+  "IntervalMicrosecond",
+  "IntervalMillisecond",
+  "IntervalSecond",
+  "IntervalMinute",
+  "IntervalHour",
+  "IntervalDay",
+  "IntervalWeek",
+  "IntervalMonth",
+  "IntervalQuarter",
+  "IntervalYear",
+];
+
+/** SQL-standard and MySQL-compatible type aliases, by lowercase spelling. */
+const TYPE_ALIASES: ReadonlyMap<string, string> = new Map([
+  ["tinyint", "Int8"],
+  ["tinyint signed", "Int8"],
+  ["int1", "Int8"],
+  ["int1 signed", "Int8"],
+  ["byte", "Int8"],
+  ["tinyint unsigned", "UInt8"],
+  ["int1 unsigned", "UInt8"],
+  ["smallint", "Int16"],
+  ["smallint signed", "Int16"],
+  ["smallint unsigned", "UInt16"],
+  ["year", "UInt16"],
+  ["int", "Int32"],
+  ["int signed", "Int32"],
+  ["integer", "Int32"],
+  ["integer signed", "Int32"],
+  ["mediumint", "Int32"],
+  ["mediumint signed", "Int32"],
+  ["int unsigned", "UInt32"],
+  ["integer unsigned", "UInt32"],
+  ["mediumint unsigned", "UInt32"],
+  ["bigint", "Int64"],
+  ["bigint signed", "Int64"],
+  ["signed", "Int64"],
+  ["bigint unsigned", "UInt64"],
+  ["unsigned", "UInt64"],
+  ["bit", "UInt64"],
+  ["set", "UInt64"],
+  ["float", "Float32"],
+  ["real", "Float32"],
+  ["single", "Float32"],
+  ["double", "Float64"],
+  ["double precision", "Float64"],
+  ["dec", "Decimal"],
+  ["numeric", "Decimal"],
+  ["fixed", "Decimal"],
+  ["boolean", "Bool"],
+  ["text", "String"],
+  ["tinytext", "String"],
+  ["mediumtext", "String"],
+  ["longtext", "String"],
+  ["blob", "String"],
+  ["tinyblob", "String"],
+  ["mediumblob", "String"],
+  ["longblob", "String"],
+  ["bytea", "String"],
+  ["clob", "String"],
+  ["char", "String"],
+  ["character", "String"],
+  ["varchar", "String"],
+  ["varchar2", "String"],
+  ["nchar", "String"],
+  ["nvarchar", "String"],
+  ["varbinary", "String"],
+  ["char varying", "String"],
+  ["character varying", "String"],
+  ["nchar varying", "String"],
+  ["national char", "String"],
+  ["national character", "String"],
+  ["national char varying", "String"],
+  ["national character varying", "String"],
+  ["binary varying", "String"],
+  ["char large object", "String"],
+  ["character large object", "String"],
+  ["nchar large object", "String"],
+  ["national character large object", "String"],
+  ["binary large object", "String"],
+  ["binary", "FixedString"],
+  ["timestamp", "DateTime"],
+  ["inet4", "IPv4"],
+  ["inet6", "IPv6"],
+]);
+
+/** Canonical type names by lowercase spelling, aliases included. */
+const CANONICAL_TYPE_NAMES: ReadonlyMap<string, string> = new Map([
+  ...TYPE_NAMES.map((name): [string, string] => [name.toLowerCase(), name]),
+  ...TYPE_ALIASES,
+]);
+
+/** Leading words of multi-word aliases, e.g. `double` and `national char`. */
+const TYPE_ALIAS_PREFIXES = new Set(
+  [...TYPE_ALIASES.keys()].flatMap((alias) => {
+    const words = alias.split(" ");
+    return words.slice(1).map((_, i) => words.slice(0, i + 1).join(" "));
+  }),
+);
+
+/** Types whose arguments ClickHouse accepts and ignores, e.g. `VARCHAR(255)`. */
+const TYPES_IGNORING_ARGS = new Set([
+  "String",
+  "Float32",
+  "Float64",
+  "Int8",
+  "Int16",
+  "Int32",
+  "Int64",
+  "UInt8",
+  "UInt16",
+  "UInt32",
+  "UInt64",
+]);
+
+/** Definitions of a WITH clause. */
+interface WithClause {
+  readonly ctes: { name: string; query: SelectQueryAst }[];
+  readonly expressions: SelectItemAst[];
+}
+
+/** Kind of object a CREATE statement defines. */
+type TableKind = "table" | "view" | "materializedView";
+
+/** Table-level clauses that may follow ENGINE. */
+type TableClauses = Pick<
+  TableAst,
+  | "partitionBy"
+  | "orderBy"
+  | "primaryKey"
+  | "sampleBy"
+  | "ttl"
+  | "settings"
+  | "comment"
+>;
+
+/** Elements of a column list: columns plus INDEX, PROJECTION, CONSTRAINT and PRIMARY KEY declarations. */
+type ColumnList = Pick<
+  TableAst,
+  "columns" | "primaryKey" | "indexes" | "projections" | "constraints"
+>;
+
 /** Parser state with explicit bounds. */
 interface ParserState {
   readonly tokens: readonly IToken[];
   position: number;
   readonly maxTokens: number;
+  /** Source text the tokens were lexed from, for raw expression capture. */
+  readonly text: string;
 }
 
 /**
  * Create initial parser state with bounds checking.
  * Validates token count doesn't exceed safety limit and initializes position tracking.
  * @param {readonly IToken[]} tokens - Array of lexed tokens
+ * @param {string} text - Source text the tokens were lexed from
  * @returns {ParserState} Initialized parser state
  * @throws {Error} When token count exceeds 10,000 limit
  */
-function createParserState(tokens: readonly IToken[]): ParserState {
+function createParserState(
+  tokens: readonly IToken[],
+  text: string,
+): ParserState {
   assert(tokens.length <= 10000, "Token count exceeds safety limit");
   return {
     tokens,
     position: 0,
     maxTokens: tokens.length,
+    text,
   };
 }
 
@@ -104,7 +410,7 @@ function tryMatch(state: ParserState, tokenType: TokenType): boolean {
  * @param {TokenType} tokenType - Required token type
  * @param {string} expected - Human-readable description for error messages
  * @returns {IToken} The consumed token
- * @throws {Error} When token doesn't match expected type
+ * @throws {ParseError} When token doesn't match expected type
  */
 function consumeToken(
   state: ParserState,
@@ -113,12 +419,182 @@ function consumeToken(
 ): IToken {
   const token = peekToken(state);
   if (!token || token.tokenType !== tokenType) {
-    throw new Error(`Expected ${expected} at position ${state.position}`);
+    throw unexpectedToken(state, expected);
   }
   state.position++;
   return token;
 }
 
+/**
+ * Build the error for an unexpected token at the current position.
+ * @param {ParserState} state - Current parser state
+ * @param {string} expected - Human-readable description of what was expected
+ * @returns {ParseError} Error pointing at the current (or last) token
+ */
+function unexpectedToken(state: ParserState, expected: string): ParseError {
+  const token = peekToken(state);
+  const found = token ? `'${token.image}'` : "end of input";
+  return new ParseError(
+    `Expected ${expected} but found ${found}`,
+    token ?? state.tokens[state.maxTokens - 1],
+  );
+}
+
+/**
+ * Check for a contextual keyword such as PRIMARY, TTL or SETTINGS.
+ * These are lexed as identifiers so that columns may still be named `key`,
+ * `ttl` or `settings`.
+ * @param {IToken | undefined} token - Token to check
+ * @param {string} word - Upper-case keyword
+ * @returns {boolean} True when the token is an identifier spelling the keyword
+ */
+function isWord(token: IToken | undefined, word: string): boolean {
+  return (
+    token?.tokenType === Identifier &&
+    String(token.image).toUpperCase() === word
+  );
+}
+
+/**
+ * Check whether the current token starts a table-level clause.
+ * Clause expressions end there, e.g. `ORDER BY id TTL d + INTERVAL 1 DAY`.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at ORDER BY, PARTITION BY, PRIMARY KEY, SAMPLE BY,
+ *   TTL, SETTINGS, COMMENT, POPULATE or AS
+ */
+function isTableClauseStart(state: ParserState): boolean {
+  const token = peekToken(state);
+  const next = peekToken(state, 1);
+  if (!token) return false;
+  if ([Order, Partition, Comment, As].includes(token.tokenType)) return true;
+  return (
+    (isWord(token, "PRIMARY") && isWord(next, "KEY")) ||
+    (isWord(token, "SAMPLE") && next?.tokenType === By) ||
+    isWord(token, "TTL") ||
+    isWord(token, "SETTINGS") ||
+    isWord(token, "POPULATE")
+  );
+}
+
+/**
+ * Check whether the current token starts a column-level TTL clause.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at TTL
+ */
+function isColumnTtlStart(state: ParserState): boolean {
+  return isWord(peekToken(state), "TTL");
+}
+
+/**
+ * Check whether the current column-list element declares a data skipping index.
+ * Columns may be named `index`, so the element must reach a TYPE keyword
+ * before it ends: `INDEX name expr TYPE type [GRANULARITY n]`.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at an INDEX declaration
+ */
+function isIndexStart(state: ParserState): boolean {
+  if (!isWord(peekToken(state), "INDEX")) return false;
+  if (peekToken(state, 1)?.tokenType !== Identifier) return false;
+
+  const maxLookahead = 500;
+  let depth = 0;
+  for (let offset = 2; offset < maxLookahead; offset++) {
+    const token = peekToken(state, offset);
+    if (!token) return false;
+    if (token.tokenType === LParen) depth++;
+    else if (token.tokenType === RParen) {
+      if (depth === 0) return false;
+      depth--;
+    } else if (depth === 0 && token.tokenType === Comma) return false;
+    else if (depth === 0 && isWord(token, "TYPE")) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether the current column-list element declares a projection,
+ * i.e. `PROJECTION name (SELECT ...)`.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at a PROJECTION declaration
+ */
+function isProjectionStart(state: ParserState): boolean {
+  return (
+    isWord(peekToken(state), "PROJECTION") &&
+    peekToken(state, 1)?.tokenType === Identifier &&
+    peekToken(state, 2)?.tokenType === LParen &&
+    peekToken(state, 3)?.tokenType === Select
+  );
+}
+
+/**
+ * Check whether the current column-list element declares a constraint,
+ * i.e. `CONSTRAINT name CHECK expr` or `CONSTRAINT name ASSUME expr`.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at a CONSTRAINT declaration
+ */
+function isConstraintStart(state: ParserState): boolean {
+  const kind = peekToken(state, 2);
+  return (
+    isWord(peekToken(state), "CONSTRAINT") &&
+    peekToken(state, 1)?.tokenType === Identifier &&
+    (isWord(kind, "CHECK") || isWord(kind, "ASSUME"))
+  );
+}
+
+/**
+ * Check whether the current token starts the `FIRST` or `AFTER x` placement
+ * of an ALTER TABLE column command.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at FIRST or AFTER
+ */
+function isColumnPositionStart(state: ParserState): boolean {
+  const token = peekToken(state);
+  return isWord(token, "FIRST") || isWord(token, "AFTER");
+}
+
+/**
+ * Value of an expression that is a single string or integer literal.
+ * @param {readonly IToken[]} tokens - Tokens of the expression
+ * @param {string} raw - Source text of the expression
+ * @returns {string | number | undefined} Literal value or undefined
+ */
+function literalValue(
+  tokens: readonly IToken[],
+  raw: string,
+): string | number | undefined {
+  const only = tokens.length === 1 ? tokens[0] : undefined;
+  if (!only || only.image !== raw) return undefined;
+  if (only.tokenType === StringLiteral) return unquote(raw);
+  if (only.tokenType === Integer) return Number(raw);
+  return undefined;
+}
+
+/**
+ * Consume an identifier and return its name with any quoting removed.
+ * Bare identifiers cannot start with a digit: `1col` lexes as `1` and `col`,
+ * which is reported rather than read as `col`.
+ * @param {ParserState} state - Current parser state
+ * @param {string} expected - Human-readable description for error messages
+ * @returns {string} Unquoted identifier name
+ * @throws {ParseError} When the next token is not an identifier, or
+ *   directly follows an integer
+ */
+function consumeIdentifier(state: ParserState, expected: string): string {
+  const previous = state.tokens[state.position - 1];
+  const token = consumeToken(state, Identifier, expected);
+  if (
+    previous?.tokenType === Integer &&
+    (previous.endOffset ?? 0) + 1 === token.startOffset
+  ) {
+    const name = `${previous.image}${token.image}`;
+    throw new ParseError(
+      `Identifier ${name} starts with a digit; quote it as \`${name}\``,
+      previous,
+    );
+  }
+  return unquoteIdentifier(String(token.image));
+}
+
 /**
  * Skip tokens until finding target type, with safety limit.
  * Advances position until target token found or end reached, prevents infinite loops.
@@ -157,15 +633,77 @@ function skipBalancedParens(state: ParserState): void {
   }
 }
 
+/** Tokens that open a nested part of an expression: calls, arrays and maps. */
+const OPENING_TOKENS: readonly TokenType[] = [LParen, LBracket, LBrace];
+
+/** Tokens that close what `OPENING_TOKENS` opened. */
+const CLOSING_TOKENS: readonly TokenType[] = [RParen, RBracket, RBrace];
+
+/**
+ * Capture an expression up to a top-level stopper, keeping its source text.
+ * Parentheses, brackets and braces are balanced, so commas and stoppers
+ * inside calls, array literals and map literals do not end it.
+ * @param {ParserState} state - Current parser state
+ * @param {TokenType[]} stoppers - Token types that end the expression at depth 0
+ * @param {number} limit - Maximum number of tokens to consume
+ * @param {(state: ParserState) => boolean} [isStop] - Extra depth-0 stop check
+ * @returns {string | undefined} Source text of the expression, or undefined if empty
+ * @throws {Error} When the token limit is exceeded
+ */
+function captureRawExpression(
+  state: ParserState,
+  stoppers: readonly TokenType[],
+  limit: number,
+  isStop: (state: ParserState) => boolean = () => false,
+): string | undefined {
+  const startPos = state.position;
+  let depth = 0;
+
+  while (!isAtEnd(state)) {
+    const t = peekToken(state)!;
+    if (
+      depth === 0 &&
+      (CLOSING_TOKENS.includes(t.tokenType) ||
+        stoppers.includes(t.tokenType) ||
+        isStop(state))
+    )
+      break;
+    if (OPENING_TOKENS.includes(t.tokenType)) depth++;
+    else if (CLOSING_TOKENS.includes(t.tokenType)) depth--;
+    state.position++;
+
+    if (state.position - startPos > limit) {
+      throw new Error("Expression capture limit exceeded");
+    }
+  }
+
+  if (state.position === startPos) return undefined;
+  const first = state.tokens[startPos]!;
+  const last = state.tokens[state.position - 1]!;
+  return state.text.slice(first.startOffset, (last.endOffset ?? 0) + 1);
+}
+
 /** Parse ClickHouse DDL (subset) into AST. */
 export function parse(ddl: string): readonly TableAst[] {
+  return parseWithErrors(ddl).tables;
+}
+
+/**
+ * Parse ClickHouse DDL (subset) into AST, collecting recoverable errors.
+ * A CREATE statement that fails to parse is skipped up to the next CREATE
+ * and reported as a ParseError instead of being dropped silently.
+ * @param {string} ddl - DDL text to parse
+ * @returns {ParseOutcome} Parsed tables and the errors encountered
+ */
+export function parseWithErrors(ddl: string): ParseOutcome {
   assert(typeof ddl === "string", "DDL must be a string");
   const lex = ddlLexer.tokenize(ddl);
   if (lex.errors.length > 0) throw new Error("Lexing failed");
   const tokens: readonly IToken[] = (lex.tokens ?? []) as IToken[];
-  const state = createParserState(tokens);
+  const state = createParserState(tokens, ddl);
   const p = new Parser(state);
   const tables: TableAst[] = [];
+  const errors: ParseError[] = [];
 
   // Parse all CREATE statements in the token stream
   const maxTables = 50;
@@ -182,6 +720,7 @@ export function parse(ddl: string): readonly TableAst[] {
         tables.push(p.createTable());
         tableCount++;
       } catch (error) {
+        errors.push(toParseError(error, state));
         // Skip failed table parsing and continue to next CREATE
         while (!p.isAtEnd() && peekToken(state)?.tokenType !== Create) {
           state.position++;
@@ -190,7 +729,55 @@ export function parse(ddl: string): readonly TableAst[] {
     }
   }
 
-  return tables;
+  return { tables, errors };
+}
+
+/**
+ * Parse an ALTER TABLE, RENAME TABLE or DROP TABLE statement.
+ * @param {string} ddl - Text of a single statement
+ * @returns {SchemaChange} The change the statement makes
+ * @throws {ParseError} When the statement cannot be parsed
+ */
+export function parseSchemaChange(ddl: string): SchemaChange {
+  assert(typeof ddl === "string", "DDL must be a string");
+  const lex = ddlLexer.tokenize(ddl);
+  if (lex.errors.length > 0) throw new Error("Lexing failed");
+  const tokens: readonly IToken[] = (lex.tokens ?? []) as IToken[];
+  const state = createParserState(tokens, ddl);
+  try {
+    return new Parser(state).schemaChange();
+  } catch (error) {
+    throw toParseError(error, state);
+  }
+}
+
+/**
+ * Parse a standalone type such as `Nullable(DateTime64(3, 'UTC'))`.
+ * @param {string} text - Type text
+ * @returns {{ type: TypeAst; rawType: string }} Parsed type and its source text
+ * @throws {ParseError} When the text is not a type
+ */
+export function parseType(text: string): { type: TypeAst; rawType: string } {
+  const state = createParserState(ddlLexer.tokenize(text).tokens, text);
+  try {
+    return new Parser(state).columnType();
+  } catch (error) {
+    throw toParseError(error, state);
+  }
+}
+
+/**
+ * Normalize anything thrown while parsing into a ParseError.
+ * Errors without a token are attributed to the current (or last) token.
+ * @param {unknown} error - Thrown value
+ * @param {ParserState} state - Parser state at the time of failure
+ * @returns {ParseError} Error carrying a token when one is available
+ */
+function toParseError(error: unknown, state: ParserState): ParseError {
+  if (error instanceof ParseError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const token = peekToken(state) ?? state.tokens[state.maxTokens - 1];
+  return new ParseError(message, token);
 }
 
 /**
@@ -210,428 +797,1145 @@ class Parser {
   }
 
   /**
-   * Parse a complete CREATE TABLE or CREATE MATERIALIZED VIEW statement.
+   * Parse a complete CREATE TABLE, CREATE VIEW or CREATE MATERIALIZED VIEW statement.
    * Orchestrates parsing of table header, columns, and clauses into unified AST node.
-   * Delegates to specialized methods for materialized views when no explicit columns defined.
+   * Delegates to specialized methods for views when no explicit columns defined.
    * @returns {TableAst} Complete table AST with name, columns, and metadata
    */
   createTable(): TableAst {
     // Parse table header
-    consumeToken(this.state, Create, "CREATE");
-    const isMV = this.parseTableType();
+    const line = consumeToken(this.state, Create, "CREATE").startLine;
+    const kind = this.parseTableType();
+    const isMV = kind !== "table";
     this.parseOptionalIfNotExists();
-    const name = this.parseQualifiedName();
+    const { database, name } = this.parseQualifiedName();
+    const mvTo =
+      kind === "materializedView" ? this.parseOptionalMvTarget() : undefined;
 
-    // Parse optional column definitions
-    const columns = this.parseOptionalColumns();
+    // Parse optional column definitions or the table they are cloned from
+    const { columns, primaryKey, ...declarations } =
+      this.parseOptionalColumns();
+    const asTable =
+      !isMV && columns.length === 0 ? this.parseOptionalAsTable() : undefined;
 
     // Parse table clauses
-    this.parseOptionalEngine();
-    const partitionBy = this.parseOptionalPartitionBy();
-    const orderBy = this.parseOptionalOrderBy();
+    const engine = this.parseOptionalEngine();
+    const tableClauses = this.parseTableClauses();
+    const clauses = {
+      ...tableClauses,
+      primaryKey: tableClauses.primaryKey ?? primaryKey,
+    };
 
-    // Handle materialized view specifics
-    if (isMV && columns.length === 0) {
-      return this.parseMaterializedViewBody(name, partitionBy, orderBy);
+    // Handle view specifics
+    if (kind === "view") {
+      const bodyStart = this.state.position;
+      const view = this.parseMaterializedViewBody(name, database, { line });
+      const parameters = this.parseViewParameters(bodyStart);
+      return {
+        ...view,
+        isView: true,
+        ...(parameters.length > 0 ? { parameters } : {}),
+      };
+    }
+    if (kind === "materializedView") {
+      const view = this.parseMaterializedViewBody(name, database, {
+        line,
+        engine,
+        ...clauses,
+      });
+      return {
+        ...view,
+        ...(columns.length > 0 ? { columns, ...declarations } : {}),
+        ...(mvTo ? { mvTo } : {}),
+      };
     }
 
-    return { name, columns, partitionBy, orderBy };
+    return {
+      name,
+      database,
+      line,
+      columns,
+      ...declarations,
+      asTable,
+      engine,
+      ...clauses,
+    };
   }
 
   /**
-   * Parse table type (TABLE vs MATERIALIZED VIEW).
-   * Distinguishes between regular tables and materialized views for different parsing paths.
-   * @returns {boolean} True if materialized view, false if regular table
-   * @private
+   * Parse a standalone column type that must make up the whole input.
+   * @returns {{ type: TypeAst; rawType: string }} Type AST and raw type
+   * @throws {ParseError} When the input is not a single type
    */
-  private parseTableType(): boolean {
-    if (tryMatch(this.state, Materialized)) {
-      consumeToken(this.state, View, "VIEW");
-      return true;
-    }
-    consumeToken(this.state, Table, "TABLE");
-    return false;
+  columnType(): { type: TypeAst; rawType: string } {
+    const parsed = this.parseColumnType();
+    if (!this.isAtEnd()) throw unexpectedToken(this.state, "end of type");
+    return parsed;
   }
 
   /**
-   * Parse optional IF NOT EXISTS clause.
-   * Handles the common SQL pattern for conditional table creation.
-   * @private
+   * Parse an ALTER TABLE, RENAME TABLE or DROP TABLE|VIEW statement.
+   * @returns {SchemaChange} The change the statement makes
+   * @throws {ParseError} When the statement is not a supported schema change
    */
-  private parseOptionalIfNotExists(): void {
-    if (tryMatch(this.state, If)) {
-      tryMatch(this.state, Not);
-      tryMatch(this.state, Exists);
+  schemaChange(): SchemaChange {
+    const t = peekToken(this.state);
+    let change: SchemaChange;
+    if (isWord(t, "ALTER")) change = this.parseAlterTable();
+    else if (isWord(t, "RENAME")) change = this.parseRenameTable();
+    else if (isWord(t, "DROP")) change = this.parseDropTable();
+    else throw unexpectedToken(this.state, "ALTER, RENAME or DROP");
+
+    this.skipOnCluster();
+    if (!this.isAtEnd() && change.kind !== "dropTable") {
+      throw unexpectedToken(this.state, "end of statement");
     }
+    return change;
   }
 
   /**
-   * Parse optional column definitions in parentheses.
-   * Handles comma-separated column list or empty parentheses, recovers from malformed syntax.
-   * @returns {ColumnAst[]} Array of parsed column definitions
+   * Parse `ALTER TABLE [db.]name [ON CLUSTER c] command, ...`.
+   * @returns {SchemaChange} ALTER TABLE change with its commands
    * @private
    */
-  private parseOptionalColumns(): ColumnAst[] {
-    if (!tryMatch(this.state, LParen)) return [];
-    if (tryMatch(this.state, RParen)) return [];
+  private parseAlterTable(): SchemaChange {
+    this.state.position++;
+    consumeToken(this.state, Table, "TABLE");
+    const table = this.parseQualifiedName();
+    this.skipOnCluster();
 
-    const columns: ColumnAst[] = [];
+    const commands: AlterCommand[] = [];
+    const maxCommands = 100;
     do {
-      columns.push(this.parseColumnDef());
-    } while (tryMatch(this.state, Comma));
-
-    if (!tryMatch(this.state, RParen)) {
-      skipToToken(this.state, RParen);
-    }
-    return columns;
+      commands.push(this.parseAlterCommand());
+    } while (commands.length < maxCommands && tryMatch(this.state, Comma));
+    return { kind: "alterTable", table, commands };
   }
 
   /**
-   * Parse optional ENGINE clause with parameters.
-   * Handles ENGINE = EngineName(params) syntax, skips complex engine parameters.
+   * Parse a single ALTER TABLE command.
+   * Column commands are parsed; anything else is kept as raw text.
+   * @returns {AlterCommand} Parsed command
    * @private
    */
-  private parseOptionalEngine(): void {
-    if (!tryMatch(this.state, Engine)) return;
-    tryMatch(this.state, Eq);
-    if (peekToken(this.state)?.tokenType === Identifier) {
-      consumeToken(this.state, Identifier, "engine");
-    }
-    if (tryMatch(this.state, LParen)) {
-      skipBalancedParens(this.state);
+  private parseAlterCommand(): AlterCommand {
+    const start = this.state.position;
+    const t = peekToken(this.state);
+    const isColumn = isWord(peekToken(this.state, 1), "COLUMN");
+    if (isColumn) {
+      this.state.position += 2;
+      if (isWord(t, "ADD")) return this.parseAddColumn();
+      if (isWord(t, "DROP")) return this.parseDropColumn();
+      if (isWord(t, "RENAME")) return this.parseRenameColumn();
+      if (t?.tokenType === Comment) return this.parseCommentColumn();
+      if (isWord(t, "MODIFY")) {
+        const command = this.parseModifyColumn();
+        if (command) return command;
+      }
     }
+
+    this.state.position = start;
+    const raw = captureRawExpression(this.state, [Comma], 1000);
+    if (raw === undefined) throw unexpectedToken(this.state, "ALTER command");
+    return { kind: "unsupported", raw };
   }
 
   /**
-   * Parse optional PARTITION BY clause.
-   * Captures partition expression as raw string until next major clause.
-   * @returns {string | undefined} Partition expression or undefined
+   * Parse the rest of `ADD COLUMN [IF NOT EXISTS] definition [FIRST|AFTER x]`.
+   * @returns {AlterCommand} addColumn command
    * @private
    */
-  private parseOptionalPartitionBy(): string | undefined {
-    if (!tryMatch(this.state, Partition)) return undefined;
-    consumeToken(this.state, By, "BY");
-    return this.captureExpressionUntil([Order]);
+  private parseAddColumn(): AlterCommand {
+    const ifNotExists = this.parseOptionalIfNotExists();
+    const column = this.parseColumnDef(isColumnPositionStart);
+    return {
+      kind: "addColumn",
+      column,
+      ifNotExists,
+      ...this.parseOptionalColumnPosition(),
+    };
   }
 
   /**
-   * Parse optional ORDER BY clause.
-   * Captures ordering expression as raw string until next major clause.
-   * @returns {string | undefined} Order expression or undefined
+   * Parse the rest of `DROP COLUMN [IF EXISTS] name`.
+   * @returns {AlterCommand} dropColumn command
    * @private
    */
-  private parseOptionalOrderBy(): string | undefined {
-    if (!tryMatch(this.state, Order)) return undefined;
-    consumeToken(this.state, By, "BY");
-    return this.captureExpressionUntil([As]);
+  private parseDropColumn(): AlterCommand {
+    const ifExists = this.parseOptionalIfNotExists();
+    const name = consumeIdentifier(this.state, "column name");
+    return { kind: "dropColumn", name, ifExists };
   }
 
   /**
-   * Parse CTE (Common Table Expression) block with SELECT.
-   * Handles full CTE parsing including SELECT list and FROM clause, then skips to end.
-   * @returns {TableAst["mvCte"]} CTE metadata with name, source, and columns
+   * Parse the rest of `RENAME COLUMN [IF EXISTS] name TO new_name`.
+   * @returns {AlterCommand} renameColumn command
    * @private
    */
-  private parseCTEBlock(): TableAst["mvCte"] {
-    const cteName = consumeToken(this.state, Identifier, "CTE name")
-      .image as string;
-    consumeToken(this.state, As, "AS");
-    consumeToken(this.state, LParen, "(");
-    consumeToken(this.state, Select, "SELECT");
-
-    const cteItems = this.parseSelectList();
-    const cteSrc = tryMatch(this.state, From)
-      ? this.parseQualifiedName()
-      : undefined;
-
-    // Skip to the end of the CTE block
-    let depth = 1;
-    const startPos = this.state.position;
-
-    while (!isAtEnd(this.state) && depth > 0) {
-      if (tryMatch(this.state, LParen)) depth++;
-      else if (tryMatch(this.state, RParen)) depth--;
-      else this.state.position++;
-
-      if (this.state.position - startPos > 2000) {
-        throw new Error("CTE block parsing limit exceeded");
-      }
-    }
-
-    // Look for the top-level SELECT after CTE
-    if (peekToken(this.state)?.tokenType === Select) {
-      this.state.position++;
-    }
-
-    return { name: cteName, src: cteSrc, columns: cteItems };
+  private parseRenameColumn(): AlterCommand {
+    const ifExists = this.parseOptionalIfNotExists();
+    const name = consumeIdentifier(this.state, "column name");
+    consumeToken(this.state, To, "TO");
+    const newName = consumeIdentifier(this.state, "new column name");
+    return { kind: "renameColumn", name, newName, ifExists };
   }
 
   /**
-   * Parse materialized view body with AS SELECT clause.
-   * Handles complex MV syntax including WITH clauses, CTEs, and main SELECT statement.
-   * Maps parsed SELECT columns to Unknown types for later type inference.
-   * @param {string} name - Table name
-   * @param {string} [partitionBy] - Optional partition expression
-   * @param {string} [orderBy] - Optional order expression
-   * @returns {TableAst} Complete materialized view AST
+   * Parse the rest of `COMMENT COLUMN [IF EXISTS] name 'text'`.
+   * @returns {AlterCommand} commentColumn command
    * @private
    */
-  private parseMaterializedViewBody(
-    name: string,
-    partitionBy?: string,
-    orderBy?: string,
-  ): TableAst {
-    if (!tryMatch(this.state, As)) {
-      skipToToken(this.state, As);
-    }
-
-    // Handle WITH clause (named expressions or CTE)
-    let cteInfo: TableAst["mvCte"] = undefined;
-    if (peekToken(this.state)?.tokenType === With) {
-      this.state.position++; // consume WITH
-
-      // Check if this is a CTE pattern (name AS (...))
-      const t0 = peekToken(this.state);
-      const t1 = peekToken(this.state, 1);
-      const t2 = peekToken(this.state, 2);
-
-      if (
-        t0?.tokenType === Identifier &&
-        t1?.tokenType === As &&
-        t2?.tokenType === LParen
-      ) {
-        // This is a real CTE, parse it but don't consume the following SELECT
-        cteInfo = this.parseCTEBlockOnly();
-      } else {
-        // This is just WITH named expressions, skip to SELECT
-        this.skipWithNamedExpressions();
-      }
-    }
-
-    // Ensure we're at SELECT for the main query
-    if (peekToken(this.state)?.tokenType !== Select) {
-      skipToToken(this.state, Select);
-    }
-    if (peekToken(this.state)?.tokenType === Select) {
-      this.state.position++;
-    }
-
-    const selectCols = this.parseSelectList();
-    const src = tryMatch(this.state, From)
-      ? this.parseQualifiedName()
-      : undefined;
-
-    const columns = selectCols.map((sc) => ({
-      name: sc.alias ?? sc.name,
-      type: { name: "Unknown", args: [] },
-      rawType: "Unknown",
-      comment: undefined,
-      default: undefined,
-    }));
-
+  private parseCommentColumn(): AlterCommand {
+    const ifExists = this.parseOptionalIfNotExists();
+    const name = consumeIdentifier(this.state, "column name");
+    const text = consumeToken(this.state, StringLiteral, "comment string");
     return {
+      kind: "commentColumn",
       name,
-      columns,
-      partitionBy,
-      orderBy,
-      mvFrom: src,
-      mvSelect: selectCols,
-      mvCte: cteInfo,
+      comment: unquote(String(text.image)),
+      ifExists,
     };
   }
 
   /**
-   * Parse CTE block header only, skip content.
-   * Extracts CTE name and skips over complex CTE body for performance.
-   * Used when we only need CTE metadata, not full content parsing.
-   * @returns {TableAst["mvCte"]} CTE metadata with name only
+   * Parse the rest of `MODIFY COLUMN [IF EXISTS] name [type] [clauses]
+   * [FIRST|AFTER x]`. Only the parts present are changed.
+   * @returns {AlterCommand | undefined} modifyColumn command, or undefined for
+   *   `REMOVE`, `MODIFY SETTING` and `RESET SETTING` forms
    * @private
    */
-  private parseCTEBlockOnly(): TableAst["mvCte"] {
-    const cteName = consumeToken(this.state, Identifier, "CTE name")
-      .image as string;
-    consumeToken(this.state, As, "AS");
-    consumeToken(this.state, LParen, "(");
-
-    // Skip the entire CTE content - we don't need to parse it in detail
-    let depth = 1;
-    const startPos = this.state.position;
-
-    while (!isAtEnd(this.state) && depth > 0) {
-      if (tryMatch(this.state, LParen)) depth++;
-      else if (tryMatch(this.state, RParen)) depth--;
-      else this.state.position++;
-
-      if (this.state.position - startPos > 5000) {
-        throw new Error("CTE content parsing limit exceeded");
-      }
+  private parseModifyColumn(): AlterCommand | undefined {
+    const ifExists = this.parseOptionalIfNotExists();
+    const name = consumeIdentifier(this.state, "column name");
+    const next = peekToken(this.state);
+    if (["REMOVE", "MODIFY", "RESET"].some((word) => isWord(next, word))) {
+      return undefined;
     }
 
-    // Don't consume the following SELECT - that's the main query
-    return { name: cteName, src: undefined, columns: [] };
+    const hasType =
+      next?.tokenType === Identifier &&
+      !isColumnTtlStart(this.state) &&
+      !isColumnPositionStart(this.state);
+    const typed = hasType ? this.parseColumnType() : {};
+    const { comment, value, ttl } = this.parseColumnClauses(
+      isColumnPositionStart,
+    );
+    const changes: ColumnChanges = {
+      ...typed,
+      ...(comment !== undefined ? { comment } : {}),
+      ...(value ? { kind: value.kind, default: value.expression } : {}),
+      ...(ttl !== undefined ? { ttl } : {}),
+    };
+    return {
+      kind: "modifyColumn",
+      name,
+      changes,
+      ifExists,
+      ...this.parseOptionalColumnPosition(),
+    };
   }
 
   /**
-   * Skip WITH named expressions until SELECT.
-   * Handles complex WITH clauses that aren't CTEs, maintaining parentheses balance.
+   * Parse optional `FIRST` or `AFTER name` column placement.
+   * @returns {{ first?: boolean; after?: string }} Placement, empty when absent
    * @private
    */
-  private skipWithNamedExpressions(): void {
-    let depth = 0;
-    const startPos = this.state.position;
-
-    while (!isAtEnd(this.state)) {
-      const t = peekToken(this.state);
-      if (!t) break;
-
-      if (t.tokenType === LParen) {
-        this.state.position++;
-        depth++;
-        continue;
-      }
-
-      if (t.tokenType === RParen) {
-        this.state.position++;
-        depth = Math.max(0, depth - 1);
-        continue;
-      }
-
-      if (t.tokenType === Select && depth === 0) {
-        break; // Don't consume SELECT, let caller handle it
-      }
-
+  private parseOptionalColumnPosition(): { first?: boolean; after?: string } {
+    if (isWord(peekToken(this.state), "FIRST")) {
       this.state.position++;
-
-      if (this.state.position - startPos > 2000) {
-        throw new Error("WITH expressions parsing limit exceeded");
-      }
+      return { first: true };
     }
+    if (isWord(peekToken(this.state), "AFTER")) {
+      this.state.position++;
+      return { after: consumeIdentifier(this.state, "column name") };
+    }
+    return {};
   }
 
   /**
-   * Parse qualified table/column name (schema.name or name).
-   * Handles optional schema prefix, returns the final name component.
-   * @returns {string} The table or column name
+   * Parse `RENAME TABLE a TO b [, c TO d]`.
+   * @returns {SchemaChange} renameTable change
    * @private
    */
-  private parseQualifiedName(): string {
-    const first = consumeToken(this.state, Identifier, "identifier")
-      .image as string;
-    if (tryMatch(this.state, Dot)) {
-      const second = consumeToken(this.state, Identifier, "identifier")
-        .image as string;
-      return second;
-    }
-    return first;
+  private parseRenameTable(): SchemaChange {
+    this.state.position++;
+    consumeToken(this.state, Table, "TABLE");
+    const renames: { from: TableRef; to: TableRef }[] = [];
+    const maxRenames = 100;
+    do {
+      const from = this.parseQualifiedName();
+      consumeToken(this.state, To, "TO");
+      renames.push({ from, to: this.parseQualifiedName() });
+    } while (renames.length < maxRenames && tryMatch(this.state, Comma));
+    return { kind: "renameTable", renames };
   }
 
   /**
-   * Parse complete column definition.
-   * Handles column name, type, optional comment, default value, and codec.
-   * Captures raw type string for later processing.
-   * @returns {ColumnAst} Complete column AST node
+   * Parse `DROP TABLE|VIEW [IF EXISTS] [db.]name`; trailing options such as
+   * `SYNC` are ignored.
+   * @returns {SchemaChange} dropTable change
    * @private
    */
-  private parseColumnDef(): ColumnAst {
-    this.skipToColumnName();
-    const nameTok = consumeToken(this.state, Identifier, "column name");
-    const typeStart = this.state.position;
-    const type = this.parseTypeExpr();
-    const typeEnd = this.state.position;
-
-    const comment = this.parseOptionalComment();
-    const defaultValue = this.parseOptionalDefault();
-    this.parseOptionalCodec();
-
-    const rawType = this.state.tokens
-      .slice(typeStart, typeEnd)
-      .map((t) => String(t.image))
-      .join("");
-
-    return {
-      name: nameTok.image as string,
-      type,
-      rawType,
-      comment,
-      default: defaultValue,
-    };
+  private parseDropTable(): SchemaChange {
+    this.state.position++;
+    if (!tryMatch(this.state, View)) {
+      consumeToken(this.state, Table, "TABLE or VIEW");
+    }
+    const ifExists = this.parseOptionalIfNotExists();
+    const table = this.parseQualifiedName();
+    return { kind: "dropTable", table, ifExists };
   }
 
   /**
-   * Skip tokens until column name found.
-   * Recovers from malformed column syntax by advancing to next identifier.
+   * Skip an optional `ON CLUSTER name` clause.
    * @private
    */
-  private skipToColumnName(): void {
-    const startPos = this.state.position;
-    while (
-      !isAtEnd(this.state) &&
-      peekToken(this.state)?.tokenType !== Identifier &&
-      peekToken(this.state)?.tokenType !== RParen
-    ) {
-      this.state.position++;
-      if (this.state.position - startPos > 100) {
-        throw new Error("Column name search limit exceeded");
-      }
-    }
+  private skipOnCluster(): void {
+    const isOnCluster =
+      isWord(peekToken(this.state), "ON") &&
+      isWord(peekToken(this.state, 1), "CLUSTER");
+    if (isOnCluster) this.state.position += 3;
   }
 
   /**
-   * Parse optional COMMENT clause.
-   * Extracts comment string and removes surrounding quotes.
-   * @returns {string | undefined} Unquoted comment text or undefined
+   * Parse table type ([OR REPLACE] [TEMPORARY] TABLE, [OR REPLACE] VIEW or
+   * MATERIALIZED VIEW).
+   * Distinguishes between regular tables and views for different parsing paths.
+   * @returns {TableKind} Kind of the created object
    * @private
    */
-  private parseOptionalComment(): string | undefined {
-    if (!tryMatch(this.state, Comment)) return undefined;
-    const s = consumeToken(this.state, StringLiteral, "string").image as string;
-    return unquote(s);
+  private parseTableType(): TableKind {
+    if (tryMatch(this.state, Materialized)) {
+      consumeToken(this.state, View, "VIEW");
+      return "materializedView";
+    }
+    const isOrReplace =
+      isWord(peekToken(this.state), "OR") &&
+      isWord(peekToken(this.state, 1), "REPLACE");
+    if (isOrReplace) this.state.position += 2;
+    if (tryMatch(this.state, View)) return "view";
+    if (isWord(peekToken(this.state), "TEMPORARY")) this.state.position++;
+    consumeToken(this.state, Table, "TABLE");
+    return "table";
   }
 
   /**
-   * Parse optional DEFAULT clause.
-   * Captures default expression as space-separated tokens until next clause.
-   * @returns {string | undefined} Default expression or undefined
+   * Parse the optional `[ON CLUSTER c] TO [db.]table` target of a
+   * materialized view, which then stores its rows in that table.
+   * @returns {TableRef | undefined} Target table, or undefined without TO
    * @private
    */
-  private parseOptionalDefault(): string | undefined {
-    if (!tryMatch(this.state, Default)) return undefined;
-    const parts: string[] = [];
-    const startPos = this.state.position;
+  private parseOptionalMvTarget(): TableRef | undefined {
+    this.skipOnCluster();
+    if (!tryMatch(this.state, To)) return undefined;
+    return this.parseQualifiedName();
+  }
 
-    while (true) {
-      const t = peekToken(this.state);
-      if (!t || t.tokenType === Comma || t.tokenType === RParen) break;
-      parts.push(String(t.image));
-      this.state.position++;
+  /**
+   * Collect the `{name:Type}` query parameters of a view, in order of first
+   * use. The lexer skips the `:` of a placeholder, so placeholders are found
+   * in the source text of the query, which ends at the next CREATE.
+   * @param {number} bodyStart - Token position where the view query starts
+   * @returns {ViewParameterAst[]} Parameters with their parsed types
+   * @private
+   */
+  private parseViewParameters(bodyStart: number): ViewParameterAst[] {
+    const tokens = this.state.tokens;
+    let end = this.state.position;
+    while (end < tokens.length && tokens[end]!.tokenType !== Create) end++;
+    const text = this.state.text.slice(
+      tokens[bodyStart]?.startOffset ?? this.state.text.length,
+      tokens[end]?.startOffset ?? this.state.text.length,
+    );
+
+    const parameters: ViewParameterAst[] = [];
+    for (const match of text.matchAll(VIEW_PARAMETER)) {
+      if (parameters.length >= MAX_VIEW_PARAMETERS) break;
+      const [, name, typeText] = match;
+      if (parameters.some((parameter) => parameter.name === name)) continue;
+      const { type, rawType } = parseType(typeText!);
+      parameters.push({ name: name!, type, rawType });
+    }
+    return parameters;
+  }
 
-      if (this.state.position - startPos > 50) {
-        throw new Error("Default value parsing limit exceeded");
+  /**
+   * Parse optional IF NOT EXISTS (or IF EXISTS) clause.
+   * Handles the common SQL pattern for conditional table creation.
+   * @returns {boolean} True when the clause was present
+   * @private
+   */
+  private parseOptionalIfNotExists(): boolean {
+    if (!tryMatch(this.state, If)) return false;
+    tryMatch(this.state, Not);
+    tryMatch(this.state, Exists);
+    return true;
+  }
+
+  /**
+   * Parse optional column definitions in parentheses.
+   * Handles comma-separated column list or empty parentheses, recovers from malformed syntax.
+   * `PRIMARY KEY`, `INDEX`, `PROJECTION` and `CONSTRAINT` elements are
+   * returned separately from the columns; absent kinds are left undefined.
+   * @returns {ColumnList} Parsed column definitions and declarations
+   * @private
+   */
+  private parseOptionalColumns(): ColumnList {
+    const columns: ColumnAst[] = [];
+    if (!tryMatch(this.state, LParen)) return { columns };
+    if (tryMatch(this.state, RParen)) return { columns };
+
+    let primaryKey: string | undefined;
+    const indexes: IndexAst[] = [];
+    const projections: ProjectionAst[] = [];
+    const constraints: ConstraintAst[] = [];
+    do {
+      const t = peekToken(this.state);
+      if (isWord(t, "PRIMARY") && isWord(peekToken(this.state, 1), "KEY")) {
+        this.state.position += 2;
+        primaryKey = captureRawExpression(this.state, [Comma], 500);
+        if (primaryKey === undefined) {
+          throw unexpectedToken(this.state, "PRIMARY KEY expression");
+        }
+      } else if (isIndexStart(this.state)) {
+        indexes.push(this.parseIndex());
+      } else if (isProjectionStart(this.state)) {
+        projections.push(this.parseProjection());
+      } else if (isConstraintStart(this.state)) {
+        constraints.push(this.parseConstraint());
+      } else {
+        columns.push(this.parseColumnDef());
       }
+    } while (tryMatch(this.state, Comma));
+
+    if (!tryMatch(this.state, RParen)) {
+      skipToToken(this.state, RParen);
     }
-    return parts.join(" ").trim();
+    return {
+      columns,
+      primaryKey,
+      ...(indexes.length > 0 ? { indexes } : {}),
+      ...(projections.length > 0 ? { projections } : {}),
+      ...(constraints.length > 0 ? { constraints } : {}),
+    };
   }
 
   /**
-   * Parse optional CODEC clause.
-   * Skips over codec parameters without detailed parsing.
+   * Parse `INDEX name expr TYPE type [GRANULARITY n]`.
+   * @returns {IndexAst} Index with its expression and type captured raw
+   * @throws {ParseError} When the expression or type is missing
    * @private
    */
-  private parseOptionalCodec(): void {
-    if (!tryMatch(this.state, Codec)) return;
+  private parseIndex(): IndexAst {
+    this.state.position++;
+    const name = consumeIdentifier(this.state, "index name");
+    const expression = captureRawExpression(this.state, [Comma], 500, (state) =>
+      isWord(peekToken(state), "TYPE"),
+    );
+    if (expression === undefined || !isWord(peekToken(this.state), "TYPE")) {
+      throw unexpectedToken(this.state, "index expression and TYPE");
+    }
+    this.state.position++;
+
+    const type = captureRawExpression(this.state, [Comma], 200, (state) =>
+      isWord(peekToken(state), "GRANULARITY"),
+    );
+    if (type === undefined) throw unexpectedToken(this.state, "index type");
+    if (!isWord(peekToken(this.state), "GRANULARITY")) {
+      return { name, expression, type };
+    }
+    this.state.position++;
+    const granularity = Number(
+      consumeToken(this.state, Integer, "granularity").image,
+    );
+    return { name, expression, type, granularity };
+  }
+
+  /**
+   * Parse `PROJECTION name (SELECT ...)`.
+   * @returns {ProjectionAst} Projection with its query captured raw
+   * @throws {ParseError} When the query is not closed
+   * @private
+   */
+  private parseProjection(): ProjectionAst {
+    this.state.position++;
+    const name = consumeIdentifier(this.state, "projection name");
     consumeToken(this.state, LParen, "(");
-    const startPos = this.state.position;
+    const query = captureRawExpression(this.state, [], 2000);
+    if (query === undefined) throw unexpectedToken(this.state, "SELECT");
+    consumeToken(this.state, RParen, ")");
+    return { name, query };
+  }
+
+  /**
+   * Parse `CONSTRAINT name CHECK expr` or `CONSTRAINT name ASSUME expr`.
+   * @returns {ConstraintAst} Constraint with its expression captured raw
+   * @throws {ParseError} When the expression is empty
+   * @private
+   */
+  private parseConstraint(): ConstraintAst {
+    this.state.position++;
+    const name = consumeIdentifier(this.state, "constraint name");
+    const kind = isWord(peekToken(this.state), "CHECK") ? "check" : "assume";
+    this.state.position++;
+    const expression = captureRawExpression(this.state, [Comma], 500);
+    if (expression === undefined) {
+      throw unexpectedToken(this.state, "constraint expression");
+    }
+    return { name, kind, expression };
+  }
+
+  /**
+   * Parse optional `AS [db.]table` clause of a table cloning another's structure.
+   * Table functions (`AS remote(...)`) and `AS SELECT` are left alone.
+   * @returns {TableRef | undefined} Cloned table or undefined
+   * @private
+   */
+  private parseOptionalAsTable(): TableRef | undefined {
+    const isTableName =
+      peekToken(this.state)?.tokenType === As &&
+      peekToken(this.state, 1)?.tokenType === Identifier &&
+      peekToken(this.state, 2)?.tokenType !== LParen;
+    if (!isTableName) return undefined;
+    consumeToken(this.state, As, "AS");
+    return this.parseQualifiedName();
+  }
+
+  /**
+   * Parse optional ENGINE clause with parameters.
+   * Handles ENGINE = EngineName(params) syntax, keeping each argument's
+   * source text and, for literals and identifiers, its value.
+   * @returns {EngineAst | undefined} Engine name and arguments or undefined
+   * @private
+   */
+  private parseOptionalEngine(): EngineAst | undefined {
+    if (!tryMatch(this.state, Engine)) return undefined;
+    tryMatch(this.state, Eq);
+    const name = consumeIdentifier(this.state, "engine name");
+    const args: EngineArg[] = [];
+
+    if (tryMatch(this.state, LParen) && !tryMatch(this.state, RParen)) {
+      const maxArgs = 64;
+      do {
+        args.push(this.parseEngineArg());
+      } while (args.length < maxArgs && tryMatch(this.state, Comma));
+      consumeToken(this.state, RParen, ")");
+    }
+    return { name, args };
+  }
+
+  /**
+   * Parse a single ENGINE argument up to the next top-level comma.
+   * @returns {EngineArg} Argument source text with its literal or identifier value
+   * @throws {ParseError} When the argument is empty
+   * @private
+   */
+  private parseEngineArg(): EngineArg {
+    const start = this.state.position;
+    const raw = captureRawExpression(this.state, [Comma], 500);
+    if (raw === undefined) throw unexpectedToken(this.state, "engine argument");
+
+    const tokens = this.state.tokens.slice(start, this.state.position);
+    const value = literalValue(tokens, raw);
+    if (value !== undefined) return { raw, value };
+    // Keywords such as `default` are valid database names here
+    if (tokens.length === 1 && /^(?:[A-Za-z_]\w*|`.*`|".*")$/s.test(raw)) {
+      return { raw, identifier: unquoteIdentifier(raw) };
+    }
+    return { raw };
+  }
+
+  /**
+   * Parse the clauses following ENGINE in any order: PARTITION BY, ORDER BY,
+   * PRIMARY KEY, SAMPLE BY, TTL, SETTINGS and COMMENT.
+   * Each expression is captured as source text up to the next clause.
+   * @returns {TableClauses} Clauses found, undefined when absent
+   * @private
+   */
+  private parseTableClauses(): TableClauses {
+    let partitionBy: string | undefined;
+    let orderBy: string | undefined;
+    let primaryKey: string | undefined;
+    let sampleBy: string | undefined;
+    let ttl: string | undefined;
+    let settings: Record<string, string | number> | undefined;
+    let comment: string | undefined;
+
+    const maxClauses = 8;
+    for (let i = 0; i < maxClauses; i++) {
+      const t = peekToken(this.state);
+      const next = peekToken(this.state, 1);
+      if (tryMatch(this.state, Partition)) {
+        consumeToken(this.state, By, "BY");
+        partitionBy = this.captureClauseExpression("PARTITION BY expression");
+      } else if (tryMatch(this.state, Order)) {
+        consumeToken(this.state, By, "BY");
+        orderBy = this.captureClauseExpression("ORDER BY expression");
+      } else if (isWord(t, "PRIMARY") && isWord(next, "KEY")) {
+        this.state.position += 2;
+        primaryKey = this.captureClauseExpression("PRIMARY KEY expression");
+      } else if (isWord(t, "SAMPLE") && next?.tokenType === By) {
+        this.state.position += 2;
+        sampleBy = this.captureClauseExpression("SAMPLE BY expression");
+      } else if (isWord(t, "TTL")) {
+        this.state.position++;
+        ttl = this.captureClauseExpression("TTL expression");
+      } else if (isWord(t, "SETTINGS")) {
+        this.state.position++;
+        settings = this.parseSettings();
+      } else if (t?.tokenType === Comment) {
+        comment = this.parseOptionalComment();
+      } else {
+        break;
+      }
+    }
+
+    return {
+      partitionBy,
+      orderBy,
+      primaryKey,
+      sampleBy,
+      ttl,
+      settings,
+      comment,
+    };
+  }
+
+  /**
+   * Capture a table clause expression up to the next clause.
+   * @param {string} expected - Description used when the expression is empty
+   * @returns {string} Source text of the expression
+   * @throws {ParseError} When the expression is empty
+   * @private
+   */
+  private captureClauseExpression(expected: string): string {
+    const expression = captureRawExpression(
+      this.state,
+      [],
+      500,
+      isTableClauseStart,
+    );
+    if (expression === undefined) throw unexpectedToken(this.state, expected);
+    return expression;
+  }
+
+  /**
+   * Parse `name = value` pairs of a SETTINGS clause.
+   * Literal values are unquoted; other values keep their source text.
+   * @returns {Record<string, string | number>} Settings by name
+   * @private
+   */
+  private parseSettings(): Record<string, string | number> {
+    const settings: Record<string, string | number> = {};
+    const maxSettings = 100;
+    let count = 0;
+
+    do {
+      const name = consumeIdentifier(this.state, "setting name");
+      consumeToken(this.state, Eq, "=");
+      const start = this.state.position;
+      const raw = captureRawExpression(
+        this.state,
+        [Comma],
+        200,
+        isTableClauseStart,
+      );
+      if (raw === undefined) throw unexpectedToken(this.state, "setting value");
+      const tokens = this.state.tokens.slice(start, this.state.position);
+      settings[name] = literalValue(tokens, raw) ?? raw;
+    } while (++count < maxSettings && tryMatch(this.state, Comma));
+
+    return settings;
+  }
+
+  /**
+   * Parse materialized view body with AS SELECT clause.
+   * Handles complex MV syntax including WITH clauses, CTEs, JOINs and
+   * subqueries. Maps parsed SELECT columns to Unknown types for later type
+   * inference through the query.
+   * @param {string} name - Table name
+   * @param {string} [database] - Optional database qualifier
+   * @param {Object} clauses - Line, ENGINE and table clauses parsed before AS
+   * @returns {TableAst} Complete materialized view AST
+   * @private
+   */
+  private parseMaterializedViewBody(
+    name: string,
+    database: string | undefined,
+    clauses: TableClauses & Pick<TableAst, "line" | "engine">,
+  ): TableAst {
+    if (!tryMatch(this.state, As)) {
+      skipToToken(this.state, As);
+    }
+
+    const query = this.parseSelectQuery(0);
+    const columns = query.items.map((item) => ({
+      name: item.alias ?? item.name,
+      type: { name: "Unknown", args: [] },
+      rawType: "Unknown",
+      comment: undefined,
+      default: undefined,
+    }));
+    const cte = query.ctes?.[0];
+
+    return {
+      name,
+      database,
+      columns,
+      ...clauses,
+      mvFrom: triggerTable(query),
+      mvSelect: query.items,
+      mvCte: cte
+        ? {
+            name: cte.name,
+            src: triggerTable(cte.query),
+            columns: cte.query.items,
+          }
+        : undefined,
+      mvQuery: query,
+    };
+  }
+
+  /**
+   * Parse `[WITH ...] SELECT items [FROM sources]` up to the end of the
+   * statement or the parenthesis closing a subquery, which is not consumed.
+   * WITH named expressions, WHERE, GROUP BY and UNION branches after the
+   * first are skipped; they do not decide column types.
+   * @param {number} depth - Subquery nesting depth
+   * @returns {SelectQueryAst} Query with its CTEs, items and sources
+   * @throws {Error} When subqueries nest deeper than MAX_PARSER_DEPTH
+   * @private
+   */
+  private parseSelectQuery(depth: number): SelectQueryAst {
+    assert(depth < MAX_PARSER_DEPTH, "Subquery nesting limit exceeded");
+    const { ctes, expressions } = tryMatch(this.state, With)
+      ? this.parseWithList(depth)
+      : { ctes: [], expressions: [] };
+
+    // Ensure we're at SELECT for the main query
+    if (peekToken(this.state)?.tokenType !== Select) {
+      skipToToken(this.state, Select);
+    }
+    tryMatch(this.state, Select);
+    if (isWord(peekToken(this.state), "DISTINCT")) this.state.position++;
+
+    const items = this.parseSelectList();
+    const { sources, arrayJoins } = this.parseFromClause(depth);
+    this.skipToQueryEnd();
+
+    return {
+      ...(ctes.length > 0 ? { ctes } : {}),
+      ...(expressions.length > 0 ? { expressions } : {}),
+      items,
+      sources,
+      ...(arrayJoins.length > 0 ? { arrayJoins } : {}),
+    };
+  }
+
+  /**
+   * Parse the comma-separated definitions of a WITH clause: `name AS (query)`
+   * CTEs and `expression AS name` named expressions.
+   * @param {number} depth - Nesting depth of the query the clause belongs to
+   * @returns {WithClause} CTEs and named expressions in order
+   * @private
+   */
+  private parseWithList(depth: number): WithClause {
+    const ctes: { name: string; query: SelectQueryAst }[] = [];
+    const expressions: SelectItemAst[] = [];
+    const maxDefinitions = 100;
+
+    for (let i = 0; i < maxDefinitions; i++) {
+      const isCte =
+        peekToken(this.state)?.tokenType === Identifier &&
+        peekToken(this.state, 1)?.tokenType === As &&
+        peekToken(this.state, 2)?.tokenType === LParen;
+      if (isCte) {
+        const name = consumeIdentifier(this.state, "CTE name");
+        this.state.position += 2; // AS (
+        ctes.push({ name, query: this.parseSelectQuery(depth + 1) });
+        consumeToken(this.state, RParen, ")");
+      } else {
+        const start = this.state.position;
+        captureRawExpression(this.state, [Comma, Select], 2000);
+        if (this.state.position > start) {
+          const item = this.describeSelectItem(start, this.state.position);
+          if (item.alias) expressions.push(item);
+        }
+      }
+      if (!tryMatch(this.state, Comma)) break;
+    }
+
+    return { ctes, expressions };
+  }
+
+  /**
+   * Parse an optional FROM clause with its JOINs and ARRAY JOINs.
+   * JOIN conditions are skipped.
+   * @param {number} depth - Nesting depth of the query
+   * @returns {Object} Sources in order and ARRAY JOIN items
+   * @private
+   */
+  private parseFromClause(depth: number): {
+    sources: SelectSourceAst[];
+    arrayJoins: ArrayJoinAst[];
+  } {
+    const sources: SelectSourceAst[] = [];
+    const arrayJoins: ArrayJoinAst[] = [];
+    if (!tryMatch(this.state, From)) return { sources, arrayJoins };
+
+    sources.push(this.parseSelectSource(depth));
+    const maxJoins = 100;
+    for (let i = 0; i < maxJoins; i++) {
+      if (tryMatch(this.state, Comma)) {
+        sources.push(this.parseSelectSource(depth));
+      } else if (this.tryMatchJoin("ARRAY")) {
+        arrayJoins.push(...this.parseArrayJoinList());
+      } else if (this.tryMatchJoin()) {
+        sources.push(this.parseSelectSource(depth));
+      } else {
+        break;
+      }
+      this.skipJoinCondition();
+    }
 
-    while (!tryMatch(this.state, RParen)) {
-      if (isAtEnd(this.state)) throw new Error("Unterminated CODEC");
+    return { sources, arrayJoins };
+  }
+
+  /**
+   * Consume a `[modifiers] JOIN` keyword sequence, e.g. `LEFT ANY JOIN`,
+   * or `[LEFT] ARRAY JOIN` when `kind` is "ARRAY".
+   * @param {string} [kind] - "ARRAY" to match ARRAY JOIN only
+   * @returns {boolean} True when a JOIN was consumed
+   * @private
+   */
+  private tryMatchJoin(kind?: "ARRAY"): boolean {
+    let offset = 0;
+    while (JOIN_MODIFIERS.has(wordOf(peekToken(this.state, offset)))) {
+      offset++;
+    }
+    const isArray = isWord(peekToken(this.state, offset), "ARRAY");
+    if (isArray !== (kind === "ARRAY")) return false;
+    if (isArray) offset++;
+    if (!isWord(peekToken(this.state, offset), "JOIN")) return false;
+    this.state.position += offset + 1;
+    return true;
+  }
+
+  /**
+   * Parse a table, CTE, subquery or table function reference with its alias.
+   * @param {number} depth - Nesting depth of the query it belongs to
+   * @returns {SelectSourceAst} Source; empty apart from the alias for table functions
+   * @private
+   */
+  private parseSelectSource(depth: number): SelectSourceAst {
+    let source: SelectSourceAst = {};
+    if (tryMatch(this.state, LParen)) {
+      const t = peekToken(this.state)?.tokenType;
+      if (t === Select || t === With) {
+        source = { query: this.parseSelectQuery(depth + 1) };
+        consumeToken(this.state, RParen, ")");
+      } else {
+        skipBalancedParens(this.state);
+      }
+    } else {
+      const table = this.parseQualifiedName();
+      if (tryMatch(this.state, LParen)) skipBalancedParens(this.state);
+      else source = { table };
+    }
+
+    if (isWord(peekToken(this.state), "FINAL")) this.state.position++;
+    const alias = this.parseOptionalSourceAlias();
+    return alias ? { ...source, alias } : source;
+  }
+
+  /**
+   * Parse `[AS] alias` after a FROM or JOIN source.
+   * @returns {string | undefined} Alias, or undefined when the next word is a keyword
+   * @private
+   */
+  private parseOptionalSourceAlias(): string | undefined {
+    if (tryMatch(this.state, As)) {
+      return consumeIdentifier(this.state, "alias");
+    }
+    const t = peekToken(this.state);
+    if (t?.tokenType !== Identifier || SOURCE_ALIAS_STOP.has(wordOf(t))) {
+      return undefined;
+    }
+    this.state.position++;
+    return unquoteIdentifier(String(t.image));
+  }
+
+  /**
+   * Parse the `column [AS alias]` items of an ARRAY JOIN. Items that are
+   * not plain columns are skipped.
+   * @returns {ArrayJoinAst[]} Array join items
+   * @private
+   */
+  private parseArrayJoinList(): ArrayJoinAst[] {
+    const items: ArrayJoinAst[] = [];
+    const maxItems = 100;
+
+    for (let i = 0; i < maxItems; i++) {
+      const isColumn =
+        peekToken(this.state)?.tokenType === Identifier &&
+        peekToken(this.state, 1)?.tokenType !== LParen;
+      if (isColumn) {
+        const ref = this.parseQualifiedName();
+        const alias = tryMatch(this.state, As)
+          ? consumeIdentifier(this.state, "alias")
+          : undefined;
+        items.push({
+          column: ref.name,
+          ...(ref.database ? { table: ref.database } : {}),
+          ...(alias ? { alias } : {}),
+        });
+      } else {
+        captureRawExpression(this.state, [Comma], 500, isQueryClauseStart);
+      }
+      if (!tryMatch(this.state, Comma)) break;
+    }
+
+    return items;
+  }
+
+  /**
+   * Skip an `ON ...` or `USING ...` JOIN condition up to the next JOIN,
+   * comma-separated source or query clause.
+   * @private
+   */
+  private skipJoinCondition(): void {
+    const isOn = isWord(peekToken(this.state), "ON");
+    if (!isOn && !isWord(peekToken(this.state), "USING")) return;
+    this.state.position++;
+    captureRawExpression(
+      this.state,
+      [Comma],
+      2000,
+      (state) => isQueryClauseStart(state) || isJoinStart(state),
+    );
+  }
+
+  /**
+   * Skip the rest of a query (WHERE, GROUP BY, UNION branches, ...) up to
+   * the end of input or the parenthesis closing the enclosing subquery.
+   * @private
+   */
+  private skipToQueryEnd(): void {
+    let depth = 0;
+    const startPos = this.state.position;
+    while (!isAtEnd(this.state)) {
+      const t = peekToken(this.state)!.tokenType;
+      if (t === RParen && depth === 0) break;
+      if (t === LParen) depth++;
+      if (t === RParen) depth--;
       this.state.position++;
+      if (this.state.position - startPos > 10000) {
+        throw new Error("Query parsing limit exceeded");
+      }
+    }
+  }
 
+  /**
+   * Parse qualified table name (database.name or name).
+   * Splits off the optional database prefix from the final name component.
+   * @returns {{ database?: string; name: string }} Name and optional database
+   * @private
+   */
+  private parseQualifiedName(): { database?: string; name: string } {
+    const first = consumeIdentifier(this.state, "identifier");
+    if (tryMatch(this.state, Dot)) {
+      const second = consumeIdentifier(this.state, "identifier");
+      return { database: first, name: second };
+    }
+    return { name: first };
+  }
+
+  /**
+   * Parse complete column definition.
+   * Handles column name, type and the trailing COMMENT, value (DEFAULT,
+   * MATERIALIZED, ALIAS, EPHEMERAL) and CODEC clauses in any order.
+   * Captures raw type string for later processing.
+   * @param {(state: ParserState) => boolean} [isEnd] - Extra end of the
+   *   definition, e.g. `AFTER x` in ALTER TABLE ... ADD COLUMN
+   * @returns {ColumnAst} Complete column AST node
+   * @private
+   */
+  private parseColumnDef(
+    isEnd: (state: ParserState) => boolean = () => false,
+  ): ColumnAst {
+    this.skipToColumnName();
+    const name = consumeIdentifier(this.state, "column name");
+    const { type, rawType } = this.parseColumnType();
+    const { comment, value, ttl } = this.parseColumnClauses(isEnd);
+
+    const column: ColumnAst = {
+      name,
+      type,
+      rawType,
+      comment,
+      default: value?.expression,
+      ...(ttl !== undefined ? { ttl } : {}),
+    };
+    return value ? { ...column, kind: value.kind } : column;
+  }
+
+  /**
+   * Parse a column type together with its normalized source text.
+   * @returns {{ type: TypeAst; rawType: string }} Type AST and raw type
+   * @private
+   */
+  private parseColumnType(): { type: TypeAst; rawType: string } {
+    const typeStart = this.state.position;
+    const type = this.parseTypeExpr();
+    const typeEnd = this.state.position;
+    const rawType = joinTypeTokens(this.state.tokens.slice(typeStart, typeEnd));
+    return { type, rawType };
+  }
+
+  /**
+   * Parse the COMMENT, TTL, value and CODEC clauses following a column type.
+   * @param {(state: ParserState) => boolean} isEnd - Extra end of the column definition
+   * @returns {Object} Clauses found, undefined when absent
+   * @private
+   */
+  private parseColumnClauses(isEnd: (state: ParserState) => boolean): {
+    comment?: string;
+    value?: { kind: ColumnKind; expression?: string };
+    ttl?: string;
+  } {
+    let comment: string | undefined;
+    let value: { kind: ColumnKind; expression?: string } | undefined;
+    let ttl: string | undefined;
+    const maxClauses = 8;
+    for (let i = 0; i < maxClauses; i++) {
+      const c = this.parseOptionalComment();
+      if (c !== undefined) {
+        comment = c;
+        continue;
+      }
+      const expiry = this.parseOptionalColumnTtl(isEnd);
+      if (expiry !== undefined) {
+        ttl = expiry;
+        continue;
+      }
+      const v = this.parseOptionalValueClause(isEnd);
+      if (v !== undefined) {
+        value = v;
+        continue;
+      }
+      if (this.parseOptionalCodec()) continue;
+      break;
+    }
+    return { comment, value, ttl };
+  }
+
+  /**
+   * Skip tokens until column name found.
+   * Recovers from malformed column syntax by advancing to next identifier.
+   * @private
+   */
+  private skipToColumnName(): void {
+    const startPos = this.state.position;
+    while (
+      !isAtEnd(this.state) &&
+      peekToken(this.state)?.tokenType !== Identifier &&
+      peekToken(this.state)?.tokenType !== RParen
+    ) {
+      this.state.position++;
       if (this.state.position - startPos > 100) {
-        throw new Error("CODEC parsing limit exceeded");
+        throw new Error("Column name search limit exceeded");
       }
     }
   }
 
+  /**
+   * Parse optional COMMENT clause.
+   * Extracts comment string and removes surrounding quotes.
+   * @returns {string | undefined} Unquoted comment text or undefined
+   * @private
+   */
+  private parseOptionalComment(): string | undefined {
+    if (!tryMatch(this.state, Comment)) return undefined;
+    const s = consumeToken(this.state, StringLiteral, "string").image as string;
+    return unquote(s);
+  }
+
+  /**
+   * Parse optional DEFAULT, MATERIALIZED, ALIAS or EPHEMERAL clause.
+   * Captures the expression source text until the next column clause;
+   * EPHEMERAL may appear without an expression.
+   * @param {(state: ParserState) => boolean} isEnd - Extra end of the column definition
+   * @returns {Object | undefined} Clause kind and expression, or undefined
+   * @private
+   */
+  private parseOptionalValueClause(
+    isEnd: (state: ParserState) => boolean,
+  ): { kind: ColumnKind; expression?: string } | undefined {
+    const kind = this.matchValueClauseKeyword();
+    if (!kind) return undefined;
+    const expression = captureRawExpression(
+      this.state,
+      [Comma, Comment, Codec],
+      500,
+      (state) => isColumnTtlStart(state) || isEnd(state),
+    );
+    return { kind, expression };
+  }
+
+  /**
+   * Parse optional column-level TTL clause.
+   * @param {(state: ParserState) => boolean} isEnd - Extra end of the column definition
+   * @returns {string | undefined} TTL expression source text or undefined
+   * @throws {ParseError} When TTL has no expression
+   * @private
+   */
+  private parseOptionalColumnTtl(
+    isEnd: (state: ParserState) => boolean,
+  ): string | undefined {
+    if (!isColumnTtlStart(this.state)) return undefined;
+    this.state.position++;
+    const expression = captureRawExpression(
+      this.state,
+      [Comma, Comment, Codec],
+      500,
+      isEnd,
+    );
+    if (expression === undefined) {
+      throw unexpectedToken(this.state, "TTL expression");
+    }
+    return expression;
+  }
+
+  /**
+   * Consume a column value keyword and return the matching ColumnKind.
+   * ALIAS and EPHEMERAL are matched as words, since columns may be named so.
+   * @returns {ColumnKind | undefined} Kind of the clause, or undefined
+   * @private
+   */
+  private matchValueClauseKeyword(): ColumnKind | undefined {
+    if (tryMatch(this.state, Default)) return "default";
+    if (tryMatch(this.state, Materialized)) return "materialized";
+    const word = wordOf(peekToken(this.state));
+    if (word === "alias" || word === "ephemeral") {
+      this.state.position++;
+      return word;
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse optional CODEC clause.
+   * Skips over codec parameters without detailed parsing.
+   * @returns {boolean} True if a CODEC clause was consumed
+   * @private
+   */
+  private parseOptionalCodec(): boolean {
+    if (!tryMatch(this.state, Codec)) return false;
+    consumeToken(this.state, LParen, "(");
+    skipBalancedParens(this.state);
+    return true;
+  }
+
   /**
    * Parse ClickHouse type expression.
    * Handles type name and optional parameters (e.g., Array(String), Decimal(10,2)).
@@ -640,20 +1944,167 @@ class Parser {
    * @private
    */
   private parseTypeExpr(): TypeAst {
-    const id = consumeToken(this.state, Identifier, "type identifier")
-      .image as string;
-    const name = canonicalTypeName(id);
+    const name = canonicalTypeName(this.parseTypeName());
     const args: TypeArg[] = [];
+    const elementNames: string[] = [];
+    const settings: Record<string, number | string> = {};
+    const skip: JsonSkipHint[] = [];
+    let aggregate: AggregateFunctionRef | undefined;
 
     if (tryMatch(this.state, LParen)) {
       if (!tryMatch(this.state, RParen)) {
         do {
+          if (isAggregateFunctionType(name) && !aggregate) {
+            aggregate = this.parseAggregateFunctionRef();
+            continue;
+          }
+          if (this.isTypeSetting()) {
+            const key = consumeIdentifier(this.state, "setting name");
+            consumeToken(this.state, Eq, "=");
+            settings[key] = this.parseSettingValue();
+            continue;
+          }
+          if (name === "JSON" && isWord(peekToken(this.state), "SKIP")) {
+            skip.push(this.parseJsonSkipHint());
+            continue;
+          }
+          if (name === "JSON") {
+            elementNames.push(this.parseJsonPath());
+          } else if (hasNamedElements(name) && this.isNamedElement()) {
+            elementNames.push(consumeIdentifier(this.state, "element name"));
+          }
           args.push(this.parseTypeArg(name));
         } while (tryMatch(this.state, Comma));
         consumeToken(this.state, RParen, ")");
       }
     }
-    return { name, args };
+    if (aggregate) return { name, args, aggregate };
+    if (isEnumType(name)) return enumType(name, args);
+    if (TYPES_IGNORING_ARGS.has(name)) return { name, args: [] };
+    const hints = {
+      ...(Object.keys(settings).length > 0 ? { settings } : {}),
+      ...(skip.length > 0 ? { skip } : {}),
+    };
+    if (elementNames.length === 0) return { name, args, ...hints };
+    if (elementNames.length !== args.length) {
+      throw new Error(
+        `${name} elements must be either all named or all unnamed`,
+      );
+    }
+    return { name, args, elementNames, ...hints };
+  }
+
+  /**
+   * Check whether the next type argument is `name = value`, as in
+   * `JSON(max_dynamic_paths = 256)`.
+   * @returns {boolean} True at a setting argument
+   * @private
+   */
+  private isTypeSetting(): boolean {
+    return (
+      peekToken(this.state)?.tokenType === Identifier &&
+      peekToken(this.state, 1)?.tokenType === Eq
+    );
+  }
+
+  /**
+   * Parse the value of a `name = value` type argument.
+   * @returns {number | string} Number, string or identifier value
+   * @private
+   */
+  private parseSettingValue(): number | string {
+    const t = peekToken(this.state);
+    if (t?.tokenType === Integer || t?.tokenType === Minus) {
+      return this.parseSignedInteger();
+    }
+    if (t?.tokenType === StringLiteral) {
+      return unquote(
+        consumeToken(this.state, StringLiteral, "string").image as string,
+      );
+    }
+    return consumeIdentifier(this.state, "setting value");
+  }
+
+  /**
+   * Parse a dotted JSON path such as `user.address.city`.
+   * @returns {string} Path segments joined by dots
+   * @private
+   */
+  private parseJsonPath(): string {
+    const segments = [consumeIdentifier(this.state, "JSON path")];
+    while (tryMatch(this.state, Dot)) {
+      segments.push(consumeIdentifier(this.state, "JSON path"));
+    }
+    return segments.join(".");
+  }
+
+  /**
+   * Parse a `SKIP path` or `SKIP REGEXP 'pattern'` hint of a JSON type.
+   * @returns {JsonSkipHint} Skipped path or pattern
+   * @private
+   */
+  private parseJsonSkipHint(): JsonSkipHint {
+    consumeIdentifier(this.state, "SKIP");
+    if (
+      isWord(peekToken(this.state), "REGEXP") &&
+      peekToken(this.state, 1)?.tokenType === StringLiteral
+    ) {
+      this.state.position++;
+      const image = consumeToken(this.state, StringLiteral, "pattern").image;
+      return { regexp: unquote(image as string) };
+    }
+    return { path: this.parseJsonPath() };
+  }
+
+  /**
+   * Parse a type name, including multi-word aliases such as
+   * `INT UNSIGNED` or `DOUBLE PRECISION`.
+   * @returns {string} Type name as written, words joined by single spaces
+   * @private
+   */
+  private parseTypeName(): string {
+    let name = consumeIdentifier(this.state, "type identifier");
+    while (isTypeAliasPrefix(name, peekToken(this.state))) {
+      name += ` ${consumeIdentifier(this.state, "type identifier")}`;
+    }
+    return name;
+  }
+
+  /**
+   * Parse the function of an AggregateFunction type, e.g. `argMin` or
+   * `quantiles(0.5, 0.9)`. The name is kept as written; parameters keep
+   * their source text, so `0.5` is read as one number.
+   * @returns {AggregateFunctionRef} Function name and parameters
+   * @private
+   */
+  private parseAggregateFunctionRef(): AggregateFunctionRef {
+    const name = consumeIdentifier(this.state, "aggregate function");
+    if (!tryMatch(this.state, LParen)) return { name, params: [] };
+
+    const params: (number | string)[] = [];
+    const maxParams = 100;
+    for (let i = 0; i < maxParams && !tryMatch(this.state, RParen); i++) {
+      const raw = captureRawExpression(this.state, [Comma], 200);
+      if (raw === undefined) throw unexpectedToken(this.state, "parameter");
+      if (raw.startsWith("'")) params.push(unquote(raw));
+      else params.push(Number.isNaN(Number(raw)) ? raw : Number(raw));
+      tryMatch(this.state, Comma);
+    }
+    return { name, params };
+  }
+
+  /**
+   * Check whether the next Tuple/Nested element is `name Type` rather than `Type`.
+   * @returns {boolean} True when an element name precedes the element type
+   * @private
+   */
+  private isNamedElement(): boolean {
+    const first = peekToken(this.state);
+    return (
+      first?.tokenType === Identifier &&
+      peekToken(this.state, 1)?.tokenType === Identifier &&
+      !isTypeAliasPrefix(String(first.image), peekToken(this.state, 1))
+    );
   }
 
   /**
@@ -674,14 +2125,13 @@ class Parser {
         consumeToken(this.state, StringLiteral, "string").image as string,
       );
       if (tryMatch(this.state, Eq)) {
-        const val = Number(consumeToken(this.state, Integer, "integer").image);
-        return { key, value: val };
+        return { key, value: this.parseSignedInteger() };
       }
       return key;
     }
 
-    if (t.tokenType === Integer) {
-      return Number(consumeToken(this.state, Integer, "integer").image);
+    if (t.tokenType === Integer || t.tokenType === Minus) {
+      return this.parseSignedInteger();
     }
 
     this.state.position++;
@@ -689,88 +2139,114 @@ class Parser {
   }
 
   /**
-   * Parse SELECT column list.
-   * Handles comma-separated list of columns, functions, and expressions with aliases.
-   * Used for materialized view SELECT parsing.
-   * @returns {Array} Array of select items with name, alias, source, and function info
-   * @private
-   */
-  private parseSelectList(): {
-    name: string;
-    alias?: string;
-    srcName?: string;
-    func?: string;
-  }[] {
-    const items: {
-      name: string;
-      alias?: string;
-      srcName?: string;
-      func?: string;
-    }[] = [];
-
-    const maxItems = 100;
-    let itemCount = 0;
+   * Parse an integer that may carry a minus sign.
+   * @returns {number} Integer value
+   * @private
+   */
+  private parseSignedInteger(): number {
+    const sign = tryMatch(this.state, Minus) ? -1 : 1;
+    return sign * Number(consumeToken(this.state, Integer, "integer").image);
+  }
 
-    while (!isAtEnd(this.state) && itemCount < maxItems) {
-      const t = peekToken(this.state);
-      if (!t || t.tokenType === From) break;
+  /**
+   * Parse SELECT column list.
+   * Items are split at top-level commas and keep their source text, so
+   * operators the lexer skips are still available for type inference.
+   * `SELECT *` yields no items.
+   * @returns {SelectItemAst[]} Select items with name, alias, source, and function info
+   * @private
+   */
+  private parseSelectList(): SelectItemAst[] {
+    const items: SelectItemAst[] = [];
+    const maxItems = 1000;
+
+    for (let i = 0; i < maxItems; i++) {
+      const start = this.state.position;
+      const end = captureRawExpression(
+        this.state,
+        [Comma, From],
+        2000,
+        isQueryClauseStart,
+      )
+        ? this.state.position
+        : start;
+      if (end > start) items.push(this.describeSelectItem(start, end));
+      if (!tryMatch(this.state, Comma)) break;
+    }
 
-      if (t.tokenType === Comma) {
-        this.state.position++;
-        continue;
-      }
+    return items;
+  }
 
-      if (t.tokenType === Identifier) {
-        items.push(this.parseSelectItem());
-        itemCount++;
-        continue;
-      }
+  /**
+   * Describe the SELECT item spanning a token range: its expression text,
+   * `AS` alias, and for calls and column
+   * references the function name and the first column it reads.
+   * @param {number} start - Index of the item's first token
+   * @param {number} end - Index after the item's last token
+   * @returns {SelectItemAst} Select item
+   * @private
+   */
+  private describeSelectItem(start: number, end: number): SelectItemAst {
+    const tokens = this.state.tokens.slice(start, end);
+    const hasAlias =
+      tokens.length >= 3 &&
+      tokens[tokens.length - 2]!.tokenType === As &&
+      tokens[tokens.length - 1]!.tokenType === Identifier;
+    const expressionTokens = hasAlias ? tokens.slice(0, -2) : tokens;
+    const first = expressionTokens[0]!;
+    const last = expressionTokens[expressionTokens.length - 1]!;
+    const expression = this.state.text.slice(
+      first.startOffset,
+      (last.endOffset ?? 0) + 1,
+    );
+    const alias = hasAlias
+      ? unquoteIdentifier(String(tokens[tokens.length - 1]!.image))
+      : undefined;
 
-      this.state.position++;
+    if (first.tokenType !== Identifier) {
+      return { name: expression, alias, expression };
     }
-
-    return items;
+    const item = new Parser({
+      ...this.state,
+      tokens: expressionTokens,
+      position: 0,
+      maxTokens: expressionTokens.length,
+    }).parseSelectItem();
+    return { ...item, alias, expression };
   }
 
   /**
-   * Parse individual SELECT item (column, function call, or expression).
-   * Handles qualified names, function calls, and optional AS aliases.
+   * Parse the head of a SELECT item: a column reference or function call.
    * Extracts source column information for type inference.
-   * @returns {Object} Select item with name, alias, source, and function metadata
+   * @returns {SelectItemAst} Select item without alias and expression text
    * @private
    */
-  private parseSelectItem(): {
-    name: string;
-    alias?: string;
-    srcName?: string;
-    func?: string;
-  } {
-    const id1 = consumeToken(this.state, Identifier, "identifier")
-      .image as string;
+  private parseSelectItem(): Omit<SelectItemAst, "expression"> {
+    const id1 = consumeIdentifier(this.state, "identifier");
     let name = id1;
+    let table: string | undefined;
 
-    if (tryMatch(this.state, Dot)) {
-      const id2 = consumeToken(this.state, Identifier, "identifier")
-        .image as string;
-      name = id2;
+    const isQualified =
+      peekToken(this.state)?.tokenType === Dot &&
+      peekToken(this.state, 1)?.tokenType === Identifier;
+    if (isQualified) {
+      this.state.position++;
+      name = consumeIdentifier(this.state, "identifier");
+      table = id1;
     }
 
-    let srcName: string | undefined;
+    let source: { srcName?: string; table?: string } = { srcName: name, table };
     let funcName: string | undefined;
 
     if (tryMatch(this.state, LParen)) {
       funcName = id1;
-      srcName = this.parseFirstFunctionArg();
+      source = this.parseFirstFunctionArg();
     }
 
-    const alias = tryMatch(this.state, As)
-      ? (consumeToken(this.state, Identifier, "alias").image as string)
-      : undefined;
-
     return {
       name,
-      alias,
-      srcName: srcName ?? name,
+      srcName: funcName ? source.srcName : name,
+      ...(source.table ? { table: source.table } : {}),
       func: funcName,
     };
   }
@@ -779,12 +2255,13 @@ class Parser {
    * Parse first function argument to extract source column.
    * Navigates through nested function calls to find the underlying column reference.
    * Used for type inference in aggregate functions.
-   * @returns {string | undefined} Source column name or undefined
+   * @returns {{ srcName?: string; table?: string }} Source column and its qualifier, if any
    * @private
    */
-  private parseFirstFunctionArg(): string | undefined {
+  private parseFirstFunctionArg(): { srcName?: string; table?: string } {
     let depth = 1;
     let srcName: string | undefined;
+    let table: string | undefined;
     const startPos = this.state.position;
 
     while (!isAtEnd(this.state) && depth > 0) {
@@ -804,17 +2281,20 @@ class Parser {
       }
 
       if (tt.tokenType === Identifier) {
-        const inner1 = consumeToken(this.state, Identifier, "identifier")
-          .image as string;
+        const inner1 = consumeIdentifier(this.state, "identifier");
         if (peekToken(this.state)?.tokenType === LParen) continue;
 
         let inner = inner1;
+        let qualifier: string | undefined;
         if (tryMatch(this.state, Dot)) {
-          inner = consumeToken(this.state, Identifier, "identifier")
-            .image as string;
+          inner = consumeIdentifier(this.state, "identifier");
+          qualifier = inner1;
         }
 
-        if (!srcName) srcName = inner;
+        if (!srcName) {
+          srcName = inner;
+          table = qualifier;
+        }
         continue;
       }
 
@@ -825,75 +2305,179 @@ class Parser {
       }
     }
 
-    return srcName;
+    return { srcName, table };
   }
+}
 
-  /**
-   * Capture expression tokens until stopper found.
-   * Collects raw token text for clauses like PARTITION BY and ORDER BY.
-   * Stops at specified token types and cleans up trailing semicolons.
-   * @param {TokenType[]} stoppers - Token types that end the expression
-   * @returns {string} Raw expression text
-   * @private
-   */
-  private captureExpressionUntil(stoppers: TokenType[]): string {
-    const parts: string[] = [];
-    const startPos = this.state.position;
-
-    while (!isAtEnd(this.state)) {
-      const t = peekToken(this.state);
-      if (!t) break;
-      if (stoppers.length > 0 && stoppers.includes(t.tokenType)) break;
+/**
+ * First table a query reads from, following subqueries and CTEs. Inserts
+ * into this table are what trigger a materialized view.
+ * @param {SelectQueryAst} query - Query to inspect
+ * @returns {string | undefined} Table name, or undefined for table functions
+ */
+function triggerTable(query: SelectQueryAst): string | undefined {
+  let current: SelectQueryAst | undefined = query;
+  const ctes = new Map<string, SelectQueryAst>();
+
+  for (let depth = 0; current && depth < MAX_PARSER_DEPTH; depth++) {
+    for (const cte of current.ctes ?? []) ctes.set(cte.name, cte.query);
+    const source: SelectSourceAst | undefined = current.sources[0];
+    if (source?.table) {
+      const cteQuery: SelectQueryAst | undefined = source.table.database
+        ? undefined
+        : ctes.get(source.table.name);
+      if (!cteQuery) return source.table.name;
+      ctes.delete(source.table.name);
+      current = cteQuery;
+    } else {
+      current = source?.query;
+    }
+  }
+  return undefined;
+}
 
-      parts.push(String(t.image));
-      this.state.position++;
+/**
+ * Lowercased word of an identifier token.
+ * @param {IToken | undefined} token - Token to read
+ * @returns {string} Lowercased image, or "" for other tokens
+ */
+function wordOf(token: IToken | undefined): string {
+  return token?.tokenType === Identifier
+    ? String(token.image).toLowerCase()
+    : "";
+}
 
-      if (this.state.position - startPos > 500) {
-        throw new Error("Expression capture limit exceeded");
-      }
-    }
+/**
+ * Check if the next token starts a JOIN, including ARRAY JOIN.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at e.g. `JOIN`, `LEFT JOIN` or `ARRAY JOIN`
+ */
+function isJoinStart(state: ParserState): boolean {
+  let offset = 0;
+  while (JOIN_MODIFIERS.has(wordOf(peekToken(state, offset)))) offset++;
+  if (isWord(peekToken(state, offset), "ARRAY")) offset++;
+  return isWord(peekToken(state, offset), "JOIN");
+}
 
-    return parts.join("").trim().replace(/;\s*$/, "");
-  }
+/**
+ * Check if the next token starts a query clause following FROM.
+ * @param {ParserState} state - Current parser state
+ * @returns {boolean} True at WHERE, GROUP BY, ORDER BY, UNION and similar
+ */
+function isQueryClauseStart(state: ParserState): boolean {
+  const t = peekToken(state);
+  return t?.tokenType === Order || QUERY_CLAUSES.has(wordOf(t));
 }
 
 /**
  * Normalize ClickHouse type names to canonical form.
- * Converts case-insensitive type names to standard PascalCase format.
- * Handles special cases for complex types and preserves existing capitalization.
+ * Resolves case-insensitive spellings and SQL aliases such as `BIGINT` or
+ * `CHARACTER VARYING`; other names keep their spelling with a capital
+ * first letter.
  * @param {string} name - Raw type name from parser
  * @returns {string} Canonical type name
  */
 function canonicalTypeName(name: string): string {
-  const n = name.toLowerCase();
-  switch (n) {
-    case "nullable":
-      return "Nullable";
-    case "lowcardinality":
-      return "LowCardinality";
-    case "array":
-      return "Array";
-    case "tuple":
-      return "Tuple";
-    case "map":
-      return "Map";
-    case "enum8":
-      return "Enum8";
-    case "enum16":
-      return "Enum16";
-    case "decimal":
-      return "Decimal";
-    case "fixedstring":
-      return "FixedString";
-    case "datetime":
-      return "DateTime";
-    case "datetime64":
-      return "DateTime64";
-    default:
-      return /^[A-Z]/.test(name)
-        ? name
-        : name.charAt(0).toUpperCase() + name.slice(1);
+  const canonical = CANONICAL_TYPE_NAMES.get(name.toLowerCase());
+  if (canonical) return canonical;
+  return /^[A-Z]/.test(name)
+    ? name
+    : name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Check whether the next token continues a multi-word type alias.
+ * @param {string} name - Type name read so far
+ * @param {IToken | undefined} next - Next token
+ * @returns {boolean} True when e.g. `UNSIGNED` follows `INT`
+ */
+function isTypeAliasPrefix(name: string, next: IToken | undefined): boolean {
+  const word = wordOf(next);
+  if (word === "") return false;
+  const words = `${name.toLowerCase()} ${word}`;
+  return TYPE_ALIASES.has(words) || TYPE_ALIAS_PREFIXES.has(words);
+}
+
+/**
+ * Whether a type's first argument is an aggregate function.
+ * @param {string} name - Canonical type name
+ * @returns {boolean} True for AggregateFunction and SimpleAggregateFunction
+ */
+function isAggregateFunctionType(name: string): boolean {
+  return name === "AggregateFunction" || name === "SimpleAggregateFunction";
+}
+
+/**
+ * Whether a type lists enum members.
+ * @param {string} name - Canonical type name
+ * @returns {boolean} True for Enum, Enum8 and Enum16
+ */
+function isEnumType(name: string): boolean {
+  return name === "Enum" || name === "Enum8" || name === "Enum16";
+}
+
+/**
+ * Build an enum type from its parsed arguments. Members written without a
+ * value continue from the previous member, starting at 1, as ClickHouse
+ * does, and a bare `Enum` becomes Enum8 when every value fits in Int8 and
+ * Enum16 otherwise.
+ * @param {string} name - Enum, Enum8 or Enum16
+ * @param {readonly TypeArg[]} args - Members, or bare member names
+ * @returns {TypeAst} Enum type whose arguments are all EnumMembers
+ * @throws {Error} When an argument is not a member, or a name or value is
+ *   used twice
+ */
+function enumType(name: string, args: readonly TypeArg[]): TypeAst {
+  const members: EnumMember[] = [];
+  let next = 1;
+  for (const arg of args) {
+    if (!isEnumMember(arg) && typeof arg !== "string") {
+      throw new Error(`Invalid ${name} member`);
+    }
+    const member = isEnumMember(arg) ? arg : { key: arg, value: next };
+    if (members.some((m) => m.key === member.key)) {
+      throw new Error(`Duplicate ${name} name '${member.key}'`);
+    }
+    if (members.some((m) => m.value === member.value)) {
+      throw new Error(`Duplicate ${name} value ${member.value}`);
+    }
+    members.push(member);
+    next = member.value + 1;
   }
+  if (name !== "Enum") return { name, args: members };
+  const fitsInt8 = members.every((m) => m.value >= -128 && m.value <= 127);
+  return { name: fitsInt8 ? "Enum8" : "Enum16", args: members };
+}
+
+/**
+ * Whether a type's arguments may be written as `name Type` elements.
+ * @param {string} name - Canonical type name
+ * @returns {boolean} True for Tuple and Nested
+ */
+function hasNamedElements(name: string): boolean {
+  return name === "Tuple" || name === "Nested";
+}
+
+/**
+ * Rebuild type text from its tokens.
+ * Tokens are joined without whitespace, except that adjacent words keep a
+ * single space so named tuple elements read `Tuple(price Float64)` and JSON
+ * hints `SKIP REGEXP 'tmp.*'`.
+ * @param {readonly IToken[]} tokens - Tokens of the type expression
+ * @returns {string} Compact type text
+ */
+function joinTypeTokens(tokens: readonly IToken[]): string {
+  const isWordToken = (t: IToken | undefined) =>
+    t?.tokenType === Identifier || t?.tokenType === Integer;
+  return tokens
+    .map((t, i) =>
+      i > 0 &&
+      isWordToken(tokens[i - 1]) &&
+      (isWordToken(t) || t.tokenType === StringLiteral)
+        ? ` ${t.image}`
+        : t.image,
+    )
+    .join("");
 }
 
 /**
@@ -908,3 +2492,19 @@ function unquote(s: string): string {
     ? s.slice(1, -1).replace(/\\'/g, "'")
     : s;
 }
+
+/**
+ * Remove backtick or double quotes from an identifier.
+ * Resolves backslash escapes and doubled enclosing quotes inside the name.
+ * Returns bare identifiers unchanged.
+ * @param {string} s - Identifier token image
+ * @returns {string} Identifier name without quoting
+ */
+function unquoteIdentifier(s: string): string {
+  const quote = s.charAt(0);
+  if ((quote !== "`" && quote !== '"') || s.length < 2) return s;
+  const escapes = new RegExp(`\\\\(.)|${quote}${quote}`, "g");
+  return s
+    .slice(1, -1)
+    .replace(escapes, (_m, escaped?: string) => escaped ?? quote);
+}
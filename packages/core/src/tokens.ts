@@ -30,6 +30,28 @@ export const RParen = createToken({
   pattern: /\)/,
 });
 
+/** Array literals and subscripts, e.g. `[1, 2]` or `tags[1]`. */
+export const LBracket = createToken({
+  name: "LBracket",
+  pattern: /\[/,
+});
+
+export const RBracket = createToken({
+  name: "RBracket",
+  pattern: /\]/,
+});
+
+/** Map literals and query parameters, e.g. `{'a': 1}` or `{id:UInt64}`. */
+export const LBrace = createToken({
+  name: "LBrace",
+  pattern: /\{/,
+});
+
+export const RBrace = createToken({
+  name: "RBrace",
+  pattern: /\}/,
+});
+
 export const Comma = createToken({
   name: "Comma",
   pattern: /,/,
@@ -45,10 +67,19 @@ export const Eq = createToken({
   pattern: /=/,
 });
 
+/** Minus sign; `--` comments are matched before it. */
+export const Minus = createToken({
+  name: "Minus",
+  pattern: /-/,
+});
+
+/** Lexer group that collects statement separators outside the main token stream. */
+export const STATEMENT_SEPARATORS = "statementSeparators";
+
 export const Semi = createToken({
   name: "Semi",
   pattern: /;/,
-  group: Lexer.SKIPPED,
+  group: STATEMENT_SEPARATORS,
 });
 
 // Keywords
@@ -163,9 +194,14 @@ export const Integer = createToken({
   pattern: /\d+/,
 });
 
+/**
+ * Bare identifiers plus backtick- and double-quoted ones. Quoted identifiers
+ * may contain any character, with quotes escaped by a backslash or doubling;
+ * the parser strips the quotes (see `unquoteIdentifier`).
+ */
 export const Identifier = createToken({
   name: "Identifier",
-  pattern: /[A-Za-z_][A-Za-z0-9_]*/,
+  pattern: /`(?:[^`\\]|\\.|``)*`|"(?:[^"\\]|\\.|"")*"|[A-Za-z_][A-Za-z0-9_]*/,
 });
 
 // Catch-all for any unrecognized single non-whitespace character to avoid lexing failures
@@ -182,9 +218,14 @@ export const ddlLexer = new Lexer([
   WhiteSpace,
   LParen,
   RParen,
+  LBracket,
+  RBracket,
+  LBrace,
+  RBrace,
   Comma,
   Dot,
   Eq,
+  Minus,
   Semi,
   Create,
   Table,
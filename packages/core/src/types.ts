@@ -6,6 +6,33 @@
 export interface TypeAst {
   readonly name: string;
   readonly args: readonly TypeArg[];
+  /**
+   * Element names of a named Tuple or Nested, parallel to args. For JSON,
+   * the dotted paths of its typed paths.
+   */
+  readonly elementNames?: readonly string[];
+  /**
+   * Function of an AggregateFunction or SimpleAggregateFunction type; args
+   * then hold only the argument types.
+   */
+  readonly aggregate?: AggregateFunctionRef;
+  /** `name = value` arguments of JSON and Dynamic, e.g. `max_dynamic_paths`. */
+  readonly settings?: Readonly<Record<string, number | string>>;
+  /** `SKIP path` and `SKIP REGEXP 'pattern'` hints of a JSON type. */
+  readonly skip?: readonly JsonSkipHint[];
+}
+
+/** A path or pattern of paths a JSON type does not store. */
+export type JsonSkipHint =
+  | { readonly path: string }
+  | { readonly regexp: string };
+
+/** Aggregate function named in a type, e.g. `quantilesIf(0.5, 0.9)`. */
+export interface AggregateFunctionRef {
+  /** Function name with its combinators, as written. */
+  readonly name: string;
+  /** Parameters of a parametric function, e.g. `[0.5, 0.9]`. */
+  readonly params: readonly (number | string)[];
 }
 
 /** A type expression argument. */
@@ -17,45 +44,302 @@ export interface EnumMember {
   readonly value: number;
 }
 
+/**
+ * Aggregate function state stored in an `AggregateFunction` column, e.g.
+ * `AggregateFunction(quantilesIf(0.5, 0.9), Float64, UInt8)`.
+ */
+export interface AggregateStateAst {
+  /** Function without combinators, e.g. `quantiles`. */
+  readonly func: string;
+  /** Combinators of the state's function, innermost first, e.g. `["If"]`. */
+  readonly combinators: readonly string[];
+  /** Parameters of a parametric function, e.g. `[0.5, 0.9]`. */
+  readonly params: readonly (number | string)[];
+  /** Types of the aggregated arguments. */
+  readonly args: readonly TypeAst[];
+  /** Type `-Merge` and `finalizeAggregation` return, when known. */
+  readonly merged?: TypeAst;
+}
+
+/**
+ * How a column gets its value, mirroring `system.columns.default_kind`.
+ * Absent for ordinary columns.
+ */
+export type ColumnKind = "default" | "materialized" | "alias" | "ephemeral";
+
 /** Column definition. */
 export interface ColumnAst {
   readonly name: string;
   readonly type: TypeAst;
   readonly rawType: string;
   readonly comment?: string;
+  /** Expression of the DEFAULT/MATERIALIZED/ALIAS/EPHEMERAL clause. */
   readonly default?: string;
+  readonly kind?: ColumnKind;
+  /** Column-level TTL expression captured raw. */
+  readonly ttl?: string;
+}
+
+/** Argument of an ENGINE clause. */
+export interface EngineArg {
+  /** Source text of the argument, e.g. `sign` or `'/clickhouse/{shard}'`. */
+  readonly raw: string;
+  /** Value of a string or integer literal argument. */
+  readonly value?: string | number;
+  /** Name of a bare identifier argument (usually a column). */
+  readonly identifier?: string;
+}
+
+/** Table engine, e.g. `ReplacingMergeTree(version, is_deleted)`. */
+export interface EngineAst {
+  readonly name: string;
+  readonly args: readonly EngineArg[];
+}
+
+/** Reference to another table, optionally qualified by database. */
+export interface TableRef {
+  readonly database?: string;
+  readonly name: string;
+}
+
+/** Data skipping index, e.g. `INDEX idx (a, b) TYPE minmax GRANULARITY 1`. */
+export interface IndexAst {
+  readonly name: string;
+  /** Indexed expression captured raw. */
+  readonly expression: string;
+  /** Index type captured raw, e.g. `bloom_filter(0.01)`. */
+  readonly type: string;
+  readonly granularity?: number;
+}
+
+/** Projection, e.g. `PROJECTION p (SELECT ... ORDER BY x)`. */
+export interface ProjectionAst {
+  readonly name: string;
+  /** Projection query captured raw, without the surrounding parentheses. */
+  readonly query: string;
+}
+
+/** Table constraint, e.g. `CONSTRAINT c CHECK amount >= 0`. */
+export interface ConstraintAst {
+  readonly name: string;
+  /** CHECK constraints are enforced on insert; ASSUME ones are optimizer hints. */
+  readonly kind: "check" | "assume";
+  /** Constraint expression captured raw. */
+  readonly expression: string;
+}
+
+/** Value bounds of a column derived from simple CHECK constraints. */
+export interface ColumnChecks {
+  readonly minimum?: number;
+  readonly exclusiveMinimum?: number;
+  readonly maximum?: number;
+  readonly exclusiveMaximum?: number;
+  /** Bounds on `length(column)`, for strings and arrays. */
+  readonly minLength?: number;
+  readonly maxLength?: number;
+}
+
+/** Item of a SELECT list, reduced to what column types are traced from. */
+export interface SelectItemAst {
+  /** Column name, or function name for calls. */
+  readonly name: string;
+  readonly alias?: string;
+  /** Column the item reads: itself, or the first column argument of a call. */
+  readonly srcName?: string;
+  /** Table name or alias qualifying `srcName`, e.g. `s` in `s.amount`. */
+  readonly table?: string;
+  /** Function called, e.g. `sumState`. */
+  readonly func?: string;
+  /** Source text of the item without its alias, e.g. `sum(a * b)`. */
+  readonly expression: string;
+}
+
+/** Table, CTE or subquery in FROM or JOIN, with the alias it is referred to by. */
+export interface SelectSourceAst {
+  /** Table or CTE name; absent for subqueries and table functions. */
+  readonly table?: TableRef;
+  /** Subquery in parentheses. */
+  readonly query?: SelectQueryAst;
+  readonly alias?: string;
+}
+
+/** `ARRAY JOIN column [AS alias]`: one row per element of the array column. */
+export interface ArrayJoinAst {
+  readonly column: string;
+  /** Table name or alias qualifying the column. */
+  readonly table?: string;
+  /** Name the element is available under; the column itself without alias. */
+  readonly alias?: string;
+}
+
+/** SELECT query of a view, as far as it decides the types of its columns. */
+export interface SelectQueryAst {
+  /** `WITH name AS (query)` definitions. */
+  readonly ctes?: readonly {
+    readonly name: string;
+    readonly query: SelectQueryAst;
+  }[];
+  /** `WITH expression AS name` definitions, usable by name in the query. */
+  readonly expressions?: readonly SelectItemAst[];
+  readonly items: readonly SelectItemAst[];
+  /** FROM source followed by the JOINed sources, in order. */
+  readonly sources: readonly SelectSourceAst[];
+  readonly arrayJoins?: readonly ArrayJoinAst[];
+}
+
+/** `{name:Type}` query parameter of a parameterized view. */
+export interface ViewParameterAst {
+  readonly name: string;
+  readonly type: TypeAst;
+  readonly rawType: string;
 }
 
 /** Table AST. */
 export interface TableAst {
   readonly name: string;
+  /** Database qualifier from `db.name`, when present. */
+  readonly database?: string;
+  /** One-based line of the CREATE keyword in the parsed input. */
+  readonly line?: number;
+  /** Table-level COMMENT. */
+  readonly comment?: string;
   readonly columns: readonly ColumnAst[];
+  /** INDEX declarations of the column list. */
+  readonly indexes?: readonly IndexAst[];
+  /** PROJECTION declarations of the column list. */
+  readonly projections?: readonly ProjectionAst[];
+  /** CONSTRAINT declarations of the column list. */
+  readonly constraints?: readonly ConstraintAst[];
+  /** Table cloned by `CREATE TABLE x AS y`, whose columns x inherits. */
+  readonly asTable?: TableRef;
+  /** Optional ENGINE clause. */
+  readonly engine?: EngineAst;
   /** Optional PARTITION BY expression captured raw. */
   readonly partitionBy?: string;
   /** Optional ORDER BY expression captured raw. */
   readonly orderBy?: string;
-  /** For materialized views without explicit columns: source table name. */
+  /** Optional PRIMARY KEY expression captured raw. */
+  readonly primaryKey?: string;
+  /** Optional SAMPLE BY expression captured raw. */
+  readonly sampleBy?: string;
+  /** Optional table-level TTL expression captured raw. */
+  readonly ttl?: string;
+  /** Optional SETTINGS; literal values are unquoted, others kept raw. */
+  readonly settings?: Readonly<Record<string, string | number>>;
+  /** Set for regular views, which are read from but never inserted into. */
+  readonly isView?: boolean;
+  /** Query parameters of a parameterized view, in order of first use. */
+  readonly parameters?: readonly ViewParameterAst[];
+  /** For views: first table of the FROM clause, through subqueries and CTEs. */
   readonly mvFrom?: string;
+  /** For materialized views with a TO clause: table the rows are written to. */
+  readonly mvTo?: TableRef;
   /** For materialized views without explicit columns: select items. */
-  readonly mvSelect?: readonly {
-    name: string;
-    alias?: string;
-    srcName?: string;
-    func?: string;
-  }[];
+  readonly mvSelect?: readonly SelectItemAst[];
   /** Optional: information extracted from a WITH CTE inside MV. */
   readonly mvCte?: {
     readonly name: string;
     readonly src?: string; // source table from FROM clause of CTE
-    readonly columns: readonly {
-      name: string;
-      alias?: string;
-      srcName?: string;
-      func?: string;
-    }[];
+    readonly columns: readonly SelectItemAst[];
   };
+  /** For views: the SELECT query, used to trace column types to tables. */
+  readonly mvQuery?: SelectQueryAst;
 }
 
+/** Column attributes set by `ALTER TABLE ... MODIFY COLUMN`. */
+export type ColumnChanges = Partial<Omit<ColumnAst, "name">>;
+
+/** Single command of an ALTER TABLE statement. */
+export type AlterCommand =
+  | {
+      readonly kind: "addColumn";
+      readonly column: ColumnAst;
+      readonly ifNotExists: boolean;
+      /** Place the column first (`FIRST`) or after another (`AFTER x`). */
+      readonly first?: boolean;
+      readonly after?: string;
+    }
+  | {
+      readonly kind: "dropColumn";
+      readonly name: string;
+      readonly ifExists: boolean;
+    }
+  | {
+      readonly kind: "modifyColumn";
+      readonly name: string;
+      readonly changes: ColumnChanges;
+      readonly ifExists: boolean;
+      readonly first?: boolean;
+      readonly after?: string;
+    }
+  | {
+      readonly kind: "renameColumn";
+      readonly name: string;
+      readonly newName: string;
+      readonly ifExists: boolean;
+    }
+  | {
+      readonly kind: "commentColumn";
+      readonly name: string;
+      readonly comment: string;
+      readonly ifExists: boolean;
+    }
+  /** Any other command (indexes, mutations, partitions, ...), kept raw. */
+  | { readonly kind: "unsupported"; readonly raw: string };
+
+/** ALTER TABLE, RENAME TABLE or DROP TABLE statement. */
+export type SchemaChange =
+  | {
+      readonly kind: "alterTable";
+      readonly table: TableRef;
+      readonly commands: readonly AlterCommand[];
+    }
+  | {
+      readonly kind: "renameTable";
+      readonly renames: readonly {
+        readonly from: TableRef;
+        readonly to: TableRef;
+      }[];
+    }
+  | {
+      readonly kind: "dropTable";
+      readonly table: TableRef;
+      readonly ifExists: boolean;
+    };
+
+/** Severity of a diagnostic. */
+export type DiagnosticSeverity = "error" | "warning";
+
+/** Problem found while processing DDL, with its source position when known. */
+export interface Diagnostic {
+  readonly severity: DiagnosticSeverity;
+  readonly message: string;
+  /** Zero-based index of the statement in the input. */
+  readonly statementIndex?: number;
+  /** One-based line in the input. */
+  readonly line?: number;
+  /** One-based column in the input. */
+  readonly column?: number;
+  /** Image of the offending token. */
+  readonly token?: string;
+  /** Table the diagnostic refers to, for problems found after parsing. */
+  readonly table?: string;
+}
+
+/** Tables parsed from DDL together with the diagnostics raised on the way. */
+export interface ParseResult {
+  readonly tables: readonly TableAst[];
+  readonly diagnostics: readonly Diagnostic[];
+}
+
+/**
+ * How database qualifiers affect generated names.
+ * - "ignore": drop the database (default)
+ * - "prefix": prefix the interface name (`AnalyticsEvents`)
+ * - "namespace": group declarations into `export namespace Analytics { ... }`
+ */
+export type DatabaseNaming = "ignore" | "prefix" | "namespace";
+
 /** Mapping configuration options. */
 export interface MappingOptions {
   readonly int64As: "bigint" | "string";
@@ -63,6 +347,46 @@ export interface MappingOptions {
   readonly datetimeAs: "string" | "Date";
   readonly camelCase: boolean;
   readonly failOnUnknown?: boolean;
+  /**
+   * How to represent unnamed Tuple types (defaults to "object", which keys
+   * elements `_0`, `_1`, ...). "array" emits TS tuples such as `[string, number]`.
+   */
+  readonly tupleAs?: "object" | "array";
+  /**
+   * How to represent Nested columns (defaults to "flatten"). "flatten" emits
+   * parallel `n.a`/`n.b` array columns like ClickHouse's `flatten_nested = 1`;
+   * "array" emits a single array of objects like `flatten_nested = 0`.
+   */
+  readonly nestedAs?: "flatten" | "array";
+  /** How to use database qualifiers in names (defaults to "ignore"). */
+  readonly databaseNaming?: DatabaseNaming;
+  /**
+   * How to type AggregateFunction columns (defaults to "opaque"). "opaque"
+   * emits a branded `AggregateState<'fn'>` string, as states are not
+   * readable values; "merged" emits the type `-Merge` returns instead.
+   */
+  readonly aggregateStateAs?: "opaque" | "merged";
+  /**
+   * How to type geo columns (defaults to "tuple"). "tuple" emits `ChPoint`,
+   * `ChRing`, ... aliases of the nested arrays ClickHouse returns; "geojson"
+   * emits GeoJSON geometry objects such as `GeoJsonPolygon`, for values
+   * converted by the application.
+   */
+  readonly geoAs?: "tuple" | "geojson";
+  /**
+   * How to type Enum8/Enum16 columns (defaults to "union"). "union" emits
+   * the string union of the keys; "const" emits an `as const` object per
+   * enum column plus a type of the same name; "number" emits the union of
+   * the values, for clients reading with `output_format_*_enum_as_number`.
+   */
+  readonly enumAs?: "union" | "const" | "number";
+  /**
+   * How to type Map columns (defaults to "record"). "record" emits the
+   * object ClickHouse returns in JSON, keyed by the enum keys for Enum keys
+   * (`Partial<Record<'a' | 'b', V>>`) and by numeric strings for integer
+   * keys; "map" emits `Map<K, V>`, for clients that decode into JS Maps.
+   */
+  readonly mapAs?: "record" | "map";
   /** Optional mapping plugins to override or extend type mapping. */
   readonly plugins?: readonly MappingPlugin[];
 }
@@ -70,20 +394,109 @@ export interface MappingOptions {
 /** Emission configuration options. */
 export interface EmissionOptions {
   readonly emitZod: boolean;
+  /**
+   * Also emit `XxxRow` (SELECT shape) and `XxxInsert` (INSERT shape)
+   * interfaces, plus matching Zod schemas when emitZod is set.
+   */
+  readonly emitRowTypes?: boolean;
+  /**
+   * Also emit an `XxxMeta` constant with the table name, engine and keys,
+   * for helpers that need e.g. the sign column of a CollapsingMergeTree.
+   */
+  readonly emitMetadata?: boolean;
+  /**
+   * Path of the DDL file, used for `@see` links to each table's CREATE.
+   * Relative to the generated file, so editors can follow the links.
+   */
+  readonly sourcePath?: string;
+}
+
+/**
+ * Data flow through a materialized view: rows inserted into `source` are
+ * transformed by `view` and stored in `target`. Names include the database
+ * qualifier when the DDL has one.
+ */
+export interface LineageEdge {
+  /** Table the view selects from, when it is one of the parsed tables. */
+  readonly source?: string;
+  readonly view: string;
+  /** TO table of the view, or the view itself when it stores its own rows. */
+  readonly target: string;
 }
 
 /** Structure after mapping to TS types. */
 export interface MappedTable {
   readonly interfaceName: string;
+  /** Namespace to emit the declarations in, for "namespace" database naming. */
+  readonly namespace?: string;
   readonly columns: readonly {
     readonly name: string;
     readonly tsType: string;
     readonly chType: string;
     readonly typeAst: TypeAst;
     readonly comment?: string;
+    /** Column value kind from the DDL; absent for ordinary columns. */
+    readonly kind?: ColumnKind;
+    /** Expression of the column's value clause. */
+    readonly default?: string;
+    /** Column-level TTL expression. */
+    readonly ttl?: string;
+    /** Bounds from the table's CHECK constraints. */
+    readonly checks?: ColumnChecks;
+    /** State stored by an `AggregateFunction` column. */
+    readonly aggregate?: AggregateStateAst;
+    /**
+     * The column as `-Merge` returns it, for `AggregateFunction` columns
+     * typed as opaque states.
+     */
+    readonly merged?: {
+      readonly tsType: string;
+      readonly chType: string;
+      readonly typeAst: TypeAst;
+    };
+    /**
+     * Enums of the column emitted as `const` objects, in type order, for
+     * `enumAs: "const"`. The type is the Enum8/Enum16 node of `typeAst`.
+     */
+    readonly enums?: readonly {
+      readonly name: string;
+      readonly type: TypeAst;
+    }[];
+  }[];
+  /** Set for regular views, whose interfaces are read-only. */
+  readonly isView?: boolean;
+  /** Query parameters of a parameterized view. */
+  readonly parameters?: readonly {
+    readonly name: string;
+    readonly tsType: string;
+    readonly chType: string;
+    readonly typeAst: TypeAst;
   }[];
   /** Original table metadata for docs. */
-  readonly meta?: { partitionBy?: string; orderBy?: string };
+  readonly meta?: {
+    table?: string;
+    database?: string;
+    comment?: string;
+    line?: number;
+    engine?: EngineAst;
+    partitionBy?: string;
+    orderBy?: string;
+    primaryKey?: string;
+    sampleBy?: string;
+    ttl?: string;
+    settings?: Readonly<Record<string, string | number>>;
+    indexes?: readonly IndexAst[];
+    projections?: readonly ProjectionAst[];
+    constraints?: readonly ConstraintAst[];
+    /** Materialized views this table feeds, is, or is populated by. */
+    lineage?: readonly LineageEdge[];
+  };
+}
+
+/** Mapped tables together with the diagnostics raised while mapping. */
+export interface MapResult {
+  readonly tables: readonly MappedTable[];
+  readonly diagnostics: readonly Diagnostic[];
 }
 
 /** Convert a string to camelCase. */
@@ -93,6 +506,14 @@ export function toCamelCase(input: string): string {
     .replace(/^[A-Z]/, (c) => c.toLowerCase());
 }
 
+/**
+ * Render a name as an object property key.
+ * Names that are not valid identifiers (e.g. `user-agent`, `1st`) are quoted.
+ */
+export function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
 /** Convert a string to PascalCase. */
 export function toPascalCase(input: string): string {
   const camel = toCamelCase(input);
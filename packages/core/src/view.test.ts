@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { generateSource, parse } from "./index.js";
+
+const map = {
+  int64As: "bigint" as const,
+  decimal: "string" as const,
+  datetimeAs: "string" as const,
+  camelCase: true,
+};
+
+const base =
+  "CREATE TABLE events (id UInt64, user_id UInt32, ts DateTime) ENGINE = MergeTree ORDER BY id;";
+
+describe("View handling", () => {
+  it("derives view columns from the source table", () => {
+    const [, view] = parse(`${base}
+      CREATE OR REPLACE VIEW IF NOT EXISTS db.recent AS
+        SELECT id, user_id AS uid FROM events WHERE ts > now() - 3600;`);
+    expect(view).toMatchObject({
+      name: "recent",
+      database: "db",
+      isView: true,
+      mvFrom: "events",
+    });
+    expect(view!.parameters).toBeUndefined();
+
+    const sql = `${base} CREATE VIEW recent AS SELECT id, user_id AS uid FROM events;`;
+    const out = generateSource(sql, map, { emitZod: false });
+    expect(out).toContain("readonly id: bigint;");
+    expect(out).toContain("readonly uid: number;");
+  });
+
+  it("collects the parameters of a parameterized view once each", () => {
+    const [, view] = parse(`${base}
+      CREATE VIEW by_user AS SELECT id, ts FROM events
+      WHERE user_id = {user:UInt32} AND ts BETWEEN {from:DateTime} AND {to:DateTime}
+        AND id NOT IN {skip: Array(UInt64)} AND user_id != {user:UInt32};`);
+    expect(view!.parameters).toEqual([
+      { name: "user", type: { name: "UInt32", args: [] }, rawType: "UInt32" },
+      {
+        name: "from",
+        type: { name: "DateTime", args: [] },
+        rawType: "DateTime",
+      },
+      { name: "to", type: { name: "DateTime", args: [] }, rawType: "DateTime" },
+      {
+        name: "skip",
+        type: { name: "Array", args: [{ name: "UInt64", args: [] }] },
+        rawType: "Array(UInt64)",
+      },
+    ]);
+  });
+
+  it("emits read-only row types and a typed parameters interface", () => {
+    const sql = `${base}
+      CREATE VIEW by_user AS SELECT id, ts FROM events WHERE user_id = {user_id:UInt32};`;
+    const out = generateSource(sql, map, { emitZod: true, emitRowTypes: true });
+    expect(out).toMatchSnapshot();
+    expect(out).not.toContain("ByUserInsert");
+  });
+});
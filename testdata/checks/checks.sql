@@ -0,0 +1,14 @@
+-- CHECK constraints whose bounds need care to map exactly
+CREATE TABLE orders
+(
+    price Float64,
+    discount Nullable(Float32),
+    amount Int64,
+    qty UInt32,
+    u UInt64,
+    CONSTRAINT price_floor CHECK -5 <= price,
+    CONSTRAINT discount_range CHECK discount BETWEEN -0.5 AND 0.5,
+    CONSTRAINT positive_amount CHECK amount > 0.5,
+    CONSTRAINT qty_limit CHECK qty < 10.5 AND qty >= 1,
+    CONSTRAINT huge CHECK u < 100000000000000000000
+) ENGINE = MergeTree ORDER BY amount;
@@ -1,7 +1,8 @@
 /*
  * Generated by @ch2ts/core
- * Options: {"emitZod":false}
+ * Options: {"emitZod":false,"sourcePath":"../simple/create_simple.sql"}
  */
+/** @see ../simple/create_simple.sql:1 */
 export interface Events {
   /** Original: UInt64 */
   id: bigint;
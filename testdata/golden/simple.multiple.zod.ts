@@ -1,9 +1,20 @@
 /*
  * Generated by @ch2ts/core
- * Options: {"emitZod":true}
+ * Options: {"emitZod":true,"sourcePath":"../simple/test.sql"}
  */
 import { z } from "zod";
 
+export type AggregateState<F extends string> = string & { readonly __brand: 'AggregateState'; readonly __function: F };
+
+/**
+ * Engine: CollapsingMergeTree(sign)
+ * Partition by: toYYYYMM(timestamp)
+ * Order by: (block_number, transaction_index, instruction_address)
+ * Lineage: solana_swaps_raw → solana_dex_swaps_5m_candles
+ * Lineage: solana_swaps_raw → solana_dex_swaps_1h_candles
+ * Lineage: solana_swaps_raw → solana_account_trades_daily
+ * @see ../simple/test.sql:1
+ */
 export interface SolanaSwapsRaw {
   /** Original: DateTime */
   timestamp: string;
@@ -55,6 +66,12 @@ export interface SolanaSwapsRaw {
   poolTokenBReserve: number;
   /** Original: Float64 */
   poolTvl: number;
+  /** Original: Int8 */
+  sign: number;
+  /** Original: String */
+  poolAddress: string;
+  /** Original: amount_a_idx */
+  iNDEX: unknown;
 }
 
 export const SolanaSwapsRawSchema = z.object({
@@ -83,13 +100,82 @@ export const SolanaSwapsRawSchema = z.object({
     poolTokenAReserve: z.number(),
     poolTokenBReserve: z.number(),
     poolTvl: z.number(),
+    sign: z.number(),
+    poolAddress: z.string(),
+    iNDEX: z.any(),
   });
 
+/**
+ * Engine: AggregatingMergeTree
+ * Order by: (pool_address, timestamp, token_a, token_b, dex)
+ * Lineage: solana_swaps_raw → solana_dex_swaps_5m_candles
+ * @see ../simple/test.sql:39
+ */
 export interface SolanaDexSwaps5mCandles {
   /** Original: DateTime */
   timestamp: string;
-  /** Original: Unknown */
-  poolAddress: unknown;
+  /** Original: String */
+  poolAddress: string;
+  /** Original: String */
+  tokenA: string;
+  /** Original: String */
+  tokenB: string;
+  /** Original: LowCardinality(String) */
+  dex: string;
+  /** Original: AggregateFunction(argMin,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  openTokenA: AggregateState<'argMin'>;
+  /** Original: AggregateFunction(max,Float64) */
+  highTokenA: AggregateState<'max'>;
+  /** Original: AggregateFunction(min,Float64) */
+  lowTokenA: AggregateState<'min'>;
+  /** Original: AggregateFunction(argMax,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  closeTokenA: AggregateState<'argMax'>;
+  /** Original: AggregateFunction(argMin,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  openTokenB: AggregateState<'argMin'>;
+  /** Original: AggregateFunction(max,Float64) */
+  highTokenB: AggregateState<'max'>;
+  /** Original: AggregateFunction(min,Float64) */
+  lowTokenB: AggregateState<'min'>;
+  /** Original: AggregateFunction(argMax,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  closeTokenB: AggregateState<'argMax'>;
+  /** Original: AggregateFunction(sum,Int8) */
+  count: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  volumeUsdc: AggregateState<'sum'>;
+  /** Original: AggregateFunction(avg,Float64) */
+  avgSlippage: AggregateState<'avg'>;
+  /** Original: AggregateFunction(max,Float64) */
+  maxPoolTvl: AggregateState<'max'>;
+  /** Original: AggregateFunction(max,Float64) */
+  poolTvlVolumeRatio: AggregateState<'max'>;
+}
+
+export const SolanaDexSwaps5mCandlesSchema = z.object({
+    timestamp: z.string(),
+    poolAddress: z.string(),
+    tokenA: z.string(),
+    tokenB: z.string(),
+    dex: z.string(),
+    openTokenA: z.custom<AggregateState<'argMin'>>((value) => typeof value === 'string'),
+    highTokenA: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+    lowTokenA: z.custom<AggregateState<'min'>>((value) => typeof value === 'string'),
+    closeTokenA: z.custom<AggregateState<'argMax'>>((value) => typeof value === 'string'),
+    openTokenB: z.custom<AggregateState<'argMin'>>((value) => typeof value === 'string'),
+    highTokenB: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+    lowTokenB: z.custom<AggregateState<'min'>>((value) => typeof value === 'string'),
+    closeTokenB: z.custom<AggregateState<'argMax'>>((value) => typeof value === 'string'),
+    count: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    volumeUsdc: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    avgSlippage: z.custom<AggregateState<'avg'>>((value) => typeof value === 'string'),
+    maxPoolTvl: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+    poolTvlVolumeRatio: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+  });
+
+export interface SolanaDexSwaps5mCandlesMerged {
+  /** Original: DateTime */
+  timestamp: string;
+  /** Original: String */
+  poolAddress: string;
   /** Original: String */
   tokenA: string;
   /** Original: String */
@@ -112,8 +198,8 @@ export interface SolanaDexSwaps5mCandles {
   lowTokenB: number;
   /** Original: Float64 */
   closeTokenB: number;
-  /** Original: Unknown */
-  count: unknown;
+  /** Original: Int64 */
+  count: bigint;
   /** Original: Float64 */
   volumeUsdc: number;
   /** Original: Float64 */
@@ -124,9 +210,9 @@ export interface SolanaDexSwaps5mCandles {
   poolTvlVolumeRatio: number;
 }
 
-export const SolanaDexSwaps5mCandlesSchema = z.object({
+export const SolanaDexSwaps5mCandlesMergedSchema = z.object({
     timestamp: z.string(),
-    poolAddress: z.any(),
+    poolAddress: z.string(),
     tokenA: z.string(),
     tokenB: z.string(),
     dex: z.string(),
@@ -138,18 +224,84 @@ export const SolanaDexSwaps5mCandlesSchema = z.object({
     highTokenB: z.number(),
     lowTokenB: z.number(),
     closeTokenB: z.number(),
-    count: z.any(),
+    count: z.bigint(),
     volumeUsdc: z.number(),
     avgSlippage: z.number(),
     maxPoolTvl: z.number(),
     poolTvlVolumeRatio: z.number(),
   });
 
+/**
+ * Engine: AggregatingMergeTree
+ * Order by: (pool_address, timestamp, token_a, token_b, dex)
+ * Lineage: solana_swaps_raw → solana_dex_swaps_1h_candles
+ * @see ../simple/test.sql:69
+ */
 export interface SolanaDexSwaps1hCandles {
   /** Original: DateTime */
   timestamp: string;
-  /** Original: Unknown */
-  poolAddress: unknown;
+  /** Original: String */
+  poolAddress: string;
+  /** Original: String */
+  tokenA: string;
+  /** Original: String */
+  tokenB: string;
+  /** Original: LowCardinality(String) */
+  dex: string;
+  /** Original: AggregateFunction(argMin,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  openTokenA: AggregateState<'argMin'>;
+  /** Original: AggregateFunction(max,Float64) */
+  highTokenA: AggregateState<'max'>;
+  /** Original: AggregateFunction(min,Float64) */
+  lowTokenA: AggregateState<'min'>;
+  /** Original: AggregateFunction(argMax,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  closeTokenA: AggregateState<'argMax'>;
+  /** Original: AggregateFunction(argMin,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  openTokenB: AggregateState<'argMin'>;
+  /** Original: AggregateFunction(max,Float64) */
+  highTokenB: AggregateState<'max'>;
+  /** Original: AggregateFunction(min,Float64) */
+  lowTokenB: AggregateState<'min'>;
+  /** Original: AggregateFunction(argMax,Float64,Tuple(DateTime,UInt16,Array(UInt16))) */
+  closeTokenB: AggregateState<'argMax'>;
+  /** Original: AggregateFunction(sum,Int8) */
+  count: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  volumeUsdc: AggregateState<'sum'>;
+  /** Original: AggregateFunction(avg,Float64) */
+  avgSlippage: AggregateState<'avg'>;
+  /** Original: AggregateFunction(max,Float64) */
+  maxPoolTvl: AggregateState<'max'>;
+  /** Original: AggregateFunction(max,Float64) */
+  poolTvlVolumeRatio: AggregateState<'max'>;
+}
+
+export const SolanaDexSwaps1hCandlesSchema = z.object({
+    timestamp: z.string(),
+    poolAddress: z.string(),
+    tokenA: z.string(),
+    tokenB: z.string(),
+    dex: z.string(),
+    openTokenA: z.custom<AggregateState<'argMin'>>((value) => typeof value === 'string'),
+    highTokenA: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+    lowTokenA: z.custom<AggregateState<'min'>>((value) => typeof value === 'string'),
+    closeTokenA: z.custom<AggregateState<'argMax'>>((value) => typeof value === 'string'),
+    openTokenB: z.custom<AggregateState<'argMin'>>((value) => typeof value === 'string'),
+    highTokenB: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+    lowTokenB: z.custom<AggregateState<'min'>>((value) => typeof value === 'string'),
+    closeTokenB: z.custom<AggregateState<'argMax'>>((value) => typeof value === 'string'),
+    count: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    volumeUsdc: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    avgSlippage: z.custom<AggregateState<'avg'>>((value) => typeof value === 'string'),
+    maxPoolTvl: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+    poolTvlVolumeRatio: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+  });
+
+export interface SolanaDexSwaps1hCandlesMerged {
+  /** Original: DateTime */
+  timestamp: string;
+  /** Original: String */
+  poolAddress: string;
   /** Original: String */
   tokenA: string;
   /** Original: String */
@@ -172,8 +324,8 @@ export interface SolanaDexSwaps1hCandles {
   lowTokenB: number;
   /** Original: Float64 */
   closeTokenB: number;
-  /** Original: Unknown */
-  count: unknown;
+  /** Original: Int64 */
+  count: bigint;
   /** Original: Float64 */
   volumeUsdc: number;
   /** Original: Float64 */
@@ -184,9 +336,9 @@ export interface SolanaDexSwaps1hCandles {
   poolTvlVolumeRatio: number;
 }
 
-export const SolanaDexSwaps1hCandlesSchema = z.object({
+export const SolanaDexSwaps1hCandlesMergedSchema = z.object({
     timestamp: z.string(),
-    poolAddress: z.any(),
+    poolAddress: z.string(),
     tokenA: z.string(),
     tokenB: z.string(),
     dex: z.string(),
@@ -198,13 +350,19 @@ export const SolanaDexSwaps1hCandlesSchema = z.object({
     highTokenB: z.number(),
     lowTokenB: z.number(),
     closeTokenB: z.number(),
-    count: z.any(),
+    count: z.bigint(),
     volumeUsdc: z.number(),
     avgSlippage: z.number(),
     maxPoolTvl: z.number(),
     poolTvlVolumeRatio: z.number(),
   });
 
+/**
+ * Engine: AggregatingMergeTree
+ * Order by: (timestamp, account, token)
+ * Lineage: solana_swaps_raw → solana_account_trades_daily
+ * @see ../simple/test.sql:99
+ */
 export interface SolanaAccountTradesDaily {
   /** Original: DateTime */
   timestamp: string;
@@ -212,10 +370,55 @@ export interface SolanaAccountTradesDaily {
   token: string;
   /** Original: String */
   account: string;
-  /** Original: Float64 */
-  buyCount: number;
-  /** Original: Float64 */
-  sellCount: number;
+  /** Original: AggregateFunction(countIf,UInt8) */
+  buyCount: AggregateState<'countIf'>;
+  /** Original: AggregateFunction(countIf,UInt8) */
+  sellCount: AggregateState<'countIf'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  buyAmount: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  sellAmount: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  buyAmountUsdc: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  sellAmountUsdc: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  profitUsdc: AggregateState<'sum'>;
+  /** Original: AggregateFunction(sum,Float64) */
+  costUsdc: AggregateState<'sum'>;
+  /** Original: AggregateFunction(anyLast,Float64) */
+  balance: AggregateState<'anyLast'>;
+  /** Original: AggregateFunction(max,Float64) */
+  acquisitionCostUsd: AggregateState<'max'>;
+}
+
+export const SolanaAccountTradesDailySchema = z.object({
+    timestamp: z.string(),
+    token: z.string(),
+    account: z.string(),
+    buyCount: z.custom<AggregateState<'countIf'>>((value) => typeof value === 'string'),
+    sellCount: z.custom<AggregateState<'countIf'>>((value) => typeof value === 'string'),
+    buyAmount: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    sellAmount: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    buyAmountUsdc: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    sellAmountUsdc: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    profitUsdc: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    costUsdc: z.custom<AggregateState<'sum'>>((value) => typeof value === 'string'),
+    balance: z.custom<AggregateState<'anyLast'>>((value) => typeof value === 'string'),
+    acquisitionCostUsd: z.custom<AggregateState<'max'>>((value) => typeof value === 'string'),
+  });
+
+export interface SolanaAccountTradesDailyMerged {
+  /** Original: DateTime */
+  timestamp: string;
+  /** Original: String */
+  token: string;
+  /** Original: String */
+  account: string;
+  /** Original: UInt64 */
+  buyCount: bigint;
+  /** Original: UInt64 */
+  sellCount: bigint;
   /** Original: Float64 */
   buyAmount: number;
   /** Original: Float64 */
@@ -234,12 +437,12 @@ export interface SolanaAccountTradesDaily {
   acquisitionCostUsd: number;
 }
 
-export const SolanaAccountTradesDailySchema = z.object({
+export const SolanaAccountTradesDailyMergedSchema = z.object({
     timestamp: z.string(),
     token: z.string(),
     account: z.string(),
-    buyCount: z.number(),
-    sellCount: z.number(),
+    buyCount: z.bigint(),
+    sellCount: z.bigint(),
     buyAmount: z.number(),
     sellAmount: z.number(),
     buyAmountUsdc: z.number(),
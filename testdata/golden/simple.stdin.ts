@@ -0,0 +1,10 @@
+/*
+ * Generated by @ch2ts/core
+ * Options: {"emitZod":false}
+ */
+export interface Events {
+  /** Original: UInt64 */
+  id: bigint;
+  /** Original: String */
+  name: string;
+}
@@ -1,9 +1,10 @@
 /*
  * Generated by @ch2ts/core
- * Options: {"emitZod":true}
+ * Options: {"emitZod":true,"sourcePath":"../simple/create_simple.sql"}
  */
 import { z } from "zod";
 
+/** @see ../simple/create_simple.sql:1 */
 export interface Events {
   /** Original: UInt64 */
   id: bigint;
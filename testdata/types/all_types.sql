@@ -20,3 +20,133 @@ CREATE TABLE t_all (
   r Enum8('A'=1,'B'=2)
 );
 
+-- Every scalar type ClickHouse accepts, by canonical name
+CREATE TABLE t_scalars (
+  i8 Int8,
+  i16 Int16,
+  i32 Int32,
+  i64 Int64,
+  i128 Int128,
+  i256 Int256,
+  u8 UInt8,
+  u16 UInt16,
+  u32 UInt32,
+  u64 UInt64,
+  u128 UInt128,
+  u256 UInt256,
+  f32 Float32,
+  f64 Float64,
+  bf16 BFloat16,
+  dec Decimal(18, 4),
+  dec32 Decimal32(2),
+  dec64 Decimal64(4),
+  dec128 Decimal128(8),
+  dec256 Decimal256(16),
+  flag Bool,
+  str String,
+  fixed FixedString(8),
+  id UUID,
+  ip4 IPv4,
+  ip6 IPv6,
+  d Date,
+  d32 Date32,
+  dt DateTime,
+  dt_tz DateTime('UTC'),
+  dt64 DateTime64(6),
+  dt64_tz DateTime64(3, 'Europe/Amsterdam'),
+  t Time,
+  t64 Time64(3),
+  e8 Enum8('a' = 1, 'b' = 2),
+  e16 Enum16('x' = 1000, 'y' = 2000),
+  e_signed Enum8('down' = -1, 'up' = 1),
+  e_implicit Enum('a', 'b'),
+  nothing Array(Nothing)
+);
+
+-- Semi-structured types
+CREATE TABLE t_semistructured (
+  json JSON,
+  json_typed JSON(max_dynamic_paths = 256, user.id UInt64, user.name String, SKIP user.password, SKIP REGEXP 'tmp\..*'),
+  object Object('json'),
+  variant Variant(String, UInt64, Array(UInt8)),
+  dynamic Dynamic,
+  dynamic_max Dynamic(max_types = 16)
+);
+
+-- Geo types
+CREATE TABLE t_geo (
+  point Point,
+  ring Ring,
+  line LineString,
+  lines MultiLineString,
+  polygon Polygon,
+  polygons MultiPolygon
+);
+
+-- SQL-standard and MySQL-compatible aliases, in mixed case
+CREATE TABLE t_aliases (
+  tiny TINYINT,
+  tiny_u TINYINT UNSIGNED,
+  int1 INT1,
+  byte BYTE,
+  small SMALLINT,
+  small_u SMALLINT UNSIGNED,
+  year YEAR,
+  medium MEDIUMINT,
+  medium_u MEDIUMINT UNSIGNED,
+  int_ INT,
+  int_s INT SIGNED,
+  int_u INT UNSIGNED,
+  integer INTEGER,
+  big BIGINT,
+  big_u BIGINT UNSIGNED,
+  bit BIT,
+  set_ SET,
+  float_ FLOAT,
+  real_ REAL,
+  single SINGLE,
+  double_ DOUBLE,
+  double_p DOUBLE PRECISION,
+  dec_ DEC(10, 2),
+  numeric_ NUMERIC(10, 2),
+  fixed_ FIXED(10, 2),
+  bool_ BOOL,
+  boolean_ BOOLEAN,
+  text_ TEXT,
+  tinytext TINYTEXT,
+  mediumtext MEDIUMTEXT,
+  longtext LONGTEXT,
+  blob_ BLOB,
+  tinyblob TINYBLOB,
+  mediumblob MEDIUMBLOB,
+  longblob LONGBLOB,
+  bytea BYTEA,
+  clob CLOB,
+  char_ CHAR(10),
+  character_ CHARACTER,
+  varchar_ VARCHAR(255),
+  varchar2 VARCHAR2,
+  nchar NCHAR,
+  nvarchar NVARCHAR(64),
+  varbinary VARBINARY,
+  char_varying CHAR VARYING,
+  character_varying CHARACTER VARYING(32),
+  nchar_varying NCHAR VARYING,
+  national_char NATIONAL CHAR,
+  national_character NATIONAL CHARACTER,
+  national_char_varying NATIONAL CHAR VARYING,
+  national_character_varying NATIONAL CHARACTER VARYING,
+  binary_varying BINARY VARYING,
+  char_lob CHAR LARGE OBJECT,
+  character_lob CHARACTER LARGE OBJECT,
+  nchar_lob NCHAR LARGE OBJECT,
+  national_character_lob NATIONAL CHARACTER LARGE OBJECT,
+  binary_lob BINARY LARGE OBJECT,
+  binary_ BINARY(16),
+  timestamp_ TIMESTAMP,
+  inet4 INET4,
+  inet6 INET6,
+  lower_u64 uint64,
+  lower_dt datetime64(3),
+  lower_bool bool
+);